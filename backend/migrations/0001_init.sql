@@ -0,0 +1,40 @@
+-- Initial schema for the D1 storage backend (src/storage/d1.ts)
+
+CREATE TABLE IF NOT EXISTS players (
+  wallet_address TEXT PRIMARY KEY,
+  xp INTEGER NOT NULL DEFAULT 0,
+  level INTEGER NOT NULL DEFAULT 1,
+  gold INTEGER NOT NULL DEFAULT 0,
+  balance REAL NOT NULL DEFAULT 0,
+  nfts TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS reward_ledger (
+  wallet_address TEXT NOT NULL,
+  reward_type TEXT NOT NULL,
+  amount REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  idempotency_key TEXT,
+  transaction_hash TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (wallet_address, reward_type)
+);
+
+CREATE INDEX IF NOT EXISTS reward_ledger_status ON reward_ledger (status, created_at);
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  transaction_hash TEXT,
+  vm_status TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
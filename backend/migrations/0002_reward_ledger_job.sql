@@ -0,0 +1,3 @@
+-- Job that submits a reward payout (src/services/jobService.ts)
+
+ALTER TABLE reward_ledger ADD COLUMN job_id TEXT;
@@ -0,0 +1,24 @@
+-- Contract events and checkpoints for the event indexer (src/services/eventIndexer.ts)
+
+CREATE TABLE IF NOT EXISTS chain_events (
+  transaction_version INTEGER NOT NULL,
+  event_index INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  wallet_address TEXT NOT NULL,
+  from_address TEXT,
+  amount REAL,
+  token_name TEXT,
+  data TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  PRIMARY KEY (transaction_version, event_index)
+);
+
+CREATE INDEX IF NOT EXISTS chain_events_wallet ON chain_events (wallet_address, transaction_version);
+CREATE INDEX IF NOT EXISTS chain_events_from ON chain_events (from_address, transaction_version);
+CREATE INDEX IF NOT EXISTS chain_events_type ON chain_events (type, transaction_version);
+
+CREATE TABLE IF NOT EXISTS checkpoints (
+  name TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,18 @@
+-- NPC shop offers (src/services/shopService.ts)
+
+CREATE TABLE IF NOT EXISTS shop_offers (
+  id TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  chain TEXT NOT NULL,
+  metadata_id INTEGER NOT NULL,
+  price REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  expires_at TEXT NOT NULL,
+  -- "<chain>:<metadataId>" while the offer holds its metadata ID, NULL once released
+  reservation_key TEXT UNIQUE,
+  payment_transaction_hash TEXT UNIQUE,
+  transaction_hash TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,10 @@
+-- Admin-tunable settings such as shop pricing (src/services/pricingService.ts)
+
+CREATE TABLE IF NOT EXISTS settings (
+  name TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Recent sales, for demand pricing
+CREATE INDEX IF NOT EXISTS shop_offers_sales ON shop_offers (status, chain, updated_at);
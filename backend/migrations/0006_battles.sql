@@ -0,0 +1,20 @@
+-- NPC battles and the vouchers they discount shop offers with (src/services/battleService.ts)
+
+CREATE TABLE IF NOT EXISTS battles (
+  id TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  chain TEXT NOT NULL,
+  -- One battle per offer, so a lost battle can't be retried
+  offer_id TEXT NOT NULL UNIQUE,
+  seed INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  player_health INTEGER,
+  npc_health INTEGER,
+  expires_at TEXT NOT NULL,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+ALTER TABLE shop_offers ADD COLUMN paid_price REAL;
+ALTER TABLE shop_offers ADD COLUMN battle_id TEXT;
@@ -0,0 +1,4 @@
+-- Achievements are reward ledger entries of type `achievement:<id>` (src/services/achievementService.ts);
+-- the soulbound NFT is minted to this EVM address
+
+ALTER TABLE reward_ledger ADD COLUMN recipient TEXT;
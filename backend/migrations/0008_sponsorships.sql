@@ -0,0 +1,11 @@
+-- Player transactions the backend paid gas for as fee payer (src/services/sponsorService.ts)
+
+CREATE TABLE IF NOT EXISTS sponsorships (
+  id TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  function TEXT NOT NULL,
+  max_gas_amount INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sponsorships_wallet ON sponsorships (wallet_address, created_at);
@@ -0,0 +1,3 @@
+-- Burn that paid for an EVM shop purchase (src/services/shopService.ts)
+
+ALTER TABLE shop_offers ADD COLUMN burn_transaction_hash TEXT;
@@ -0,0 +1,3 @@
+-- EVM token minted to the server signer for a shop purchase, before its transfer to the player (src/services/shopService.ts)
+
+ALTER TABLE shop_offers ADD COLUMN minted_token_id TEXT;
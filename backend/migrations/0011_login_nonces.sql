@@ -0,0 +1,8 @@
+-- Login challenge nonces already exchanged for a session (src/services/authService.ts)
+
+CREATE TABLE IF NOT EXISTS login_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS login_nonces_expiry ON login_nonces (expires_at);
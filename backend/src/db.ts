@@ -1,14 +1,23 @@
 import mongoose from 'mongoose';
 import "dotenv/config";
 
-const connectDB = async () => {
+const connectDB = async (uri?: string) => {
+    // Reuse the connection across requests
+    if (mongoose.connection.readyState === 1) return;
+
+    const mongoUri = uri || process.env.MONGO_URI;
+    if (!mongoUri) {
+        throw new Error('MONGO_URI environment variable required.');
+    }
+
     try {
-        await mongoose.connect(process.env.MONGO_URI as string)
+        await mongoose.connect(mongoUri)
         console.log('MongoDB connection SUCCESS');
     } catch (error) {
+        // Let the caller decide: a Worker cannot exit, and a failed request shouldn't kill Node either
         console.error(`Error: ${error}`);
-        process.exit(1);
+        throw new Error('Failed to connect to MongoDB');
     }
 };    
 
-export default connectDB;
\ No newline at end of file
+export default connectDB;
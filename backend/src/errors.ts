@@ -0,0 +1,117 @@
+import type { Context, ErrorHandler, NotFoundHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { TransactionAbortedError } from './utils/vmStatus';
+
+/**
+ * Stable, machine-readable error codes returned in the `code` field
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'REWARD_ALREADY_CLAIMED'
+  | 'REWARD_REJECTED'
+  | 'TRANSACTION_FAILED'
+  | 'TRANSACTION_ABORTED'
+  | 'METADATA_UNAVAILABLE'
+  | 'SHOP_SOLD_OUT'
+  | 'INVALID_QUOTE'
+  | 'QUOTE_EXPIRED'
+  | 'QUOTE_ALREADY_USED'
+  | 'PAYMENT_REQUIRED'
+  | 'INVALID_PAYMENT'
+  | 'PAYMENT_ALREADY_USED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INVALID_VOUCHER'
+  | 'PURCHASE_NOT_RETRYABLE'
+  | 'OFFER_UNAVAILABLE'
+  | 'BATTLE_ALREADY_FOUGHT'
+  | 'BATTLE_EXPIRED'
+  | 'BATTLE_FINISHED'
+  | 'INVALID_BATTLE_LOG'
+  | 'ACHIEVEMENT_NOT_EARNED'
+  | 'ACHIEVEMENT_ALREADY_AWARDED'
+  | 'INVALID_TRANSACTION'
+  | 'TRANSACTION_NOT_SPONSORED'
+  | 'SPONSOR_QUOTA_EXCEEDED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Body of every error response
+ */
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+}
+
+/**
+ * An error that maps to a specific HTTP response. Throw it from handlers
+ * and middleware; `handleError` turns it into an `ErrorResponse`.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: ContentfulStatusCode,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  static badRequest(message: string, details?: unknown) {
+    return new ApiError(400, 'VALIDATION_ERROR', message, details);
+  }
+
+  static unauthorized(message = 'Authentication required', details?: unknown) {
+    return new ApiError(401, 'UNAUTHORIZED', message, details);
+  }
+
+  static forbidden(message: string) {
+    return new ApiError(403, 'FORBIDDEN', message);
+  }
+
+  static notFound(message: string) {
+    return new ApiError(404, 'NOT_FOUND', message);
+  }
+}
+
+const errorBody = (code: ErrorCode, error: string, details?: unknown): ErrorResponse => ({
+  success: false,
+  error,
+  code,
+  ...(details !== undefined && { details }),
+});
+
+/**
+ * `app.onError` handler: every thrown error becomes an `ErrorResponse`
+ */
+export const handleError: ErrorHandler = (error, c) => {
+  if (error instanceof ApiError) {
+    return c.json(errorBody(error.code, error.message, error.details), error.status);
+  }
+
+  // An admin transaction that failed its simulation, or failed on-chain
+  if (error instanceof TransactionAbortedError) {
+    const { vmStatus, abort } = error.status;
+    return c.json(errorBody('TRANSACTION_ABORTED', error.message, { vmStatus, abort }), 422);
+  }
+
+  // Raised by Hono itself, e.g. for a body that isn't valid JSON
+  if (error instanceof HTTPException) {
+    const code = error.status === 401 ? 'UNAUTHORIZED' : error.status < 500 ? 'BAD_REQUEST' : 'INTERNAL_ERROR';
+    return c.json(errorBody(code, error.message), error.status);
+  }
+
+  console.error(`${c.req.method} ${c.req.path} failed:`, error);
+  return c.json(errorBody('INTERNAL_ERROR', error.message || 'Internal server error'), 500);
+};
+
+export const handleNotFound: NotFoundHandler = (c: Context) => {
+  return c.json(errorBody('NOT_FOUND', `No route for ${c.req.method} ${c.req.path}`), 404);
+};
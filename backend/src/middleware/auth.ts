@@ -0,0 +1,51 @@
+import { createMiddleware } from 'hono/factory';
+import { ApiError } from '../errors';
+import { AuthService, isAdminWallet } from '../services/authService';
+import type { AppEnv, AuthenticatedWallet } from '../types';
+import { detectAddressChain, normalizeAddress } from '../utils/address';
+
+/**
+ * Require a valid `Authorization: Bearer <session token>` header and
+ * attach the verified wallet to the context as `wallet`.
+ */
+export const requireAuth = createMiddleware<AppEnv>(async (c, next) => {
+  const header = c.req.header('Authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!token) {
+    throw ApiError.unauthorized();
+  }
+
+  const authService = new AuthService(c.get('storage').loginNonces, c.env);
+  try {
+    const wallet = await authService.verifySession(token);
+    c.set('wallet', wallet);
+  } catch (error: any) {
+    throw ApiError.unauthorized('Invalid or expired session token', { reason: error.message });
+  }
+
+  await next();
+});
+
+/**
+ * Require the authenticated wallet to be on the `ADMIN_WALLETS` allowlist.
+ * Must run after `requireAuth`.
+ */
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  if (!isAdminWallet(c.env, c.get('wallet'))) {
+    throw ApiError.forbidden('Admin privileges required');
+  }
+
+  await next();
+});
+
+/**
+ * Check whether an address (of either chain) belongs to the session wallet
+ */
+export function isSessionWallet(wallet: AuthenticatedWallet, address: string): boolean {
+  const chain = detectAddressChain(address);
+  try {
+    return chain === wallet.chain && normalizeAddress(chain, address) === wallet.address;
+  } catch {
+    return false;
+  }
+}
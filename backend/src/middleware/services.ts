@@ -0,0 +1,17 @@
+import { createMiddleware } from 'hono/factory';
+import { AptosService } from '../services/aptosService';
+import { EVMService } from '../services/evmService';
+import { MetadataService } from '../services/metadataService';
+import type { AppEnv } from '../types';
+
+/**
+ * Build the chain services from the request's env bindings as
+ * `aptosService` and `evmService`, and the NFT metadata resolver as
+ * `metadataService`
+ */
+export const withServices = createMiddleware<AppEnv>(async (c, next) => {
+  c.set('aptosService', new AptosService(c.env));
+  c.set('evmService', new EVMService(c.env));
+  c.set('metadataService', new MetadataService(c.env));
+  await next();
+});
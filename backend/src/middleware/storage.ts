@@ -0,0 +1,11 @@
+import { createMiddleware } from 'hono/factory';
+import { createStorage } from '../storage';
+import type { AppEnv } from '../types';
+
+/**
+ * Attach the storage backend selected from the env bindings as `storage`
+ */
+export const withStorage = createMiddleware<AppEnv>(async (c, next) => {
+  c.set('storage', createStorage(c.env));
+  await next();
+});
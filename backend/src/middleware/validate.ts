@@ -0,0 +1,23 @@
+import { zValidator } from '@hono/zod-validator';
+import type { ValidationTargets } from 'hono';
+import type { ZodError, ZodSchema } from 'zod';
+import { ApiError } from '../errors';
+
+const toDetails = (target: string, error: ZodError) =>
+  error.issues.map((issue) => ({
+    field: [target, ...issue.path].join('.'),
+    message: issue.message,
+  }));
+
+/**
+ * Validate (and transform) a request part against a schema. Failures throw a
+ * 400 `VALIDATION_ERROR` listing every problem, before the handler runs.
+ * Read the result with `c.req.valid(target)`.
+ */
+export const validate = <T extends ZodSchema, Target extends keyof ValidationTargets>(target: Target, schema: T) =>
+  zValidator(target, schema, (result) => {
+    if (!result.success) {
+      const details = toDetails(target, result.error);
+      throw ApiError.badRequest(details.map(({ field, message }) => `${field}: ${message}`).join('; '), details);
+    }
+  });
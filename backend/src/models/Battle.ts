@@ -0,0 +1,19 @@
+import mongoose from "mongoose";
+
+const BattleSchema = new mongoose.Schema({
+  _id: { type: String, default: () => crypto.randomUUID() },
+  walletAddress: { type: String, required: true },
+  chain: { type: String, enum: ["evm", "aptos"], required: true },
+  // One battle per offer, so a lost battle can't be retried
+  offerId: { type: String, required: true, unique: true },
+  seed: { type: Number, required: true },
+  status: { type: String, enum: ["active", "won", "lost", "rejected"], default: "active" },
+  playerHealth: Number,
+  npcHealth: Number,
+  expiresAt: { type: Date, required: true },
+  error: String,
+}, { timestamps: true });
+
+const Battle = mongoose.models.Battle || mongoose.model("Battle", BattleSchema);
+
+export default Battle;
@@ -0,0 +1,22 @@
+import mongoose from "mongoose";
+
+const ChainEventSchema = new mongoose.Schema({
+  transactionVersion: { type: Number, required: true },
+  eventIndex: { type: Number, required: true },
+  type: { type: String, required: true },
+  walletAddress: { type: String, required: true },
+  fromAddress: String,
+  amount: Number,
+  tokenName: String,
+  data: Object,
+  timestamp: { type: Date, required: true },
+});
+
+ChainEventSchema.index({ transactionVersion: 1, eventIndex: 1 }, { unique: true });
+ChainEventSchema.index({ walletAddress: 1, transactionVersion: -1 });
+ChainEventSchema.index({ fromAddress: 1, transactionVersion: -1 });
+ChainEventSchema.index({ type: 1, transactionVersion: -1 });
+
+const ChainEvent = mongoose.models.ChainEvent || mongoose.model("ChainEvent", ChainEventSchema);
+
+export default ChainEvent;
@@ -0,0 +1,10 @@
+import mongoose from "mongoose";
+
+const CheckpointSchema = new mongoose.Schema({
+  _id: String,
+  value: { type: String, required: true },
+}, { timestamps: true });
+
+const Checkpoint = mongoose.models.Checkpoint || mongoose.model("Checkpoint", CheckpointSchema);
+
+export default Checkpoint;
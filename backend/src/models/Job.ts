@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+
+const JobSchema = new mongoose.Schema({
+  _id: { type: String, default: () => crypto.randomUUID() },
+  type: { type: String, required: true },
+  payload: Object,
+  status: { type: String, enum: ["queued", "submitting", "submitted", "committed", "failed"], default: "queued" },
+  attempts: { type: Number, default: 0 },
+  transactionHash: String,
+  vmStatus: String,
+  error: String,
+}, { timestamps: true });
+
+const Job = mongoose.models.Job || mongoose.model("Job", JobSchema);
+
+export default Job;
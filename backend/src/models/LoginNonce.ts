@@ -0,0 +1,12 @@
+import mongoose from "mongoose";
+
+const LoginNonceSchema = new mongoose.Schema({
+  _id: String,
+  expiresAt: { type: Date, required: true },
+});
+
+LoginNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginNonce = mongoose.models.LoginNonce || mongoose.model("LoginNonce", LoginNonceSchema);
+
+export default LoginNonce;
@@ -4,8 +4,11 @@ const PlayerSchema = new mongoose.Schema({
   walletAddress: { type: String, required: true, unique: true },
   xp: { type: Number, default: 0 },
   level: { type: Number, default: 1 },
+  gold: { type: Number, default: 0 },
   nfts: [{ tokenId: String, metadata: Object }],
   balance: { type: Number, default: 0 },
-});
+}, { timestamps: true });
 
-const Player = mongoose.model("Player", PlayerSchema);
+const Player = mongoose.models.Player || mongoose.model("Player", PlayerSchema);
+
+export default Player;
@@ -0,0 +1,20 @@
+import mongoose from "mongoose";
+
+const RewardLedgerSchema = new mongoose.Schema({
+  walletAddress: { type: String, required: true },
+  rewardType: { type: String, required: true },
+  amount: { type: Number, required: true },
+  status: { type: String, enum: ["pending", "submitted", "confirmed", "rejected", "failed"], default: "pending" },
+  idempotencyKey: String,
+  jobId: String,
+  recipient: String,
+  transactionHash: String,
+  error: String,
+}, { timestamps: true });
+
+RewardLedgerSchema.index({ walletAddress: 1, rewardType: 1 }, { unique: true });
+RewardLedgerSchema.index({ status: 1, createdAt: 1 });
+
+const RewardLedger = mongoose.models.RewardLedger || mongoose.model("RewardLedger", RewardLedgerSchema);
+
+export default RewardLedger;
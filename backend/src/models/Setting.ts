@@ -0,0 +1,10 @@
+import mongoose from "mongoose";
+
+const SettingSchema = new mongoose.Schema({
+  _id: String,
+  value: { type: Object, required: true },
+}, { timestamps: true });
+
+const Setting = mongoose.models.Setting || mongoose.model("Setting", SettingSchema);
+
+export default Setting;
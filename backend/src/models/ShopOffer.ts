@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+
+const ShopOfferSchema = new mongoose.Schema({
+  _id: { type: String, default: () => crypto.randomUUID() },
+  walletAddress: { type: String, required: true },
+  chain: { type: String, enum: ["evm", "aptos"], required: true },
+  metadataId: { type: Number, required: true },
+  price: { type: Number, required: true },
+  status: { type: String, enum: ["open", "purchasing", "purchased", "unfulfilled", "failed"], default: "open" },
+  expiresAt: { type: Date, required: true },
+  paidPrice: Number,
+  battleId: String,
+  // "<chain>:<metadataId>" while the offer holds its metadata ID, unset once released
+  reservationKey: String,
+  paymentTransactionHash: String,
+  burnTransactionHash: String,
+  mintedTokenId: String,
+  transactionHash: String,
+  error: String,
+}, { timestamps: true });
+
+ShopOfferSchema.index({ reservationKey: 1 }, { unique: true, sparse: true });
+ShopOfferSchema.index({ paymentTransactionHash: 1 }, { unique: true, sparse: true });
+ShopOfferSchema.index({ status: 1, chain: 1, updatedAt: 1 });
+
+const ShopOffer = mongoose.models.ShopOffer || mongoose.model("ShopOffer", ShopOfferSchema);
+
+export default ShopOffer;
@@ -0,0 +1,14 @@
+import mongoose from "mongoose";
+
+const SponsorshipSchema = new mongoose.Schema({
+  _id: { type: String, default: () => crypto.randomUUID() },
+  walletAddress: { type: String, required: true },
+  function: { type: String, required: true },
+  maxGasAmount: { type: Number, required: true },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+SponsorshipSchema.index({ walletAddress: 1, createdAt: 1 });
+
+const Sponsorship = mongoose.models.Sponsorship || mongoose.model("Sponsorship", SponsorshipSchema);
+
+export default Sponsorship;
@@ -0,0 +1,83 @@
+import { Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { ApiError, type ErrorCode } from '../errors';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { achievementClaimBody, achievementIdParam, walletParam } from '../schemas';
+import {
+  ACHIEVEMENTS,
+  AchievementError,
+  type AchievementErrorReason,
+  AchievementService,
+} from '../services/achievementService';
+import type { AppEnv } from '../types';
+
+const achievements = new Hono<AppEnv>();
+
+const ACHIEVEMENT_ERRORS: Record<AchievementErrorReason, [ContentfulStatusCode, ErrorCode]> = {
+  unknown_achievement: [404, 'NOT_FOUND'],
+  not_earned: [403, 'ACHIEVEMENT_NOT_EARNED'],
+  already_awarded: [409, 'ACHIEVEMENT_ALREADY_AWARDED'],
+};
+
+/**
+ * Run an achievement operation, turning `AchievementError`s into their API errors
+ */
+async function withAchievementErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof AchievementError) {
+      const [status, code] = ACHIEVEMENT_ERRORS[error.reason];
+      throw new ApiError(status, code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * GET /achievements
+ * List every achievement and the soulbound variant it awards.
+ */
+achievements.get('/', (c) => {
+  return c.json({ achievements: ACHIEVEMENTS });
+});
+
+/**
+ * GET /achievements/:wallet
+ * List every achievement with whether the player earned it and the state of its award.
+ */
+achievements.get('/:wallet', validate('param', walletParam), async (c) => {
+  const { wallet } = c.req.valid('param');
+  const storage = c.get('storage');
+  const progress = await new AchievementService(storage.rewards, storage.players, c.get('evmService')).list(wallet);
+  return c.json({ walletAddress: wallet, achievements: progress });
+});
+
+/**
+ * POST /achievements/:id/claim
+ * Award an achievement the session wallet has earned by minting its soulbound
+ * NFT. Expects a JSON body with `recipient`, the EVM address to mint to;
+ * EVM sessions may leave it out to mint to their own wallet.
+ */
+achievements.post('/:id/claim', requireAuth, validate('param', achievementIdParam), validate('json', achievementClaimBody), async (c) => {
+  const wallet = c.get('wallet');
+  const recipient = c.req.valid('json').recipient ?? (wallet.chain === 'evm' ? wallet.address : undefined);
+  if (!recipient) {
+    throw ApiError.badRequest('recipient is required for Aptos sessions');
+  }
+
+  const storage = c.get('storage');
+  const entry = await withAchievementErrors(() =>
+    new AchievementService(storage.rewards, storage.players, c.get('evmService'))
+      .claim(wallet.address, c.req.valid('param').id, recipient));
+
+  return c.json({
+    achievementId: c.req.valid('param').id,
+    recipient,
+    status: entry.status,
+    transactionHash: entry.transactionHash,
+  });
+});
+
+export default achievements;
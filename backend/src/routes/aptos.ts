@@ -0,0 +1,295 @@
+import { Hono, type Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { ApiError, type ErrorCode } from '../errors';
+import { isSessionWallet, requireAdmin, requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  aptosAddressParam,
+  aptosCoAMintBody,
+  aptosMintBody,
+  aptosOwnerParam,
+  coaHistoryQuery,
+  eventsQuery,
+  rewardPlayerBody,
+  simulateBody,
+  sponsorBody,
+  tokensQuery,
+} from '../schemas';
+import { TransactionBuildError } from '../services/aptosService';
+import { isAdminWallet } from '../services/authService';
+import { CoAHistoryService } from '../services/coaHistoryService';
+import { EventIndexer, formatEventPosition } from '../services/eventIndexer';
+import { JobService } from '../services/jobService';
+import { NEW_PLAYER_REWARD, RewardService } from '../services/rewardService';
+import { SponsorError, type SponsorErrorReason, SponsorService } from '../services/sponsorService';
+import type { RewardLedgerEntry } from '../storage';
+import type { AppEnv, MintedAptosNFT } from '../types';
+import { backgroundTasks } from '../utils/background';
+
+const aptos = new Hono<AppEnv>();
+
+const SPONSOR_ERRORS: Record<SponsorErrorReason, [ContentfulStatusCode, ErrorCode]> = {
+  invalid_transaction: [400, 'INVALID_TRANSACTION'],
+  sender_mismatch: [403, 'FORBIDDEN'],
+  function_not_sponsored: [403, 'TRANSACTION_NOT_SPONSORED'],
+  limits_exceeded: [403, 'TRANSACTION_NOT_SPONSORED'],
+  quota_exceeded: [429, 'SPONSOR_QUOTA_EXCEEDED'],
+};
+
+/**
+ * GET /aptos/tokens/:ownerAddress
+ * Fetches the CoA and APT balances and the Velmora NFTs of an Aptos account.
+ * NFTs are paged with `offset` and `limit`; pass `metadata=true` to include
+ * each NFT's metadata JSON.
+ */
+aptos.get('/tokens/:ownerAddress', validate('param', aptosOwnerParam), validate('query', tokensQuery), async (c) => {
+  const { offset, limit, metadata } = c.req.valid('query');
+  const tokens = await c.get('aptosService').getAccountTokens(c.req.valid('param').ownerAddress, { offset, limit });
+  if (!metadata) {
+    return c.json(tokens);
+  }
+
+  const resolved = await c.get('metadataService').getManyByUri(tokens.nfts.map((nft) => nft.uri));
+  const nfts = tokens.nfts.map((nft) => ({ ...nft, metadata: resolved.get(nft.uri)?.metadata ?? null }));
+  return c.json({ ...tokens, nfts });
+});
+
+/**
+ * POST /aptos/mint
+ * Mints a random Velmora NFT to a specified user address using on-chain randomness.
+ * Expects a JSON body with a `userAddress` field. Players get one starter NFT,
+ * minted to their own wallet; admins may mint to anyone, any number of times.
+ */
+aptos.post('/mint', requireAuth, validate('json', aptosMintBody), async (c) => {
+  const { userAddress } = c.req.valid('json');
+  const wallet = c.get('wallet');
+  const aptosService = c.get('aptosService');
+
+  let nft: MintedAptosNFT | null;
+  if (isAdminWallet(c.env, wallet)) {
+    nft = await aptosService.mintRandomNFT(userAddress);
+  } else if (isSessionWallet(wallet, userAddress)) {
+    const storage = c.get('storage');
+    nft = await new RewardService(storage.rewards, storage.events, aptosService).mintStarterNFT(wallet.address);
+    if (!nft) {
+      throw new ApiError(409, 'REWARD_ALREADY_CLAIMED', 'Player has already received a starter NFT');
+    }
+  } else {
+    throw ApiError.forbidden('userAddress must match the authenticated wallet');
+  }
+
+  return c.json({
+    message: `${nft.tokenName} minted successfully`,
+    transactionHash: nft.transactionHash,
+    recipient: userAddress,
+    tokenName: nft.tokenName,
+    metadataId: nft.metadataId,
+    rarity: nft.rarity,
+    skill: nft.skill
+  });
+});
+
+/**
+ * POST /aptos/sponsor
+ * Pay the gas of one of the session wallet's own transactions. Expects a JSON
+ * body with `transaction`, a hex BCS `SimpleTransaction` built with a
+ * placeholder fee payer. Returns the fee payer's address and authenticator
+ * to submit the transaction with.
+ */
+aptos.post('/sponsor', requireAuth, validate('json', sponsorBody), async (c) => {
+  const wallet = c.get('wallet');
+  if (wallet.chain !== 'aptos') {
+    throw ApiError.forbidden('Only Aptos wallets can have transactions sponsored');
+  }
+
+  const service = new SponsorService(c.get('storage').sponsorships, c.get('aptosService'), c.env);
+  try {
+    return c.json(await service.sponsor(wallet.address, c.req.valid('json').transaction));
+  } catch (error) {
+    if (error instanceof SponsorError) {
+      const [status, code] = SPONSOR_ERRORS[error.reason];
+      throw new ApiError(status, code, error.message);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /aptos/simulate
+ * Dry-run a Velmora contract entry function call from `sender` without
+ * submitting it. Returns whether it would succeed, why not (with the Move
+ * abort decoded), and the gas it would use. Set `sponsored` to simulate it
+ * with the backend as fee payer.
+ */
+aptos.post('/simulate', validate('json', simulateBody), async (c) => {
+  const { sender, function: functionName, typeArguments, functionArguments, sponsored } = c.req.valid('json');
+  const aptosService = c.get('aptosService');
+
+  try {
+    const simulation = await aptosService.simulate(sender, {
+      function: `${aptosService.getContractAddress()}::${functionName}` as `${string}::${string}::${string}`,
+      typeArguments,
+      functionArguments,
+    }, { sponsored });
+    return c.json({ sender, function: functionName, sponsored, ...simulation });
+  } catch (error) {
+    if (error instanceof TransactionBuildError) {
+      throw new ApiError(400, 'INVALID_TRANSACTION', error.message);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /aptos/coa/balance/:address
+ * Get CoA token balance for a specific address.
+ */
+aptos.get('/coa/balance/:address', validate('param', aptosAddressParam), async (c) => {
+  const { address } = c.req.valid('param');
+  const balance = await c.get('aptosService').getCoABalance(address);
+  return c.json({ address, balance });
+});
+
+const rewardResponse = (c: Context<AppEnv>, entry: RewardLedgerEntry) => {
+  const { walletAddress, amount, status, jobId, transactionHash, error } = entry;
+  const body = { walletAddress, amount, status, jobId, transactionHash };
+
+  switch (status) {
+    case 'confirmed':
+      return c.json({ message: `Player rewarded with ${amount} CoA tokens successfully`, ...body });
+    case 'pending':
+    case 'submitted':
+      return c.json({ message: 'Reward queued and awaiting confirmation', ...body }, 202);
+    case 'rejected':
+      throw new ApiError(409, 'REWARD_REJECTED', 'Player already holds CoA tokens', { ...body, reason: error });
+    case 'failed':
+      throw new ApiError(500, 'TRANSACTION_FAILED', 'Failed to reward player with CoA tokens.', { ...body, reason: error });
+  }
+};
+
+/**
+ * POST /aptos/coa/reward-player
+ * Reward new player with 650 CoA tokens, once per wallet. The payout runs as a
+ * job; poll `GET /jobs/:id` with the returned `jobId`.
+ * Expects a JSON body with a `playerAddress` field. Send an `Idempotency-Key`
+ * header to safely retry: a repeated key returns the original reward's status.
+ */
+aptos.post('/coa/reward-player', validate('json', rewardPlayerBody), async (c) => {
+  const { playerAddress: walletAddress } = c.req.valid('json');
+
+  const aptosService = c.get('aptosService');
+  const rewardService = new RewardService(c.get('storage').rewards, c.get('storage').events, aptosService);
+  const { outcome, entry } = await rewardService.claimNewPlayer(walletAddress, c.req.header('Idempotency-Key'));
+  if (outcome === 'already_rewarded') {
+    const { status, jobId, transactionHash } = entry;
+    throw new ApiError(409, 'REWARD_ALREADY_CLAIMED', 'Player has already received CoA tokens', {
+      walletAddress,
+      status,
+      jobId,
+      transactionHash,
+    });
+  }
+
+  if (outcome === 'claimed') {
+    const jobService = new JobService(c.get('storage'), aptosService, c.env);
+    const job = await jobService.enqueue('coa.reward_new_player', { walletAddress }, backgroundTasks(c));
+    await rewardService.attachJob(walletAddress, job.id);
+    return rewardResponse(c, { ...entry, jobId: job.id });
+  }
+
+  return rewardResponse(c, entry);
+});
+
+/**
+ * GET /aptos/coa/reward-player/:address
+ * Get the new player reward status of an address from the reward ledger.
+ */
+aptos.get('/coa/reward-player/:address', validate('param', aptosAddressParam), async (c) => {
+  const entry = await c.get('storage').rewards.get(c.req.valid('param').address, NEW_PLAYER_REWARD.type);
+  if (!entry) {
+    throw ApiError.notFound('Player has not been rewarded');
+  }
+  return rewardResponse(c, entry);
+});
+
+/**
+ * POST /aptos/coa/reward-player/reconcile
+ * Settle pending and submitted rewards against on-chain `PlayerLoginReward` events (admin function).
+ */
+aptos.post('/coa/reward-player/reconcile', requireAuth, requireAdmin, async (c) => {
+  const storage = c.get('storage');
+  const aptosService = c.get('aptosService');
+
+  // Settle against the latest events
+  await new EventIndexer(storage, aptosService).sync();
+  const summary = await new RewardService(storage.rewards, storage.events, aptosService).reconcile();
+  return c.json({ message: 'Reward ledger reconciled', ...summary });
+});
+
+/**
+ * POST /aptos/coa/mint
+ * Queue a CoA mint to a specific address (admin function).
+ * Expects a JSON body with `toAddress` and `amount` fields.
+ */
+aptos.post('/coa/mint', requireAuth, requireAdmin, validate('json', aptosCoAMintBody), async (c) => {
+  const { toAddress, amount } = c.req.valid('json');
+
+  const jobService = new JobService(c.get('storage'), c.get('aptosService'), c.env);
+  const job = await jobService.enqueue('coa.mint', { toAddress, amount }, backgroundTasks(c));
+  return c.json({
+    message: `Mint of ${amount} CoA tokens queued`,
+    jobId: job.id,
+    status: job.status,
+    recipient: toAddress,
+    amount
+  }, 202);
+});
+
+/**
+ * GET /aptos/coa/metadata
+ * Get CoA token metadata (name, symbol, decimals, total supply).
+ */
+aptos.get('/coa/metadata', async (c) => {
+  const metadata = await c.get('aptosService').getCoAMetadata();
+  return c.json(metadata);
+});
+
+/**
+ * GET /aptos/coa/history/:address
+ * An account's CoA history, newest first: new player rewards, admin mints,
+ * shop purchases and burns, and transfers in and out. Page with the returned
+ * `nextCursor` as `cursor`.
+ */
+aptos.get('/coa/history/:address', validate('param', aptosAddressParam), validate('query', coaHistoryQuery), async (c) => {
+  const { address } = c.req.valid('param');
+  const { cursor, limit } = c.req.valid('query');
+  const page = await new CoAHistoryService(c.get('storage').events, c.get('aptosService')).list(address, cursor, limit);
+  return c.json({ address, ...page });
+});
+
+/**
+ * GET /aptos/events
+ * Indexed CoA and Velmora NFT events, newest first. Filter with `type`
+ * (e.g. `coa.mint`, `nft.transfer`) and `address`; page with the returned
+ * `nextCursor` as `cursor`.
+ */
+aptos.get('/events', validate('query', eventsQuery), async (c) => {
+  const { type, address, cursor, limit } = c.req.valid('query');
+  const events = await c.get('storage').events.list({ type, address, before: cursor, limit });
+  return c.json({
+    events,
+    nextCursor: events.length === limit ? formatEventPosition(events[events.length - 1]) : null,
+  });
+});
+
+/**
+ * POST /aptos/events/sync
+ * Read new events from the Aptos indexer now instead of waiting for the
+ * scheduled sync (admin function).
+ */
+aptos.post('/events/sync', requireAuth, requireAdmin, async (c) => {
+  const summary = await new EventIndexer(c.get('storage'), c.get('aptosService')).sync();
+  return c.json({ message: 'Events synced', ...summary });
+});
+
+export default aptos;
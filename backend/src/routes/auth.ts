@@ -0,0 +1,48 @@
+import { Hono } from 'hono';
+import { ApiError } from '../errors';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { challengeBody, loginProofBody } from '../schemas';
+import { AuthService, isAdminWallet } from '../services/authService';
+import type { AppEnv } from '../types';
+
+const auth = new Hono<AppEnv>();
+
+/**
+ * POST /auth/challenge
+ * Create a login challenge for a wallet to sign.
+ * Expects a JSON body with `chain` ("evm" | "aptos") and `address` fields.
+ */
+auth.post('/challenge', validate('json', challengeBody), async (c) => {
+  const { chain, address } = c.req.valid('json');
+  const challenge = await new AuthService(c.get('storage').loginNonces, c.env).createChallenge(chain, address);
+  return c.json(challenge);
+});
+
+/**
+ * POST /auth/verify
+ * Verify a signed login challenge and issue a session token.
+ * EVM: `{ chain, address, message, signature }` signed with personal_sign.
+ * Aptos: additionally `publicKey` and the wallet's `fullMessage` from signMessage.
+ */
+auth.post('/verify', validate('json', loginProofBody), async (c) => {
+  const authService = new AuthService(c.get('storage').loginNonces, c.env);
+  try {
+    const session = await authService.verifyLogin(c.req.valid('json'));
+    return c.json(session);
+  } catch (error: any) {
+    console.error('Failed to verify login:', error);
+    throw ApiError.unauthorized('Wallet signature verification failed', { reason: error.message });
+  }
+});
+
+/**
+ * GET /auth/session
+ * Return the wallet attached to the current session token.
+ */
+auth.get('/session', requireAuth, (c) => {
+  const wallet = c.get('wallet');
+  return c.json({ ...wallet, isAdmin: isAdminWallet(c.env, wallet) });
+});
+
+export default auth;
@@ -0,0 +1,84 @@
+import { Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { ApiError, type ErrorCode } from '../errors';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { battleFinishBody, battleIdParam, battleStartBody } from '../schemas';
+import {
+  BATTLE_DISCOUNT_PERCENT,
+  BATTLE_RULES,
+  BattleError,
+  type BattleErrorReason,
+  BattleService,
+} from '../services/battleService';
+import type { AppEnv } from '../types';
+
+const battles = new Hono<AppEnv>();
+
+const BATTLE_ERRORS: Record<BattleErrorReason, [ContentfulStatusCode, ErrorCode]> = {
+  offer_unavailable: [409, 'OFFER_UNAVAILABLE'],
+  already_fought: [409, 'BATTLE_ALREADY_FOUGHT'],
+  battle_not_found: [404, 'NOT_FOUND'],
+  battle_expired: [410, 'BATTLE_EXPIRED'],
+  battle_finished: [409, 'BATTLE_FINISHED'],
+  invalid_log: [400, 'INVALID_BATTLE_LOG'],
+};
+
+/**
+ * Run a battle operation, turning `BattleError`s into their API errors
+ */
+async function withBattleErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof BattleError) {
+      const [status, code] = BATTLE_ERRORS[error.reason];
+      throw new ApiError(status, code, error.message);
+    }
+    throw error;
+  }
+}
+
+battles.use('*', requireAuth);
+
+/**
+ * POST /battles
+ * Start a battle over one of the session wallet's open shop offers. Expects a
+ * JSON body with `offerId`. Returns the `seed` damage is rolled from and the
+ * rules the battle is judged by.
+ */
+battles.post('/', validate('json', battleStartBody), async (c) => {
+  const { offerId } = c.req.valid('json');
+  const battle = await withBattleErrors(() => new BattleService(c.get('storage'), c.env).start(c.get('wallet'), offerId));
+  return c.json({
+    battleId: battle.id,
+    offerId: battle.offerId,
+    seed: battle.seed,
+    rules: BATTLE_RULES,
+    discountPercent: BATTLE_DISCOUNT_PERCENT,
+    expiresAt: battle.expiresAt,
+  }, 201);
+});
+
+/**
+ * POST /battles/:id/finish
+ * Submit the log of a battle. Expects a JSON body with `log`, every attack in
+ * the order it happened. A win returns a `voucher` for the shop purchase.
+ */
+battles.post('/:id/finish', validate('param', battleIdParam), validate('json', battleFinishBody), async (c) => {
+  const { id } = c.req.valid('param');
+  const { log } = c.req.valid('json');
+  const { battle, voucher } = await withBattleErrors(() =>
+    new BattleService(c.get('storage'), c.env).finish(c.get('wallet'), id, log));
+
+  return c.json({
+    battleId: battle.id,
+    offerId: battle.offerId,
+    status: battle.status,
+    playerHealth: battle.playerHealth,
+    npcHealth: battle.npcHealth,
+    ...(voucher && { voucher, discountPercent: BATTLE_DISCOUNT_PERCENT }),
+  });
+});
+
+export default battles;
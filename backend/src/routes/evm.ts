@@ -0,0 +1,120 @@
+import { Hono } from 'hono';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { evmAddressParam, evmCoABurnBody, evmCoAMintBody, evmNFTMintBody, soulboundMintBody, tokenIdParam } from '../schemas';
+import type { AppEnv } from '../types';
+
+const evm = new Hono<AppEnv>();
+
+/**
+ * GET /evm/coa/balance/:address
+ * Get AuraCoins balance for a specific address.
+ */
+evm.get('/coa/balance/:address', validate('param', evmAddressParam), async (c) => {
+  const { address } = c.req.valid('param');
+  const balance = await c.get('evmService').getTokenBalance(address);
+  return c.json({ address, balance });
+});
+
+/**
+ * GET /evm/coa/metadata
+ * Get AuraCoins metadata (name, symbol, decimals, total supply).
+ */
+evm.get('/coa/metadata', async (c) => {
+  const metadata = await c.get('evmService').getTokenMetadata();
+  return c.json(metadata);
+});
+
+/**
+ * POST /evm/coa/mint
+ * Mint AuraCoins to a specific address (admin function).
+ * Expects a JSON body with `toAddress` and `amount` fields.
+ */
+evm.post('/coa/mint', requireAuth, requireAdmin, validate('json', evmCoAMintBody), async (c) => {
+  const { toAddress, amount } = c.req.valid('json');
+  const transactionHash = await c.get('evmService').mintTokens(toAddress, amount);
+  return c.json({
+    message: `${amount} AuraCoins minted successfully`,
+    transactionHash,
+    recipient: toAddress,
+    amount
+  });
+});
+
+/**
+ * POST /evm/coa/burn
+ * Burn AuraCoins from a specific address (admin function).
+ * Expects a JSON body with `fromAddress` and `amount` fields.
+ */
+evm.post('/coa/burn', requireAuth, requireAdmin, validate('json', evmCoABurnBody), async (c) => {
+  const { fromAddress, amount } = c.req.valid('json');
+  const transactionHash = await c.get('evmService').burnTokens(fromAddress, amount);
+  return c.json({
+    message: `${amount} AuraCoins burned successfully`,
+    transactionHash,
+    account: fromAddress,
+    amount
+  });
+});
+
+/**
+ * GET /evm/nft/:tokenId
+ * Get the owner and metadata URI of an AuraEyes NFT.
+ */
+evm.get('/nft/:tokenId', validate('param', tokenIdParam), async (c) => {
+  const { tokenId } = c.req.valid('param');
+  const evmService = c.get('evmService');
+  const [owner, tokenURI] = await Promise.all([
+    evmService.getOwnerOf(tokenId),
+    evmService.getTokenURI(tokenId),
+  ]);
+  return c.json({ tokenId, owner, tokenURI });
+});
+
+/**
+ * POST /evm/nft/mint
+ * Mint the AuraEyes NFT for a metadata ID to a user (admin function).
+ * Expects a JSON body with `userAddress` and `metadataId` fields.
+ */
+evm.post('/nft/mint', requireAuth, requireAdmin, validate('json', evmNFTMintBody), async (c) => {
+  const { userAddress, metadataId } = c.req.valid('json');
+  const { transactionHash, tokenId } = await c.get('evmService').mintNFTFromId(userAddress, metadataId);
+  return c.json({
+    message: `NFT #${metadataId} minted successfully`,
+    transactionHash,
+    tokenId,
+    recipient: userAddress
+  });
+});
+
+/**
+ * GET /evm/soulbound/:tokenId
+ * Get the owner and metadata URI of a soulbound NFT.
+ */
+evm.get('/soulbound/:tokenId', validate('param', tokenIdParam), async (c) => {
+  const { tokenId } = c.req.valid('param');
+  const evmService = c.get('evmService');
+  const [owner, tokenURI] = await Promise.all([
+    evmService.getSoulboundOwnerOf(tokenId),
+    evmService.getSoulboundTokenURI(tokenId),
+  ]);
+  return c.json({ tokenId, owner, tokenURI });
+});
+
+/**
+ * POST /evm/soulbound/mint
+ * Mint a soulbound NFT variant (1-5) to a user (admin function).
+ * Expects a JSON body with `userAddress` and `variant` fields.
+ */
+evm.post('/soulbound/mint', requireAuth, requireAdmin, validate('json', soulboundMintBody), async (c) => {
+  const { userAddress, variant } = c.req.valid('json');
+  const { transactionHash, tokenId } = await c.get('evmService').mintSoulbound(userAddress, variant);
+  return c.json({
+    message: `Soulbound NFT ${variant} minted successfully`,
+    transactionHash,
+    tokenId,
+    recipient: userAddress
+  });
+});
+
+export default evm;
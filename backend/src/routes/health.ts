@@ -0,0 +1,20 @@
+import { Hono } from 'hono';
+import { HealthService } from '../services/healthService';
+import type { AppEnv } from '../types';
+
+const health = new Hono<AppEnv>();
+
+/**
+ * GET /health
+ * Check every dependency: Aptos fullnode, EVM RPC, database, the admin
+ * signer's gas balance and the contract modules. Also reports the Aptos
+ * network, so clients can detect that they are pointed at a different one.
+ * Responds 503 when any dependency is down, for uptime monitors.
+ */
+health.get('/', async (c) => {
+  const healthService = new HealthService(c.get('storage'), c.get('aptosService'), c.get('evmService'), c.env);
+  const report = await healthService.check();
+  return c.json(report, report.status === 'healthy' ? 200 : 503);
+});
+
+export default health;
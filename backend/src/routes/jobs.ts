@@ -0,0 +1,25 @@
+import { Hono } from 'hono';
+import { ApiError } from '../errors';
+import { validate } from '../middleware/validate';
+import { jobIdParam } from '../schemas';
+import { JobService } from '../services/jobService';
+import type { AppEnv } from '../types';
+
+const jobs = new Hono<AppEnv>();
+
+/**
+ * GET /jobs/:id
+ * Get the status of a transaction job: queued, submitting, submitted, committed or failed,
+ * with the transaction hash and VM status once known.
+ */
+jobs.get('/:id', validate('param', jobIdParam), async (c) => {
+  const job = await new JobService(c.get('storage'), c.get('aptosService'), c.env).get(c.req.valid('param').id);
+  if (!job) {
+    throw ApiError.notFound('Job not found');
+  }
+
+  const { payload, ...status } = job;
+  return c.json(status);
+});
+
+export default jobs;
@@ -0,0 +1,110 @@
+import { type Context, Hono } from 'hono';
+import { ApiError } from '../errors';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { metadataBatchQuery, metadataIdParam, mintNFTBody } from '../schemas';
+import { isAdminWallet } from '../services/authService';
+import { computeETag } from '../services/metadataService';
+import type { AppEnv } from '../types';
+import { parseMetadataId, toContractAttributes } from '../utils/nftMetadata';
+
+const nft = new Hono<AppEnv>();
+
+// Metadata is immutable on IPFS; browsers still revalidate hourly with the ETag
+const METADATA_CACHE_CONTROL = 'public, max-age=3600';
+
+/**
+ * Send JSON with an ETag, or `304 Not Modified` when the client already has it
+ */
+function jsonWithETag(c: Context<AppEnv>, body: object, etag: string) {
+  c.header('ETag', etag);
+  c.header('Cache-Control', METADATA_CACHE_CONTROL);
+
+  const ifNoneMatch = c.req.header('If-None-Match');
+  const matches = ifNoneMatch?.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag || tag.trim() === '*');
+  if (matches) {
+    return c.body(null, 304);
+  }
+  return c.json(body);
+}
+
+/**
+ * GET /nfts
+ * Metadata of several NFTs, by `ids` (comma-separated metadata IDs, at most 50).
+ * IDs whose metadata can't be fetched are listed in `missing`.
+ */
+nft.get('/nfts', validate('query', metadataBatchQuery), async (c) => {
+  const metadataService = c.get('metadataService');
+  const ids = c.req.valid('query').ids;
+  const resolved = await metadataService.getManyByUri(ids.map((id) => metadataService.getMetadataUri(id)));
+
+  const metadata: Record<string, unknown> = {};
+  const missing: number[] = [];
+  for (const id of ids) {
+    const entry = resolved.get(metadataService.getMetadataUri(id));
+    if (entry) {
+      metadata[id] = entry.metadata;
+    } else {
+      missing.push(id);
+    }
+  }
+
+  const body = { metadata, missing };
+  return jsonWithETag(c, body, await computeETag(body));
+});
+
+/**
+ * GET /nfts/:metadataId
+ * Metadata JSON of one NFT, resolved across the configured IPFS gateways,
+ * validated and cached. Supports `If-None-Match`.
+ */
+nft.get('/nfts/:metadataId', validate('param', metadataIdParam), async (c) => {
+  const { metadataId } = c.req.valid('param');
+
+  let entry;
+  try {
+    entry = await c.get('metadataService').getById(metadataId);
+  } catch (error) {
+    console.error(error);
+    throw new ApiError(502, 'METADATA_UNAVAILABLE', `Metadata for NFT ${metadataId} is unavailable on every IPFS gateway`);
+  }
+
+  return jsonWithETag(c, entry.metadata, entry.etag);
+});
+
+/**
+ * POST /mint-nft
+ * Unified NFT minting endpoint for both chains.
+ * Expects a JSON body with `chain`, `userAddress` and `metadata` fields.
+ * EVM mints are executed by the backend wallet; Aptos mints return a
+ * transaction payload for the frontend to sign and submit.
+ */
+nft.post('/mint-nft', requireAuth, validate('json', mintNFTBody), async (c) => {
+  const body = c.req.valid('json');
+
+  if (body.chain === 'evm') {
+    // EVM mints are paid and signed by the backend wallet
+    if (!isAdminWallet(c.env, c.get('wallet'))) {
+      throw ApiError.forbidden('Admin privileges required for EVM mints');
+    }
+
+    // The AuraEyes contract mints by metadata ID, taken from the body or the "#<id>" name suffix
+    const id = body.metadataId ?? parseMetadataId(body.metadata);
+    if (!id) {
+      throw ApiError.badRequest('metadataId is required when it cannot be derived from metadata.name');
+    }
+
+    const { transactionHash } = await c.get('evmService').mintNFTFromId(body.userAddress, id);
+    return c.json({ success: true, transactionHash });
+  }
+
+  const { rarity, skill } = toContractAttributes(body.metadata);
+  if (rarity > 100 || skill > 100) {
+    throw ApiError.badRequest('metadata.rarity and metadata.skill must map to at most 100 on-chain');
+  }
+
+  const transactionPayload = c.get('aptosService').buildMintNFTPayload(body.userAddress, body.metadata);
+  return c.json({ success: true, transactionPayload });
+});
+
+export default nft;
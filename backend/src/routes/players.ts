@@ -0,0 +1,54 @@
+import { Hono } from 'hono';
+import { ApiError } from '../errors';
+import { isSessionWallet, requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { playerProfileBody, playerProgressBody, walletParam } from '../schemas';
+import { PlayerService } from '../services/playerService';
+import type { AppEnv } from '../types';
+
+const players = new Hono<AppEnv>();
+
+/**
+ * GET /players/:wallet
+ * Get the persisted profile (xp, level, gold, NFTs) of a player.
+ */
+players.get('/:wallet', validate('param', walletParam), async (c) => {
+  const { wallet } = c.req.valid('param');
+  const profile = await new PlayerService(c.get('storage').players).getProfile(wallet);
+  if (!profile) {
+    throw ApiError.notFound('Player not found');
+  }
+  return c.json(profile);
+});
+
+/**
+ * PUT /players/:wallet
+ * Create or overwrite the NFT list of the authenticated player's profile.
+ * Expects a JSON body with `nfts`; XP, level and gold only change through
+ * progress sync.
+ */
+players.put('/:wallet', requireAuth, validate('param', walletParam), validate('json', playerProfileBody), async (c) => {
+  if (!isSessionWallet(c.get('wallet'), c.req.valid('param').wallet)) {
+    throw ApiError.forbidden('You can only update your own profile');
+  }
+
+  const profile = await new PlayerService(c.get('storage').players).upsertProfile(c.get('wallet').address, c.req.valid('json'));
+  return c.json(profile);
+});
+
+/**
+ * POST /players/:wallet/progress
+ * Sync in-game progress of the authenticated player.
+ * Expects a JSON body with `xp`, `level` and `gold` fields; stored progress never decreases,
+ * and never grows faster than the game allows.
+ */
+players.post('/:wallet/progress', requireAuth, validate('param', walletParam), validate('json', playerProgressBody), async (c) => {
+  if (!isSessionWallet(c.get('wallet'), c.req.valid('param').wallet)) {
+    throw ApiError.forbidden('You can only sync your own progress');
+  }
+
+  const profile = await new PlayerService(c.get('storage').players).syncProgress(c.get('wallet').address, c.req.valid('json'));
+  return c.json(profile);
+});
+
+export default players;
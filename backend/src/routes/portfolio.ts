@@ -0,0 +1,24 @@
+import { Hono } from 'hono';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { portfolioBody } from '../schemas';
+import { PortfolioService } from '../services/portfolioService';
+import type { AppEnv } from '../types';
+
+const portfolio = new Hono<AppEnv>();
+
+/**
+ * POST /portfolio
+ * Get every balance and NFT of a list of EVM and Aptos addresses in one
+ * response. Expects a JSON body with `addresses`. Sources that fail are
+ * reported per account in `sources`, and the response is still 200 with
+ * `partial` set. Requires a session token, since every address costs
+ * several chain reads.
+ */
+portfolio.post('/', requireAuth, validate('json', portfolioBody), async (c) => {
+  const addresses = [...new Set(c.req.valid('json').addresses)];
+  const result = await new PortfolioService(c.get('aptosService'), c.get('evmService')).get(addresses);
+  return c.json(result);
+});
+
+export default portfolio;
@@ -0,0 +1,150 @@
+import { type Context, Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { ApiError, type ErrorCode } from '../errors';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { metadataIdParam, offerIdParam, shopPriceQuery, shopPricingBody, shopPurchaseBody } from '../schemas';
+import { PricingConfigError, PricingService } from '../services/pricingService';
+import { ShopError, type ShopErrorReason, ShopService } from '../services/shopService';
+import type { ShopOffer } from '../storage';
+import type { AppEnv, Chain, NFTMetadata } from '../types';
+
+const shop = new Hono<AppEnv>();
+
+const SHOP_ERRORS: Record<ShopErrorReason, [ContentfulStatusCode, ErrorCode]> = {
+  sold_out: [409, 'SHOP_SOLD_OUT'],
+  invalid_quote: [400, 'INVALID_QUOTE'],
+  quote_expired: [410, 'QUOTE_EXPIRED'],
+  quote_used: [409, 'QUOTE_ALREADY_USED'],
+  invalid_voucher: [400, 'INVALID_VOUCHER'],
+  payment_required: [402, 'PAYMENT_REQUIRED'],
+  invalid_payment: [402, 'INVALID_PAYMENT'],
+  payment_used: [409, 'PAYMENT_ALREADY_USED'],
+  insufficient_balance: [402, 'INSUFFICIENT_BALANCE'],
+  offer_not_found: [404, 'NOT_FOUND'],
+  not_retryable: [409, 'PURCHASE_NOT_RETRYABLE'],
+};
+
+/**
+ * Run a shop operation, turning `ShopError`s into their API errors
+ */
+async function withShopErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof ShopError) {
+      const [status, code] = SHOP_ERRORS[error.reason];
+      throw new ApiError(status, code, error.message);
+    }
+    throw error;
+  }
+}
+
+const currency = (chain: Chain) => (chain === 'aptos' ? 'CoA' : 'AuraCoins');
+
+const offerBody = ({ id, metadataId, price, paidPrice, chain, status, expiresAt, transactionHash }: ShopOffer) => ({
+  offerId: id,
+  metadataId,
+  price,
+  paidPrice,
+  currency: currency(chain),
+  status,
+  expiresAt,
+  transactionHash,
+});
+
+const pricingService = (c: Context<AppEnv>) =>
+  new PricingService(c.get('storage'), c.get('aptosService'), c.get('evmService'));
+
+const shopService = (c: Context<AppEnv>) =>
+  new ShopService(
+    c.get('storage').shopOffers,
+    c.get('aptosService'),
+    c.get('evmService'),
+    c.get('metadataService'),
+    pricingService(c),
+    c.env,
+  );
+
+/**
+ * GET /shop/price/:metadataId?chain=
+ * What the shop would currently charge for an NFT on a chain, with the
+ * factors the price is built from
+ */
+shop.get('/price/:metadataId', validate('param', metadataIdParam), validate('query', shopPriceQuery), async (c) => {
+  const { metadataId } = c.req.valid('param');
+  const { chain } = c.req.valid('query');
+
+  let metadata: NFTMetadata;
+  try {
+    ({ metadata } = await c.get('metadataService').getById(metadataId));
+  } catch (error) {
+    console.error(error);
+    throw new ApiError(502, 'METADATA_UNAVAILABLE', `Metadata for NFT ${metadataId} is unavailable on every IPFS gateway`);
+  }
+
+  const pricing = await pricingService(c).quote(chain, metadata);
+  return c.json({ metadataId, chain, currency: currency(chain), ...pricing });
+});
+
+/**
+ * GET /shop/pricing
+ * The current pricing curve (admin only)
+ */
+shop.get('/pricing', requireAuth, requireAdmin, async (c) => {
+  return c.json(await pricingService(c).getConfig());
+});
+
+/**
+ * PUT /shop/pricing
+ * Change part of the pricing curve (admin only). Fields left out keep their
+ * current value; new offers are priced with the result.
+ */
+shop.put('/pricing', requireAuth, requireAdmin, validate('json', shopPricingBody), async (c) => {
+  try {
+    return c.json(await pricingService(c).updateConfig(c.req.valid('json')));
+  } catch (error) {
+    if (error instanceof PricingConfigError) {
+      throw ApiError.badRequest(error.message);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /shop/offers
+ * Offer the session wallet a random NFT that nobody owns or has been offered.
+ * The metadata ID stays reserved until `expiresAt`; buy it with the returned
+ * `quote`.
+ */
+shop.post('/offers', requireAuth, async (c) => {
+  const { offer, metadata, pricing, quote } = await withShopErrors(() => shopService(c).createOffer(c.get('wallet')));
+  return c.json({ ...offerBody(offer), metadata, pricing, quote }, 201);
+});
+
+/**
+ * POST /shop/purchase
+ * Buy the NFT of a quote for the session wallet. Expects a JSON body with
+ * `quote`, plus `paymentTransactionHash` for Aptos wallets: a committed
+ * `coins_of_aura::transfer` of the price to the shop. A `voucher` from a won
+ * battle over the offer discounts the price.
+ */
+shop.post('/purchase', requireAuth, validate('json', shopPurchaseBody), async (c) => {
+  const { quote, paymentTransactionHash, voucher } = c.req.valid('json');
+  const offer = await withShopErrors(() =>
+    shopService(c).purchase(c.get('wallet'), quote, paymentTransactionHash, voucher));
+  return c.json({ message: `NFT #${offer.metadataId} purchased successfully`, ...offerBody(offer) });
+});
+
+/**
+ * POST /shop/offers/:id/retry
+ * Mint the NFT of one of the session wallet's `unfulfilled` offers: paid for,
+ * but the mint failed
+ */
+shop.post('/offers/:id/retry', requireAuth, validate('param', offerIdParam), async (c) => {
+  const { id } = c.req.valid('param');
+  const offer = await withShopErrors(() => shopService(c).retry(c.get('wallet'), id));
+  return c.json({ message: `NFT #${offer.metadataId} purchased successfully`, ...offerBody(offer) });
+});
+
+export default shop;
@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import { BATTLE_RULES } from './services/battleService';
+import { parseEventPosition } from './services/eventIndexer';
+import { SOULBOUND_VARIANTS, type SoulboundVariant } from './services/evmService';
+import { CHAIN_EVENT_TYPES } from './storage/types';
+import type { NFTMetadata } from './types';
+import { detectAddressChain, normalizeAddress } from './utils/address';
+import { MAX_METADATA_ID, validateNFTMetadata } from './utils/nftMetadata';
+
+/** Largest amount of CoA / AuraCoins a single admin mint or burn may move */
+export const MAX_TOKEN_AMOUNT = 1_000_000_000;
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+const hasAtMostDecimals = (value: number, decimals: number) => Number(value.toFixed(decimals)) === value;
+
+// --- Building blocks ---
+
+/** Aptos account address, normalized to its long form */
+export const aptosAddress = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{1,64}$/, 'must be an Aptos address (0x followed by up to 64 hex digits)')
+  .transform((address) => normalizeAddress('aptos', address));
+
+/** EVM address (checksum-validated when mixed case), normalized to lowercase */
+export const evmAddress = z
+  .string()
+  .regex(EVM_ADDRESS, 'must be an EVM address (0x followed by 40 hex digits)')
+  .refine((address) => {
+    // Only report a bad checksum for an otherwise well-formed address
+    if (!EVM_ADDRESS.test(address)) return true;
+    try {
+      normalizeAddress('evm', address);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'has an invalid checksum')
+  .transform((address) => normalizeAddress('evm', address));
+
+/** Address of either chain, normalized for its chain */
+export const walletAddress = z.string().superRefine((address, ctx) => {
+  const result = (detectAddressChain(address) === 'evm' ? evmAddress : aptosAddress).safeParse(address);
+  result.error?.issues.forEach((issue) => ctx.addIssue(issue));
+}).transform((address) => normalizeAddress(detectAddressChain(address), address));
+
+export const chain = z.enum(['evm', 'aptos']);
+
+/** Positive token amount in whole tokens, with at most `decimals` decimal places */
+export const tokenAmount = (decimals: number) => z
+  .number()
+  .positive()
+  .max(MAX_TOKEN_AMOUNT)
+  .refine((amount) => hasAtMostDecimals(amount, decimals), `must have at most ${decimals} decimal places`);
+
+/** CoA on Aptos has 8 decimals */
+export const coaAmount = tokenAmount(8);
+/** AuraCoins on Sepolia has 18 decimals */
+export const auraCoinsAmount = tokenAmount(18);
+
+export const metadataId = z.number().int().min(1).max(MAX_METADATA_ID);
+
+export const nftMetadata = z.custom<NFTMetadata>().superRefine((value, ctx) => {
+  validateNFTMetadata(value).forEach((message) => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+});
+
+const nonNegativeInteger = z.number().int().nonnegative();
+
+// --- Params ---
+
+export const walletParam = z.object({ wallet: walletAddress });
+export const aptosAddressParam = z.object({ address: aptosAddress });
+export const aptosOwnerParam = z.object({ ownerAddress: aptosAddress });
+export const evmAddressParam = z.object({ address: evmAddress });
+export const tokenIdParam = z.object({ tokenId: z.string().regex(/^\d+$/, 'must be a non-negative integer') });
+export const jobIdParam = z.object({ id: z.string().uuid() });
+export const battleIdParam = z.object({ id: z.string().uuid() });
+export const offerIdParam = z.object({ id: z.string().uuid() });
+export const achievementIdParam = z.object({ id: z.string().regex(/^[a-z0-9_]{1,64}$/, 'must be an achievement ID') });
+export const metadataIdParam = z.object({ metadataId: z.coerce.number().pipe(metadataId) });
+
+// --- Queries ---
+
+export const tokensQuery = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  /** `true` to include each NFT's resolved metadata JSON */
+  metadata: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+
+/** Largest number of metadata IDs one `GET /nfts` request may ask for */
+export const MAX_METADATA_BATCH = 50;
+
+export const metadataBatchQuery = z.object({
+  /** Comma-separated metadata IDs */
+  ids: z
+    .string()
+    .transform((ids, ctx) => {
+      const parsed = [...new Set(ids.split(',').map((id) => id.trim()))].map(Number);
+      if (parsed.some((id) => !metadataId.safeParse(id).success)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `must be comma-separated metadata IDs from 1 to ${MAX_METADATA_ID}` });
+        return z.NEVER;
+      }
+      return parsed;
+    })
+    .pipe(z.array(metadataId).min(1).max(MAX_METADATA_BATCH)),
+});
+
+/** `nextCursor` of the previous page of a list ordered by chain position */
+const eventCursor = z
+  .string()
+  .regex(/^\d+:\d+$/, 'must be a cursor returned by a previous page')
+  .transform(parseEventPosition)
+  .optional();
+const eventLimit = z.coerce.number().int().min(1).max(100).default(25);
+
+export const eventsQuery = z.object({
+  type: z.enum(CHAIN_EVENT_TYPES).optional(),
+  address: aptosAddress.optional(),
+  cursor: eventCursor,
+  limit: eventLimit,
+});
+
+export const coaHistoryQuery = z.object({
+  cursor: eventCursor,
+  limit: eventLimit,
+});
+
+export const shopPriceQuery = z.object({ chain });
+
+// --- Bodies ---
+
+export const challengeBody = z.object({
+  chain,
+  address: z.string().min(1),
+});
+
+export const loginProofBody = z.object({
+  chain,
+  address: z.string().min(1),
+  message: z.string().min(1),
+  signature: z.string().min(1),
+  publicKey: z.string().optional(),
+  fullMessage: z.string().optional(),
+});
+
+// XP, level and gold only change through progress sync
+export const playerProfileBody = z.object({
+  nfts: z.array(z.object({ tokenId: z.string(), metadata: z.unknown().optional() })),
+}).strict();
+
+export const playerProgressBody = z.object({
+  xp: nonNegativeInteger,
+  level: nonNegativeInteger.min(1),
+  gold: nonNegativeInteger,
+});
+
+export const mintNFTBody = z.discriminatedUnion('chain', [
+  z.object({ chain: z.literal('evm'), userAddress: evmAddress, metadata: nftMetadata, metadataId: metadataId.optional() }),
+  z.object({ chain: z.literal('aptos'), userAddress: aptosAddress, metadata: nftMetadata }),
+]);
+
+export const aptosMintBody = z.object({ userAddress: aptosAddress });
+
+export const rewardPlayerBody = z.object({ playerAddress: aptosAddress });
+
+export const aptosCoAMintBody = z.object({ toAddress: aptosAddress, amount: coaAmount });
+
+export const sponsorBody = z.object({
+  /** BCS of a `SimpleTransaction` with a fee payer, hex */
+  transaction: z.string().max(65_536).regex(/^(0x)?([0-9a-fA-F]{2})+$/, 'must be a hex-encoded BCS transaction'),
+});
+
+const moveArgument = z.union([z.string().max(1024), z.number(), z.boolean(), z.null()]);
+
+export const simulateBody = z.object({
+  sender: aptosAddress,
+  /** `<module>::<function>` of a Velmora contract entry function */
+  function: z.string().regex(/^(coins_of_aura|velmora_nft)::[a-z0-9_]+$/, 'must be a coins_of_aura or velmora_nft entry function'),
+  typeArguments: z.array(z.string().max(256)).max(8).default([]),
+  functionArguments: z.array(z.union([moveArgument, z.array(moveArgument).max(256)])).max(32).default([]),
+  /** Simulate as a sponsored transaction, with the backend paying gas */
+  sponsored: z.boolean().default(false),
+});
+
+export const evmCoAMintBody = z.object({ toAddress: evmAddress, amount: auraCoinsAmount });
+
+export const evmCoABurnBody = z.object({ fromAddress: evmAddress, amount: auraCoinsAmount });
+
+export const evmNFTMintBody = z.object({ userAddress: evmAddress, metadataId });
+
+/** Largest number of addresses one `POST /portfolio` request may ask for */
+export const MAX_PORTFOLIO_ADDRESSES = 5;
+
+export const portfolioBody = z.object({
+  addresses: z.array(walletAddress).min(1).max(MAX_PORTFOLIO_ADDRESSES),
+});
+
+export const shopPurchaseBody = z.object({
+  quote: z.string().min(1),
+  /** Aptos: the CoA transfer that paid the price */
+  paymentTransactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'must be a transaction hash').optional(),
+  /** Won in a battle over the quoted offer */
+  voucher: z.string().min(1).optional(),
+});
+
+export const battleStartBody = z.object({ offerId: z.string().uuid() });
+
+export const battleFinishBody = z.object({
+  log: z
+    .array(z.object({
+      t: z.number().int().min(0),
+      action: z.enum(['sword', 'spell', 'npc']),
+    }))
+    .min(1)
+    .max(BATTLE_RULES.maxLogEvents),
+});
+
+export const achievementClaimBody = z.object({
+  /** EVM address the soulbound NFT is minted to; defaults to an EVM session's wallet */
+  recipient: evmAddress.optional(),
+});
+
+const pricingWeight = z.number().min(0).max(10);
+const pricingAmount = z.number().positive().max(MAX_TOKEN_AMOUNT);
+
+/** Any part of the shop's `PricingConfig` */
+export const shopPricingBody = z
+  .object({
+    basePrice: pricingAmount,
+    rarity: z.object({ weight: pricingWeight, exponent: z.number().positive().max(10) }).partial(),
+    skill: z.object({ weight: pricingWeight }).partial(),
+    scarcity: z.object({ weight: pricingWeight }).partial(),
+    demand: z
+      .object({ weight: pricingWeight, windowHours: z.number().positive().max(24 * 30), target: z.number().int().min(1) })
+      .partial(),
+    floor: pricingAmount,
+    ceiling: pricingAmount,
+  })
+  .partial();
+
+export const soulboundMintBody = z.object({
+  userAddress: evmAddress,
+  variant: z.custom<SoulboundVariant>(
+    (variant) => SOULBOUND_VARIANTS.includes(variant as SoulboundVariant),
+    `must be one of ${SOULBOUND_VARIANTS.join(', ')}`,
+  ),
+});
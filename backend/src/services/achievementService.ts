@@ -0,0 +1,165 @@
+import type { PlayerRepository, RewardLedgerEntry, RewardLedgerRepository, RewardStatus } from '../storage';
+import type { PlayerProfile } from '../types';
+import type { EVMService, SoulboundVariant } from './evmService';
+
+// Ledger entries of achievements are typed `achievement:<id>`
+const REWARD_TYPE_PREFIX = 'achievement:';
+
+/**
+ * An achievement and the soulbound NFT (`mintNFT<variant>`) it awards
+ */
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  variant: SoulboundVariant;
+  /** Earned once the player's stored `stat` reaches `min` */
+  requirement: { stat: 'gold' | 'level'; min: number };
+}
+
+/**
+ * Every achievement, one per soulbound variant
+ */
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: 'gold_master',
+    name: 'Gold Master',
+    description: 'Collect 250 gold',
+    variant: 1,
+    requirement: { stat: 'gold', min: 250 },
+  },
+  {
+    id: 'treasure_hoarder',
+    name: 'Treasure Hoarder',
+    description: 'Collect 1000 gold',
+    variant: 2,
+    requirement: { stat: 'gold', min: 1000 },
+  },
+  {
+    id: 'seasoned',
+    name: 'Seasoned Adventurer',
+    description: 'Reach level 5',
+    variant: 3,
+    requirement: { stat: 'level', min: 5 },
+  },
+  {
+    id: 'veteran',
+    name: 'Veteran',
+    description: 'Reach level 10',
+    variant: 4,
+    requirement: { stat: 'level', min: 10 },
+  },
+  {
+    id: 'legend',
+    name: 'Legend of Velmora',
+    description: 'Reach level 20',
+    variant: 5,
+    requirement: { stat: 'level', min: 20 },
+  },
+];
+
+export type AchievementErrorReason =
+  | 'unknown_achievement'
+  /** The player's progress doesn't meet the requirement yet */
+  | 'not_earned'
+  /** The soulbound NFT was already minted, or is being minted */
+  | 'already_awarded';
+
+export class AchievementError extends Error {
+  constructor(readonly reason: AchievementErrorReason, message: string) {
+    super(message);
+    this.name = 'AchievementError';
+  }
+}
+
+/**
+ * Where a wallet stands on one achievement
+ */
+export interface AchievementProgress {
+  achievement: Achievement;
+  earned: boolean;
+  /** Ledger status of the award, if it was ever claimed */
+  status?: RewardStatus;
+  recipient?: string;
+  transactionHash?: string;
+}
+
+const rewardType = (achievementId: string) => `${REWARD_TYPE_PREFIX}${achievementId}`;
+
+const isEarned = (achievement: Achievement, profile: PlayerProfile | null) =>
+  profile !== null && profile[achievement.requirement.stat] >= achievement.requirement.min;
+
+/**
+ * Awards achievements as soulbound NFTs. Whether one is earned is judged
+ * from the player's stored profile. Its XP, level and gold are reported by
+ * the game client and not proven, but only change through progress sync,
+ * which never moves them backwards or faster than the game allows since the
+ * profile was created. The award goes through the reward ledger, so each
+ * wallet gets each achievement at most once, and the backend signer mints it
+ * with the owner-only `mintNFT<variant>`.
+ */
+export class AchievementService {
+  constructor(
+    private rewards: RewardLedgerRepository,
+    private players: PlayerRepository,
+    private evmService: EVMService,
+  ) {}
+
+  static find(achievementId: string): Achievement | undefined {
+    return ACHIEVEMENTS.find((achievement) => achievement.id === achievementId);
+  }
+
+  /**
+   * Every achievement, with whether the wallet has earned it and its award
+   */
+  async list(walletAddress: string): Promise<AchievementProgress[]> {
+    const profile = await this.players.get(walletAddress);
+    return Promise.all(ACHIEVEMENTS.map(async (achievement) => {
+      const entry = await this.rewards.get(walletAddress, rewardType(achievement.id));
+      return {
+        achievement,
+        earned: isEarned(achievement, profile),
+        ...(entry && { status: entry.status, recipient: entry.recipient, transactionHash: entry.transactionHash }),
+      };
+    }));
+  }
+
+  /**
+   * Award an earned achievement, minting its soulbound NFT to `recipient`
+   * (an EVM address). A failed mint can be claimed again.
+   */
+  async claim(walletAddress: string, achievementId: string, recipient: string): Promise<RewardLedgerEntry> {
+    const achievement = AchievementService.find(achievementId);
+    if (!achievement) {
+      throw new AchievementError('unknown_achievement', `Unknown achievement ${achievementId}`);
+    }
+    if (!isEarned(achievement, await this.players.get(walletAddress))) {
+      const { stat, min } = achievement.requirement;
+      throw new AchievementError('not_earned', `${achievement.name} takes ${stat} of at least ${min}`);
+    }
+
+    const type = rewardType(achievement.id);
+    const { entry, created } = await this.rewards.claim({ walletAddress, rewardType: type, amount: 1, recipient });
+    let claimed: RewardLedgerEntry | null = created ? entry : null;
+    if (!created && entry.status === 'failed') {
+      // Only one of several concurrent retries gets the entry back
+      claimed = await this.rewards.update(
+        walletAddress,
+        type,
+        { status: 'pending', recipient, transactionHash: '', error: '' },
+        ['failed'],
+      );
+    }
+    if (!claimed) {
+      throw new AchievementError('already_awarded', `${achievement.name} was already awarded`);
+    }
+
+    try {
+      const { transactionHash } = await this.evmService.mintSoulbound(recipient, achievement.variant);
+      return (await this.rewards.update(walletAddress, type, { status: 'confirmed', transactionHash }))!;
+    } catch (error: any) {
+      await this.rewards.update(walletAddress, type, { status: 'failed', error: error.message });
+      throw error;
+    }
+  }
+}
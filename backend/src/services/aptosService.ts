@@ -1,30 +1,251 @@
-import { Aptos, AptosConfig, Network, Account, Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import {
+  Aptos,
+  AccountAddress,
+  AptosApiError,
+  type AccountAuthenticator,
+  type InputEntryFunctionData,
+  type InputViewFunctionData,
+  type MoveValue,
+  type PublicKey,
+  type SimpleTransaction,
+  type UserTransactionResponse,
+} from '@aptos-labs/ts-sdk';
+import { type AptosSigner, type SignerProvider, createAptosSigners } from '../signers';
+import type { AptosTransactionPayload, Bindings, MintedAptosNFT, NFTMetadata, OwnedAptosNFT } from '../types';
+import { type AptosNetworkConfig, createAptosConfig, resolveAptosNetwork } from '../utils/aptosNetwork';
+import { parseMetadataId, toContractAttributes } from '../utils/nftMetadata';
+import { type MoveAbort, TransactionAbortedError, decodeVmStatus } from '../utils/vmStatus';
+import { SequenceNumberManager, isSequenceNumberConflict } from './sequenceNumberManager';
+import { ViewCache } from './viewCache';
+
+/** Admin transactions expire this long after they are built */
+export const ADMIN_TRANSACTION_TTL_SECS = 30;
+// Wait past expiry, so a timed-out wait means the transaction can be resubmitted
+const ADMIN_TRANSACTION_WAIT_SECS = ADMIN_TRANSACTION_TTL_SECS + 5;
+const MAX_SUBMIT_ATTEMPTS = 3;
+// Modules the backend calls into
+const CONTRACT_MODULES = ['coins_of_aura', 'velmora_nft'] as const;
+/** Collection created by `velmora_nft::initialize` */
+const VELMORA_COLLECTION_NAME = 'Velmora NFTs';
+/** How long results of each cached view function are reused; views not listed are always read from chain */
+const VIEW_TTL_MS: Record<string, number> = {
+  'coins_of_aura::balance': 15_000,
+  'coins_of_aura::name': 60 * 60_000,
+  'coins_of_aura::symbol': 60 * 60_000,
+  'coins_of_aura::decimals': 60 * 60_000,
+  'coins_of_aura::total_supply': 60_000,
+  'coins_of_aura::get_metadata': 60 * 60_000,
+  'velmora_nft::is_metadata_id_used': 60_000,
+  'velmora_nft::get_available_count': 30_000,
+  // Attributes are fixed at mint
+  'velmora_nft::get_nft_attributes': 60 * 60_000,
+};
+// Views whose result any mint, burn or reward can change
+const SUPPLY_VIEWS = ['coins_of_aura::total_supply', 'velmora_nft::get_available_count'];
+
+/**
+ * A contract event as returned by the indexer
+ */
+export interface ContractEvent {
+  transactionVersion: number;
+  eventIndex: number;
+  /** `<module>::<struct>`, e.g. `coins_of_aura::MintEvent` */
+  name: string;
+  data: any;
+}
+
+/**
+ * A CoA deposit into or withdrawal from an account's primary store, as
+ * recorded by the indexer's `fungible_asset_activities`
+ */
+export interface CoAActivity {
+  transactionVersion: number;
+  eventIndex: number;
+  kind: 'deposit' | 'withdraw';
+  /** Whole CoA */
+  amount: number;
+  /** Entry function of the transaction, e.g. `0x1::primary_fungible_store::transfer`; null for scripts */
+  entryFunction: string | null;
+  timestamp: string;
+}
+
+/**
+ * What a transaction would do if submitted now
+ */
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  /** Set when it would abort in Move code */
+  abort: MoveAbort | null;
+  /** Why it would fail; null when it would succeed */
+  reason: string | null;
+  gasUsed: number;
+  /** Octas per gas unit, as estimated by the fullnode */
+  gasUnitPrice: number;
+  /** APT the transaction would cost */
+  estimatedFee: number;
+}
+
+/**
+ * An entry function call that can't be built: an unknown function, or
+ * arguments that don't match its ABI
+ */
+export class TransactionBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionBuildError';
+  }
+}
+
+export interface SimulateOptions {
+  /** Simulate with the admin account as fee payer, as `POST /aptos/sponsor` would */
+  sponsored?: boolean;
+  /** The sender's key; without it the signature check is skipped */
+  signerPublicKey?: PublicKey;
+}
+
+export interface NFTPageOptions {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Fungible balances and one page of Velmora NFTs of an account
+ */
+export interface AccountTokens {
+  tokens: { name: string; symbol: string; balance: number; decimals: number }[];
+  nfts: OwnedAptosNFT[];
+  pagination: { offset: number; limit: number; total: number };
+}
 
 export class AptosService {
   private aptos: Aptos;
-  private adminAccount: Account | null;
+  private network: AptosNetworkConfig;
+  private signers: SignerProvider<AptosSigner> | null;
   private contractAddress: string;
+  private views: ViewCache;
 
-  constructor(env?: any) {
-    // Initialize Aptos client
-    const config = new AptosConfig({ 
-      network: Network.TESTNET // Change to MAINNET for production
-    });
-    this.aptos = new Aptos(config);
-    
-    // Initialize admin account from environment variable
-    const privateKeyHex = env?.APTOS_PRIVATE_KEY;
-    if (privateKeyHex) {
-      const privateKey = new Ed25519PrivateKey(privateKeyHex);
-      this.adminAccount = Account.fromPrivateKey({ privateKey });
-    } else {
-      this.adminAccount = null;
-      console.warn('APTOS_PRIVATE_KEY not provided. Admin functions will not work.');
-    }
+  /**
+   * `signers` defaults to the ones configured in `env`; see `createAptosSigners`
+   */
+  constructor(env?: Bindings, signers = createAptosSigners(env)) {
+    // Initialize Aptos client for the configured network
+    this.network = resolveAptosNetwork(env);
+    this.aptos = new Aptos(createAptosConfig(this.network));
+    this.signers = signers;
     
     // Contract address (replace with your deployed contract address)
     this.contractAddress = env?.APTOS_CONTRACT_ADDRESS || 
       '0xe4cfa8990d773402c3a4b5f40796dcac63c5b6ef9c703c54e6bfc07484b32557';
+    this.views = ViewCache.for(this.aptos);
+  }
+
+  /**
+   * Get the network this service talks to
+   */
+  getNetwork(): AptosNetworkConfig {
+    return this.network;
+  }
+
+  /**
+   * Get the address the game's modules are published at
+   */
+  getContractAddress(): string {
+    return this.contractAddress;
+  }
+
+  /**
+   * Get the chain ID and latest ledger version reported by the fullnode
+   */
+  async getLedgerInfo(): Promise<{ chainId: number; ledgerVersion: string }> {
+    const info = await this.aptos.getLedgerInfo();
+    return { chainId: info.chain_id, ledgerVersion: info.ledger_version };
+  }
+
+  /**
+   * Get the chain ID transactions must be built for
+   */
+  async getChainId(): Promise<number> {
+    // Devnet's changes on every reset, so ask the fullnode
+    return this.network.chainId ?? (await this.getLedgerInfo()).chainId;
+  }
+
+  /**
+   * Get the admin signer's address, APT balance and on-chain sequence number,
+   * or null when no admin key is configured
+   */
+  async getAdminAccountStatus(): Promise<{ address: string; balance: number; sequenceNumber: string } | null> {
+    if (!this.signers) {
+      return null;
+    }
+
+    const accountAddress = this.signers.primary.accountAddress;
+    const [octas, info] = await Promise.all([
+      this.aptos.getAccountAPTAmount({ accountAddress }),
+      this.aptos.getAccountInfo({ accountAddress }),
+    ]);
+
+    return {
+      address: accountAddress.toStringLong(),
+      // Convert from Octas to APT
+      balance: octas / Math.pow(10, 8),
+      sequenceNumber: info.sequence_number,
+    };
+  }
+
+  /**
+   * Check which of the game's Move modules are published at the contract address
+   */
+  async getContractModules(): Promise<{ address: string; modules: Record<string, boolean> }> {
+    const entries = await Promise.all(CONTRACT_MODULES.map(async (moduleName) => {
+      try {
+        await this.aptos.getAccountModule({ accountAddress: this.contractAddress, moduleName });
+        return [moduleName, true] as const;
+      } catch (error) {
+        if (error instanceof AptosApiError && error.status === 404) return [moduleName, false] as const;
+        throw error;
+      }
+    }));
+
+    return { address: this.contractAddress, modules: Object.fromEntries(entries) };
+  }
+
+  /**
+   * Call one of the contract's view functions (`<module>::<function>`),
+   * through the shared `ViewCache` if it has a TTL in `VIEW_TTL_MS`
+   */
+  private view<T extends MoveValue[]>(
+    functionName: string,
+    functionArguments: NonNullable<InputViewFunctionData['functionArguments']>,
+  ): Promise<T> {
+    const read = () => this.aptos.view<T>({
+      payload: { function: `${this.contractAddress}::${functionName}` as `${string}::${string}::${string}`, functionArguments },
+    });
+    const ttl = VIEW_TTL_MS[functionName];
+    return ttl ? this.views.get(this.qualify(functionName), functionArguments, ttl, read) : read();
+  }
+
+  private qualify(functionName: string): string {
+    return `${this.contractAddress}::${functionName}`;
+  }
+
+  /**
+   * Drop cached views of an account, and the supply views, after a
+   * committed transaction changed its balance or NFTs
+   */
+  invalidateAccount(address: string): void {
+    this.views.invalidate(address, SUPPLY_VIEWS.map((functionName) => this.qualify(functionName)));
+  }
+
+  private requireSigners(): SignerProvider<AptosSigner> {
+    if (!this.signers) {
+      throw new Error('Admin account not initialized. APTOS_PRIVATE_KEY or SIGNER_URL environment variable required.');
+    }
+    return this.signers;
+  }
+
+  private requireAdminAccount(): AptosSigner {
+    return this.requireSigners().primary;
   }
 
   /**
@@ -32,13 +253,8 @@ export class AptosService {
    */
   async getCoABalance(address: string): Promise<number> {
     try {
-      const balance = await this.aptos.view({
-        payload: {
-          function: `${this.contractAddress}::coins_of_aura::balance`,
-          functionArguments: [address],
-        }
-      }) as [string];
-      
+      const balance = await this.view<[string]>('coins_of_aura::balance', [address]);
+
       // Convert from smallest unit (8 decimals) to CoA
       return parseInt(balance[0]) / Math.pow(10, 8);
     } catch (error) {
@@ -48,80 +264,620 @@ export class AptosService {
   }
 
   /**
-   * Reward new player with 650 CoA tokens
+   * Get the APT balance of an address
    */
-  async rewardNewPlayer(playerAddress: string): Promise<string> {
-    if (!this.adminAccount) {
-      throw new Error('Admin account not initialized. APTOS_PRIVATE_KEY environment variable required.');
+  async getAPTBalance(address: string): Promise<number> {
+    try {
+      // Convert from Octas to APT
+      return await this.aptos.getAccountAPTAmount({ accountAddress: address }) / Math.pow(10, 8);
+    } catch (error) {
+      console.error('Error fetching APT balance:', error);
+      throw new Error('Failed to fetch APT balance');
     }
+  }
 
+  private sequenceNumbers(): SequenceNumberManager {
+    return SequenceNumberManager.for(this.aptos, this.requireAdminAccount().accountAddress);
+  }
+
+  /**
+   * Simulate an entry function call from `sender` without submitting it,
+   * with gas price and limit estimated by the fullnode
+   */
+  async simulate(sender: string, data: InputEntryFunctionData, options: SimulateOptions = {}): Promise<SimulationResult> {
+    const feePayer = options.sponsored ? this.requireAdminAccount() : null;
+    let transaction: SimpleTransaction;
     try {
-      const transaction = await this.aptos.transaction.build.simple({
-        sender: this.adminAccount.accountAddress,
-        data: {
-          function: `${this.contractAddress}::coins_of_aura::reward_new_player`,
-          functionArguments: [playerAddress],
-        },
-      });
+      transaction = await this.aptos.transaction.build.simple({ sender, data, withFeePayer: !!feePayer });
+    } catch (error) {
+      // The SDK checks the call against the function's ABI while building
+      if (error instanceof AptosApiError || !(error instanceof Error)) throw error;
+      throw new TransactionBuildError(error.message);
+    }
+    if (feePayer) {
+      transaction.feePayerAddress = feePayer.accountAddress;
+    }
 
-      // Sign and submit transaction
-      const committedTxn = await this.aptos.signAndSubmitTransaction({
-        signer: this.adminAccount,
-        transaction,
-      });
+    const [simulated] = await this.aptos.transaction.simulate.simple({
+      transaction,
+      signerPublicKey: options.signerPublicKey,
+      feePayerPublicKey: feePayer?.publicKey,
+      options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true },
+    });
+
+    const gasUsed = Number(simulated.gas_used);
+    const gasUnitPrice = Number(simulated.gas_unit_price);
+    const status = simulated.success ? null : decodeVmStatus(simulated.vm_status);
+    return {
+      success: simulated.success,
+      vmStatus: simulated.vm_status,
+      abort: status?.abort ?? null,
+      reason: status?.reason ?? null,
+      gasUsed,
+      gasUnitPrice,
+      estimatedFee: (gasUsed * gasUnitPrice) / Math.pow(10, 8),
+    };
+  }
+
+  /**
+   * Build, sign and submit an entry function call with the admin account,
+   * the primary signer.
+   * Returns the transaction hash without waiting for it to commit.
+   * The call is simulated first and never submitted if it would fail.
+   * Sequence numbers come from the signer's shared `SequenceNumberManager`,
+   * and a submission that loses a sequence number race is rebuilt and retried.
+   */
+  private async signAndSubmitAdminTransaction(data: InputEntryFunctionData): Promise<string> {
+    const adminAccount = this.requireAdminAccount();
+    const simulation = await this.simulate(adminAccount.accountAddress.toString(), data, { signerPublicKey: adminAccount.publicKey });
+    if (!simulation.success) {
+      throw new TransactionAbortedError(decodeVmStatus(simulation.vmStatus));
+    }
+
+    const sequenceNumbers = this.sequenceNumbers();
+
+    for (let attempt = 1; ; attempt++) {
+      const accountSequenceNumber = await sequenceNumbers.allocate();
+      let submitted = false;
+
+      try {
+        const transaction = await this.aptos.transaction.build.simple({
+          sender: adminAccount.accountAddress,
+          data,
+          options: {
+            accountSequenceNumber,
+            expireTimestamp: Math.floor(Date.now() / 1000) + ADMIN_TRANSACTION_TTL_SECS,
+          },
+        });
+
+        const senderAuthenticator = await adminAccount.signTransaction(transaction);
+        submitted = true;
+        const pendingTxn = await this.aptos.transaction.submit.simple({ transaction, senderAuthenticator });
+
+        return pendingTxn.hash;
+      } catch (error) {
+        if (!submitted) {
+          sequenceNumbers.release(accountSequenceNumber);
+          throw error;
+        }
+
+        // The number may or may not have reached the mempool; re-read it from chain
+        sequenceNumbers.resync();
+        if (!isSequenceNumberConflict(error) || attempt >= MAX_SUBMIT_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`Sequence number ${accountSequenceNumber} conflicted, retrying (attempt ${attempt})`);
+      }
+    }
+  }
 
-      // Wait for transaction confirmation
-      const executedTransaction = await this.aptos.waitForTransaction({
-        transactionHash: committedTxn.hash,
+  /**
+   * Build, sign and submit an entry function call with the admin account
+   * and wait for it to be committed. A transaction that expires without
+   * committing (e.g. stuck behind a sequence number gap) is submitted again;
+   * one that commits but fails throws a `TransactionAbortedError`.
+   */
+  private async submitAdminTransaction(data: InputEntryFunctionData): Promise<UserTransactionResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const submittedAt = Date.now();
+      const transactionHash = await this.signAndSubmitAdminTransaction(data);
+
+      let transaction: UserTransactionResponse;
+      try {
+        // Wait for transaction confirmation
+        transaction = await this.aptos.waitForTransaction({
+          transactionHash,
+          options: { timeoutSecs: ADMIN_TRANSACTION_WAIT_SECS, checkSuccess: false },
+        }) as UserTransactionResponse;
+      } catch (error) {
+        if (attempt >= MAX_SUBMIT_ATTEMPTS || !(await this.hasExpired(transactionHash, submittedAt))) {
+          throw error;
+        }
+        console.warn(`Admin transaction ${transactionHash} expired without committing, resubmitting`);
+        this.sequenceNumbers().resync();
+        continue;
+      }
+
+      if (!transaction.success) {
+        throw new TransactionAbortedError(decodeVmStatus(transaction.vm_status));
+      }
+      return transaction;
+    }
+  }
+
+  /**
+   * Check whether an admin transaction submitted at `submittedAt` can no
+   * longer commit: its expiration time has passed and it never committed
+   */
+  async hasExpired(transactionHash: string, submittedAt: number): Promise<boolean> {
+    if (Date.now() < submittedAt + ADMIN_TRANSACTION_TTL_SECS * 1000) {
+      return false;
+    }
+
+    try {
+      const transaction = await this.aptos.getTransactionByHash({ transactionHash });
+      return transaction.type === 'pending_transaction';
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) return true;
+      throw error;
+    }
+  }
+
+  /**
+   * Submit `reward_new_player` for a player and return the transaction hash.
+   * The contract silently skips players that already hold CoA, so callers
+   * must check the committed transaction with `hasPlayerLoginReward`.
+   */
+  async submitRewardNewPlayer(playerAddress: string): Promise<string> {
+    this.requireAdminAccount();
+
+    try {
+      return await this.signAndSubmitAdminTransaction({
+        function: `${this.contractAddress}::coins_of_aura::reward_new_player`,
+        functionArguments: [playerAddress],
       });
+    } catch (error) {
+      console.error('Error submitting new player reward:', error);
+      throw keepAbort(error, 'Failed to submit new player reward');
+    }
+  }
+
+  /**
+   * Wait for a transaction to commit. Resolves with aborted transactions too
+   * (check `success`); throws if it is still pending after the timeout.
+   */
+  async waitForTransaction(transactionHash: string): Promise<UserTransactionResponse> {
+    return await this.aptos.waitForTransaction({
+      transactionHash,
+      options: { checkSuccess: false, timeoutSecs: ADMIN_TRANSACTION_WAIT_SECS },
+    }) as UserTransactionResponse;
+  }
 
-      return executedTransaction.hash;
+  /**
+   * Look up a committed transaction, or null if it is pending or unknown to the node
+   */
+  async getCommittedTransaction(transactionHash: string): Promise<UserTransactionResponse | null> {
+    try {
+      const transaction = await this.aptos.getTransactionByHash({ transactionHash });
+      return transaction.type === 'user_transaction' ? transaction as UserTransactionResponse : null;
     } catch (error) {
-      console.error('Error rewarding new player:', error);
-      throw new Error('Failed to reward new player with CoA tokens');
+      if (error instanceof AptosApiError && error.status === 404) return null;
+      throw error;
     }
   }
 
   /**
-   * Mint CoA tokens to a specific address (admin function)
+   * Check whether a committed transaction paid the new player reward to `playerAddress`
    */
-  async mintCoA(toAddress: string, amount: number): Promise<string> {
-    if (!this.adminAccount) {
-      throw new Error('Admin account not initialized. APTOS_PRIVATE_KEY environment variable required.');
+  hasPlayerLoginReward(transaction: UserTransactionResponse, playerAddress: string): boolean {
+    return transaction.success && transaction.events.some((event) =>
+      event.type.endsWith('::coins_of_aura::PlayerLoginReward') &&
+      AccountAddress.from(event.data.player).equals(AccountAddress.from(playerAddress))
+    );
+  }
+
+  /**
+   * Look up a committed `coins_of_aura::transfer`, e.g. a player paying the
+   * shop. Returns null if the transaction is pending, unknown, failed or
+   * isn't a CoA transfer.
+   */
+  async getCoATransfer(transactionHash: string): Promise<{ from: string; to: string; amount: number } | null> {
+    const transaction = await this.getCommittedTransaction(transactionHash);
+    const payload = transaction?.payload as { function?: string; arguments?: string[] } | undefined;
+    // The API may shorten the address, so compare it parsed
+    const [moduleAddress, ...name] = payload?.function?.split('::') ?? [];
+    const isTransfer = moduleAddress !== undefined &&
+      AccountAddress.from(moduleAddress).equals(AccountAddress.from(this.contractAddress)) &&
+      name.join('::') === 'coins_of_aura::transfer';
+    if (!transaction?.success || !isTransfer || !payload?.arguments) {
+      return null;
     }
 
+    const [to, amount] = payload.arguments;
+    return {
+      from: AccountAddress.from(transaction.sender).toStringLong(),
+      to: AccountAddress.from(to).toStringLong(),
+      // Convert from the smallest unit (8 decimals)
+      amount: Number(amount) / Math.pow(10, 8),
+    };
+  }
+
+  /**
+   * Get the admin signer's address, which receives CoA paid to the shop
+   */
+  getAdminAddress(): string {
+    return this.requireAdminAccount().accountAddress.toStringLong();
+  }
+
+  /**
+   * Get the addresses of every signer, any of which may pay for sponsored transactions
+   */
+  getSignerAddresses(): string[] {
+    return this.requireSigners().signers.map((signer) => signer.accountAddress.toStringLong());
+  }
+
+  /**
+   * Sign a player's fee payer transaction as its fee payer, with the signers
+   * taking turns. Sets its fee payer address to the signer's.
+   */
+  async signAsFeePayer(transaction: SimpleTransaction): Promise<AccountAuthenticator> {
+    const feePayer = this.requireSigners().next();
+    transaction.feePayerAddress = feePayer.accountAddress;
+    return feePayer.signTransaction(transaction);
+  }
+
+  /**
+   * Check whether a metadata ID has already been minted (`velmora_nft::is_metadata_id_used`)
+   */
+  async isMetadataIdUsed(metadataId: number): Promise<boolean> {
+    const [used] = await this.view<[boolean]>('velmora_nft::is_metadata_id_used', [this.contractAddress, metadataId.toString()]);
+    return used;
+  }
+
+  /**
+   * Get how many metadata IDs are left to mint (`velmora_nft::get_available_count`)
+   */
+  async getAvailableNFTCount(): Promise<number> {
+    const [available] = await this.view<[string]>('velmora_nft::get_available_count', [this.contractAddress]);
+    return Number(available);
+  }
+
+  /**
+   * Read events emitted by the game's modules from the indexer, oldest first,
+   * starting after `after`. `eventNames` are `<module>::<struct>` names.
+   */
+  async getContractEvents(
+    eventNames: readonly string[],
+    after: { transactionVersion: number; eventIndex: number } | null,
+    limit: number,
+  ): Promise<ContractEvent[]> {
+    const { events } = await this.aptos.queryIndexer<{ events: any[] }>({
+      query: {
+        query: `query ContractEvents($types: [String!], $version: bigint!, $index: bigint!, $limit: Int!) {
+          events(
+            where: {
+              indexed_type: { _in: $types }
+              _or: [
+                { transaction_version: { _gt: $version } }
+                { transaction_version: { _eq: $version }, event_index: { _gt: $index } }
+              ]
+            }
+            order_by: [{ transaction_version: asc }, { event_index: asc }]
+            limit: $limit
+          ) {
+            transaction_version
+            event_index
+            indexed_type
+            data
+          }
+        }`,
+        variables: {
+          types: eventNames.map((name) => `${AccountAddress.from(this.contractAddress).toString()}::${name}`),
+          version: after?.transactionVersion ?? -1,
+          index: after?.eventIndex ?? -1,
+          limit,
+        },
+      },
+    });
+
+    return events.map((event) => ({
+      transactionVersion: Number(event.transaction_version),
+      eventIndex: Number(event.event_index),
+      // Strip the address so callers can match on `<module>::<struct>`
+      name: event.indexed_type.slice(event.indexed_type.indexOf('::') + 2),
+      data: event.data,
+    }));
+  }
+
+  /**
+   * Get the address of the CoA fungible asset's metadata object
+   */
+  async getCoAMetadataAddress(): Promise<string> {
+    const [metadata] = await this.view<[{ inner: string }]>('coins_of_aura::get_metadata', []);
+    return AccountAddress.from(metadata.inner).toStringLong();
+  }
+
+  /**
+   * Read an account's CoA deposits and withdrawals from the indexer, newest
+   * first, before `before`. Activities of transactions calling any of the
+   * contract's `excludeFunctions` (`<module>::<function>`) are left out.
+   */
+  async getCoAActivities(
+    owner: string,
+    before: { transactionVersion: number; eventIndex: number } | null,
+    limit: number,
+    excludeFunctions: readonly string[] = [],
+  ): Promise<CoAActivity[]> {
+    const { fungible_asset_activities: activities } = await this.aptos.queryIndexer<{ fungible_asset_activities: any[] }>({
+      query: {
+        query: `query CoAActivities($owner: String!, $asset: String!, $exclude: [String!], $version: bigint!, $index: bigint!, $limit: Int!) {
+          fungible_asset_activities(
+            where: {
+              owner_address: { _eq: $owner }
+              asset_type: { _eq: $asset }
+              is_transaction_success: { _eq: true }
+              _and: [
+                { _or: [{ type: { _like: "%::Deposit%" } }, { type: { _like: "%::Withdraw%" } }] }
+                { _or: [{ entry_function_id_str: { _is_null: true } }, { entry_function_id_str: { _nin: $exclude } }] }
+                { _or: [
+                  { transaction_version: { _lt: $version } }
+                  { transaction_version: { _eq: $version }, event_index: { _lt: $index } }
+                ] }
+              ]
+            }
+            order_by: [{ transaction_version: desc }, { event_index: desc }]
+            limit: $limit
+          ) {
+            transaction_version
+            event_index
+            type
+            amount
+            entry_function_id_str
+            transaction_timestamp
+          }
+        }`,
+        variables: {
+          owner: AccountAddress.from(owner).toStringLong(),
+          asset: await this.getCoAMetadataAddress(),
+          exclude: excludeFunctions.map((name) => `${AccountAddress.from(this.contractAddress).toString()}::${name}`),
+          // Past any real version, so no `before` means from the newest
+          version: before?.transactionVersion ?? Number.MAX_SAFE_INTEGER,
+          index: before?.eventIndex ?? 0,
+          limit,
+        },
+      },
+    });
+
+    return activities.map((activity) => ({
+      transactionVersion: Number(activity.transaction_version),
+      eventIndex: Number(activity.event_index),
+      kind: activity.type.includes('::Deposit') ? 'deposit' : 'withdraw',
+      amount: Number(activity.amount) / Math.pow(10, 8),
+      entryFunction: activity.entry_function_id_str ?? null,
+      // The indexer's timestamps are UTC without a zone
+      timestamp: new Date(`${activity.transaction_timestamp}Z`).toISOString(),
+    }));
+  }
+
+  /**
+   * Of the given transactions, find the ones in which `owner` received CoA
+   */
+  async findCoADeposits(owner: string, transactionVersions: number[]): Promise<Set<number>> {
+    if (transactionVersions.length === 0) {
+      return new Set();
+    }
+
+    const { fungible_asset_activities: deposits } = await this.aptos.queryIndexer<{ fungible_asset_activities: any[] }>({
+      query: {
+        query: `query CoADeposits($owner: String!, $asset: String!, $versions: [bigint!]) {
+          fungible_asset_activities(
+            where: {
+              owner_address: { _eq: $owner }
+              asset_type: { _eq: $asset }
+              transaction_version: { _in: $versions }
+              type: { _like: "%::Deposit%" }
+            }
+          ) {
+            transaction_version
+          }
+        }`,
+        variables: {
+          owner: AccountAddress.from(owner).toStringLong(),
+          asset: await this.getCoAMetadataAddress(),
+          versions: transactionVersions,
+        },
+      },
+    });
+    return new Set(deposits.map((deposit) => Number(deposit.transaction_version)));
+  }
+
+  /**
+   * Get the hash of the transaction at a ledger version
+   */
+  async getTransactionHash(transactionVersion: number): Promise<string> {
+    const transaction = await this.aptos.getTransactionByVersion({ ledgerVersion: BigInt(transactionVersion) });
+    return transaction.hash;
+  }
+
+  /**
+   * Submit a CoA mint to a specific address (admin function) and return the transaction hash
+   */
+  async submitMintCoA(toAddress: string, amount: number): Promise<string> {
+    this.requireAdminAccount();
+
     try {
       // Convert amount to smallest unit (8 decimals)
-      const amountInSmallestUnit = Math.floor(amount * Math.pow(10, 8));
+      const amountInSmallestUnit = Math.round(amount * Math.pow(10, 8));
 
-      const transaction = await this.aptos.transaction.build.simple({
-        sender: this.adminAccount.accountAddress,
-        data: {
-          function: `${this.contractAddress}::coins_of_aura::mint`,
-          functionArguments: [toAddress, amountInSmallestUnit.toString()],
-        },
+      return await this.signAndSubmitAdminTransaction({
+        function: `${this.contractAddress}::coins_of_aura::mint`,
+        functionArguments: [toAddress, amountInSmallestUnit.toString()],
       });
+    } catch (error) {
+      console.error('Error minting CoA tokens:', error);
+      throw keepAbort(error, 'Failed to mint CoA tokens');
+    }
+  }
 
-      const committedTxn = await this.aptos.signAndSubmitTransaction({
-        signer: this.adminAccount,
-        transaction,
-      });
+  /**
+   * Mint a Velmora NFT with a metadata ID picked by on-chain randomness
+   */
+  async mintRandomNFT(toAddress: string): Promise<MintedAptosNFT> {
+    this.requireAdminAccount();
 
-      const executedTransaction = await this.aptos.waitForTransaction({
-        transactionHash: committedTxn.hash,
+    try {
+      const executedTransaction = await this.submitAdminTransaction({
+        function: `${this.contractAddress}::velmora_nft::mint_random_nft_secure`,
+        functionArguments: [toAddress],
       });
 
-      return executedTransaction.hash;
+      const minted = this.readMintEvent(executedTransaction);
+      this.invalidateMint(toAddress, minted.metadataId);
+      return minted;
     } catch (error) {
-      console.error('Error minting CoA tokens:', error);
-      throw new Error('Failed to mint CoA tokens');
+      console.error('Error minting random NFT:', error);
+      throw keepAbort(error, 'Failed to mint random Velmora NFT');
+    }
+  }
+
+  /**
+   * Mint a Velmora NFT for a specific metadata ID (admin function).
+   * The contract mints each metadata ID once.
+   */
+  async mintFromMetadataId(toAddress: string, metadataId: number, rarity: number, skill: number): Promise<MintedAptosNFT> {
+    this.requireAdminAccount();
+
+    try {
+      const executedTransaction = await this.submitAdminTransaction(
+        this.mintFromMetadataIdData(toAddress, metadataId, rarity, skill),
+      );
+
+      this.invalidateMint(toAddress, metadataId);
+      return { ...this.readMintEvent(executedTransaction), metadataId };
+    } catch (error) {
+      console.error('Error minting NFT from metadata ID:', error);
+      throw keepAbort(error, 'Failed to mint Velmora NFT');
+    }
+  }
+
+  /**
+   * Find the committed mint of a metadata ID from its indexed `velmora_nft::MintEvent`,
+   * or null while the ID is unminted. Throws when the ID is minted but the
+   * indexer hasn't caught up with the mint yet.
+   */
+  async findMetadataIdMint(metadataId: number): Promise<MintedAptosNFT | null> {
+    // Read from chain: a mint whose wait failed never dropped the cached view
+    this.views.invalidateCall(this.qualify('velmora_nft::is_metadata_id_used'), [this.contractAddress, metadataId.toString()]);
+    if (!await this.isMetadataIdUsed(metadataId)) {
+      return null;
+    }
+
+    const tokenName = `Aura Eye #${metadataId}`;
+    const { events } = await this.aptos.queryIndexer<{ events: any[] }>({
+      query: {
+        query: `query MetadataIdMint($type: String!, $token: jsonb!) {
+          events(where: { indexed_type: { _eq: $type }, data: { _contains: $token } }, limit: 1) {
+            transaction_version
+            data
+          }
+        }`,
+        variables: {
+          type: `${AccountAddress.from(this.contractAddress).toString()}::velmora_nft::MintEvent`,
+          token: { token_id: { token_data_id: { name: tokenName } } },
+        },
+      },
+    });
+    if (events.length === 0) {
+      throw new Error(`NFT #${metadataId} is minted, but its mint isn't indexed yet`);
+    }
+
+    const [{ transaction_version: transactionVersion, data }] = events;
+    return {
+      transactionHash: await this.getTransactionHash(Number(transactionVersion)),
+      owner: data.owner,
+      tokenName,
+      metadataId,
+      rarity: parseInt(data.rarity),
+      skill: parseInt(data.skill),
+    };
+  }
+
+  /**
+   * Simulate `mintFromMetadataId` as the admin account, to learn whether it
+   * would succeed before taking anything in exchange for it
+   */
+  async simulateMintFromMetadataId(toAddress: string, metadataId: number, rarity: number, skill: number): Promise<SimulationResult> {
+    const adminAccount = this.requireAdminAccount();
+    return this.simulate(
+      adminAccount.accountAddress.toString(),
+      this.mintFromMetadataIdData(toAddress, metadataId, rarity, skill),
+      { signerPublicKey: adminAccount.publicKey },
+    );
+  }
+
+  private mintFromMetadataIdData(toAddress: string, metadataId: number, rarity: number, skill: number): InputEntryFunctionData {
+    return {
+      function: `${this.contractAddress}::velmora_nft::mint_from_metadata_id`,
+      functionArguments: [toAddress, metadataId.toString(), rarity.toString(), skill.toString()],
+    };
+  }
+
+  private invalidateMint(toAddress: string, metadataId: number | null): void {
+    this.invalidateAccount(toAddress);
+    if (metadataId !== null) {
+      this.views.invalidateCall(this.qualify('velmora_nft::is_metadata_id_used'), [this.contractAddress, metadataId.toString()]);
+    }
+  }
+
+  /**
+   * Read the minted token, rarity and skill back from the `velmora_nft::MintEvent`
+   */
+  private readMintEvent(transaction: UserTransactionResponse): MintedAptosNFT {
+    const mintEvent = transaction.events.find((event) => event.type.endsWith('::velmora_nft::MintEvent'));
+    if (!mintEvent) {
+      throw new Error(`MintEvent not found in transaction ${transaction.hash}`);
     }
+
+    const tokenName: string = mintEvent.data.token_id.token_data_id.name;
+    return {
+      transactionHash: transaction.hash,
+      owner: mintEvent.data.owner,
+      tokenName,
+      metadataId: parseMetadataId({ name: tokenName }),
+      rarity: parseInt(mintEvent.data.rarity),
+      skill: parseInt(mintEvent.data.skill),
+    };
+  }
+
+  /**
+   * Build the `velmora_nft` mint payload for a full NFT metadata object.
+   * `ipfs://` images go through `mint_from_bridge`, which takes the bare hash;
+   * any other URI is passed to `mint_nft` unchanged.
+   */
+  buildMintNFTPayload(toAddress: string, metadata: NFTMetadata): AptosTransactionPayload {
+    const { rarity, skill } = toContractAttributes(metadata);
+    const ipfsPrefix = 'ipfs://';
+    const isIpfsHash = metadata.image.startsWith(ipfsPrefix);
+
+    return {
+      type: 'entry_function_payload',
+      function: `${this.contractAddress}::velmora_nft::${isIpfsHash ? 'mint_from_bridge' : 'mint_nft'}`,
+      arguments: [
+        toAddress,
+        metadata.name,
+        metadata.description,
+        isIpfsHash ? metadata.image.slice(ipfsPrefix.length) : metadata.image,
+        rarity.toString(),
+        skill.toString(),
+      ],
+      type_arguments: [],
+    };
   }
 
   /**
-   * Get account tokens (including CoA)
+   * Get the CoA and APT balances of an account, and a page of its Velmora NFTs
    */
-  async getAccountTokens(ownerAddress: string): Promise<any[]> {
+  async getAccountTokens(ownerAddress: string, options: NFTPageOptions): Promise<AccountTokens> {
     try {
       // Get account resources to find token balances
       const resources = await this.aptos.getAccountResources({
@@ -156,7 +912,12 @@ export class AptosService {
         });
       }
 
-      return tokens;
+      const { nfts, total } = await this.getVelmoraNFTs(ownerAddress, options);
+      return {
+        tokens,
+        nfts,
+        pagination: { offset: options.offset, limit: options.limit, total },
+      };
     } catch (error) {
       console.error('Error fetching account tokens:', error);
       throw new Error('Failed to fetch account tokens');
@@ -164,57 +925,94 @@ export class AptosService {
   }
 
   /**
-   * Check if player is eligible for new player reward
+   * List the Velmora NFTs an account holds, newest first, with rarity and
+   * skill read from `velmora_nft::get_nft_attributes`
    */
-  async isEligibleForReward(playerAddress: string): Promise<boolean> {
-    try {
-      const balance = await this.getCoABalance(playerAddress);
-      // Player is eligible if they have 0 CoA tokens
-      return balance === 0;
-    } catch (error) {
-      // If we can't fetch balance, assume they're eligible
-      return true;
-    }
+  async getVelmoraNFTs(
+    ownerAddress: string,
+    { offset, limit }: NFTPageOptions,
+  ): Promise<{ nfts: OwnedAptosNFT[]; total: number }> {
+    const creator = AccountAddress.from(this.contractAddress).toStringLong();
+    const where = {
+      owner_address: { _eq: AccountAddress.from(ownerAddress).toStringLong() },
+      amount: { _gt: 0 },
+      current_token_data: {
+        current_collection: { creator_address: { _eq: creator }, collection_name: { _eq: VELMORA_COLLECTION_NAME } },
+      },
+    };
+
+    const { current_token_ownerships_v2: ownerships, current_token_ownerships_v2_aggregate: aggregate } =
+      await this.aptos.queryIndexer<{
+        current_token_ownerships_v2: any[];
+        current_token_ownerships_v2_aggregate: { aggregate: { count: number } };
+      }>({
+        query: {
+          query: `query VelmoraTokens($where: current_token_ownerships_v2_bool_exp!, $offset: Int!, $limit: Int!) {
+            current_token_ownerships_v2(
+              where: $where
+              order_by: [{ last_transaction_version: desc }, { token_data_id: asc }]
+              offset: $offset
+              limit: $limit
+            ) {
+              token_data_id
+              property_version_v1
+              current_token_data {
+                token_name
+                token_uri
+              }
+            }
+            current_token_ownerships_v2_aggregate(where: $where) {
+              aggregate {
+                count
+              }
+            }
+          }`,
+          variables: { where, offset, limit },
+        },
+      });
+
+    const nfts = await Promise.all(ownerships.map(async (ownership): Promise<OwnedAptosNFT> => {
+      const tokenName: string = ownership.current_token_data.token_name;
+      const uri: string = ownership.current_token_data.token_uri;
+      const propertyVersion = String(ownership.property_version_v1);
+
+      const [rarity, skill] = await this.view<[string, string]>(
+        'velmora_nft::get_nft_attributes',
+        [creator, VELMORA_COLLECTION_NAME, tokenName, propertyVersion],
+      );
+
+      return {
+        tokenDataId: ownership.token_data_id,
+        tokenName,
+        uri,
+        propertyVersion,
+        metadataId: parseMetadataId({ name: tokenName }),
+        rarity: parseInt(rarity),
+        skill: parseInt(skill),
+      };
+    }));
+
+    return { nfts, total: aggregate.aggregate.count };
   }
 
+
   /**
    * Get CoA token metadata
    */
   async getCoAMetadata(): Promise<any> {
     try {
-      const name = await this.aptos.view({
-        payload: {
-          function: `${this.contractAddress}::coins_of_aura::name`,
-          functionArguments: [],
-        }
-      }) as [string];
-
-      const symbol = await this.aptos.view({
-        payload: {
-          function: `${this.contractAddress}::coins_of_aura::symbol`,
-          functionArguments: [],
-        }
-      }) as [string];
-
-      const decimals = await this.aptos.view({
-        payload: {
-          function: `${this.contractAddress}::coins_of_aura::decimals`,
-          functionArguments: [],
-        }
-      }) as [number];
-
-      const totalSupply = await this.aptos.view({
-        payload: {
-          function: `${this.contractAddress}::coins_of_aura::total_supply`,
-          functionArguments: [],
-        }
-      }) as [string];
+      const [[name], [symbol], [decimals], [totalSupply]] = await Promise.all([
+        this.view<[string]>('coins_of_aura::name', []),
+        this.view<[string]>('coins_of_aura::symbol', []),
+        this.view<[number]>('coins_of_aura::decimals', []),
+        this.view<[string]>('coins_of_aura::total_supply', []),
+      ]);
 
       return {
-        name: name[0],
-        symbol: symbol[0],
-        decimals: decimals[0],
-        totalSupply: parseInt(totalSupply[0]) / Math.pow(10, 8),
+        name,
+        symbol,
+        decimals,
+        totalSupply: parseInt(totalSupply) / Math.pow(10, 8),
       };
     } catch (error) {
       console.error('Error fetching CoA metadata:', error);
@@ -222,3 +1020,10 @@ export class AptosService {
     }
   }
 }
+
+/**
+ * Replace a failed admin transaction's error with a generic one, unless it is
+ * a decoded abort that says why
+ */
+const keepAbort = (error: unknown, message: string): Error =>
+  error instanceof TransactionAbortedError ? error : new Error(message);
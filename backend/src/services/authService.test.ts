@@ -0,0 +1,75 @@
+import { Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLocalEVMSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import type { Bindings } from '../types';
+import { AuthService, type LoginProof } from './authService';
+
+const ENV = { AUTH_SECRET: 'test-secret' } as Bindings;
+
+describe('AuthService', () => {
+  let auth: AuthService;
+
+  beforeEach(() => {
+    auth = new AuthService(new MemoryStorage().loginNonces, ENV);
+  });
+
+  async function signEvmChallenge(signer = createLocalEVMSigners().primary): Promise<LoginProof> {
+    const { message } = await auth.createChallenge('evm', signer.address);
+    return { chain: 'evm', address: signer.address, message, signature: await signer.signMessage(message) };
+  }
+
+  it('signs an EVM wallet in and verifies its session', async () => {
+    const proof = await signEvmChallenge();
+
+    const session = await auth.verifyLogin(proof);
+
+    expect(session.wallet).toEqual({ chain: 'evm', address: proof.address.toLowerCase() });
+    expect(await auth.verifySession(session.token)).toEqual(session.wallet);
+  });
+
+  it('signs an Aptos wallet in from its signMessage output', async () => {
+    const privateKey = Ed25519PrivateKey.generate();
+    const address = privateKey.publicKey().authKey().derivedAddress().toStringLong();
+    const { message, nonce } = await auth.createChallenge('aptos', address);
+    const fullMessage = `APTOS\nmessage: ${message}\nnonce: ${nonce}`;
+    const signature = privateKey.sign(new TextEncoder().encode(fullMessage));
+
+    const session = await auth.verifyLogin({
+      chain: 'aptos',
+      address,
+      message,
+      signature: signature.toString(),
+      publicKey: privateKey.publicKey().toString(),
+      fullMessage,
+    });
+
+    expect(session.wallet).toEqual({ chain: 'aptos', address });
+  });
+
+  it('exchanges each signed challenge for one session', async () => {
+    const proof = await signEvmChallenge();
+    await auth.verifyLogin(proof);
+
+    await expect(auth.verifyLogin(proof)).rejects.toThrow('Login challenge was already used');
+    await expect(auth.verifyLogin(await signEvmChallenge())).resolves.toBeDefined();
+  });
+
+  it('does not use up a challenge on a bad signature', async () => {
+    const proof = await signEvmChallenge();
+    const forged = await createLocalEVMSigners().primary.signMessage(proof.message);
+
+    await expect(auth.verifyLogin({ ...proof, signature: forged })).rejects.toThrow('Signature does not match address');
+    await expect(auth.verifyLogin(proof)).resolves.toBeDefined();
+  });
+
+  it('rejects challenges it did not issue or issued to another wallet', async () => {
+    const proof = await signEvmChallenge();
+    const other = createLocalEVMSigners().primary;
+
+    await expect(auth.verifyLogin({ ...proof, message: proof.message.replace(/Nonce: \w+/, 'Nonce: 0123') }))
+      .rejects.toThrow('Invalid login nonce');
+    await expect(auth.verifyLogin({ ...proof, address: other.address, signature: await other.signMessage(proof.message) }))
+      .rejects.toThrow('Malformed login message');
+  });
+});
@@ -0,0 +1,230 @@
+import { Ed25519PublicKey, Ed25519Signature } from '@aptos-labs/ts-sdk';
+import { verifyMessage } from 'ethers';
+import { sign, verify } from 'hono/jwt';
+import type { LoginNonceRepository } from '../storage';
+import type { AuthenticatedWallet, Bindings, Chain } from '../types';
+import { normalizeAddress } from '../utils/address';
+
+/** How long a login challenge can be signed for */
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+/** How long an issued session token stays valid */
+const SESSION_TTL_SECONDS = 60 * 60;
+/** Sepolia chain ID, included in SIWE messages */
+const EVM_CHAIN_ID = 11155111;
+
+export interface LoginChallenge {
+  message: string;
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface LoginProof {
+  chain: Chain;
+  address: string;
+  message: string;
+  signature: string;
+  /** Aptos only: the Ed25519 public key that produced the signature */
+  publicKey?: string;
+  /** Aptos only: the `fullMessage` returned by the wallet's `signMessage` */
+  fullMessage?: string;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: string;
+  wallet: AuthenticatedWallet;
+}
+
+/**
+ * Check a wallet against the comma-separated `ADMIN_WALLETS` allowlist
+ */
+export function isAdminWallet(env: Bindings | undefined, wallet: AuthenticatedWallet): boolean {
+  const allowlist = (env?.ADMIN_WALLETS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return allowlist.some((entry) => {
+    try {
+      return normalizeAddress(wallet.chain, entry) === wallet.address;
+    } catch {
+      // Entry belongs to the other chain's address format
+      return false;
+    }
+  });
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Signs wallets in with a signed challenge (SIWE). Challenges are issued
+ * without storing anything, and each one is exchanged for a session once:
+ * its nonce is recorded in `nonces` until the challenge expires.
+ */
+export class AuthService {
+  private secret: string;
+  private domain: string;
+
+  constructor(private nonces: LoginNonceRepository, env?: Bindings) {
+    if (!env?.AUTH_SECRET) {
+      throw new Error('AUTH_SECRET environment variable required for wallet authentication.');
+    }
+    this.secret = env.AUTH_SECRET;
+    this.domain = env.AUTH_DOMAIN || 'velmora.com';
+  }
+
+  /**
+   * Derive the challenge nonce from its contents, so issuing a challenge needs no server-side storage
+   */
+  private async deriveNonce(chain: Chain, address: string, issuedAt: string, expiresAt: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const mac = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      new TextEncoder().encode(`${chain}:${address}:${issuedAt}:${expiresAt}`),
+    );
+    return toHex(mac).slice(0, 32);
+  }
+
+  /**
+   * Build the login message (EIP-4361 / SIWE format, reused for Aptos)
+   */
+  private buildMessage(chain: Chain, address: string, nonce: string, issuedAt: string, expiresAt: string): string {
+    const lines = [
+      `${this.domain} wants you to sign in with your ${chain === 'evm' ? 'Ethereum' : 'Aptos'} account:`,
+      address,
+      '',
+      'Sign in to Velmora.',
+      '',
+      `URI: https://${this.domain}`,
+      'Version: 1',
+    ];
+    if (chain === 'evm') {
+      lines.push(`Chain ID: ${EVM_CHAIN_ID}`);
+    }
+    lines.push(`Nonce: ${nonce}`, `Issued At: ${issuedAt}`, `Expiration Time: ${expiresAt}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Create a login challenge for a wallet to sign
+   */
+  async createChallenge(chain: Chain, rawAddress: string): Promise<LoginChallenge> {
+    const address = normalizeAddress(chain, rawAddress);
+    const now = Date.now();
+    const issuedAt = new Date(now).toISOString();
+    const expiresAt = new Date(now + CHALLENGE_TTL_SECONDS * 1000).toISOString();
+    const nonce = await this.deriveNonce(chain, address, issuedAt, expiresAt);
+
+    return {
+      message: this.buildMessage(chain, address, nonce, issuedAt, expiresAt),
+      nonce,
+      issuedAt,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Check that a signed message is an unexpired challenge we issued to this address
+   */
+  private async verifyChallenge(chain: Chain, address: string, message: string): Promise<{ nonce: string; expiresAt: string }> {
+    const field = (name: string) => message.match(new RegExp(`^${name}: (.+)$`, 'm'))?.[1];
+    const nonce = field('Nonce');
+    const issuedAt = field('Issued At');
+    const expiresAt = field('Expiration Time');
+
+    if (!nonce || !issuedAt || !expiresAt || message.split('\n')[1] !== address) {
+      throw new Error('Malformed login message');
+    }
+    if (message !== this.buildMessage(chain, address, nonce, issuedAt, expiresAt)) {
+      throw new Error('Login message was not issued by this server');
+    }
+    if (nonce !== await this.deriveNonce(chain, address, issuedAt, expiresAt)) {
+      throw new Error('Invalid login nonce');
+    }
+    if (Date.parse(expiresAt) < Date.now()) {
+      throw new Error('Login challenge has expired');
+    }
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Verify an Ethereum personal_sign signature over a SIWE message
+   */
+  private verifyEvmSignature(address: string, proof: LoginProof): void {
+    const recovered = verifyMessage(proof.message, proof.signature).toLowerCase();
+    if (recovered !== address) {
+      throw new Error('Signature does not match address');
+    }
+  }
+
+  /**
+   * Verify an Aptos wallet `signMessage` Ed25519 signature.
+   * Wallets sign a `fullMessage` that wraps our message and nonce.
+   */
+  private verifyAptosSignature(address: string, proof: LoginProof, nonce: string): void {
+    if (!proof.publicKey || !proof.fullMessage) {
+      throw new Error('publicKey and fullMessage are required for Aptos signatures');
+    }
+    if (!proof.fullMessage.includes(`message: ${proof.message}`) || !proof.fullMessage.includes(`nonce: ${nonce}`)) {
+      throw new Error('Signed message does not contain the login challenge');
+    }
+
+    const publicKey = new Ed25519PublicKey(proof.publicKey);
+    const isValid = publicKey.verifySignature({
+      message: new TextEncoder().encode(proof.fullMessage),
+      signature: new Ed25519Signature(proof.signature),
+    });
+    if (!isValid) {
+      throw new Error('Invalid signature');
+    }
+    if (publicKey.authKey().derivedAddress().toStringLong() !== address) {
+      throw new Error('Public key does not match address');
+    }
+  }
+
+  /**
+   * Verify a signed challenge and issue a session token. Each challenge is
+   * only good for one session, so a captured signature can't be replayed.
+   */
+  async verifyLogin(proof: LoginProof): Promise<SessionToken> {
+    const address = normalizeAddress(proof.chain, proof.address);
+    const { nonce, expiresAt } = await this.verifyChallenge(proof.chain, address, proof.message);
+
+    if (proof.chain === 'evm') {
+      this.verifyEvmSignature(address, proof);
+    } else {
+      this.verifyAptosSignature(address, proof, nonce);
+    }
+    // Only signed challenges use up their nonce
+    if (!await this.nonces.use(nonce, expiresAt)) {
+      throw new Error('Login challenge was already used');
+    }
+
+    const wallet: AuthenticatedWallet = { address, chain: proof.chain };
+    const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+    const token = await sign({ sub: address, chain: proof.chain, exp }, this.secret);
+
+    return { token, expiresAt: new Date(exp * 1000).toISOString(), wallet };
+  }
+
+  /**
+   * Verify a session token and return the wallet it belongs to
+   */
+  async verifySession(token: string): Promise<AuthenticatedWallet> {
+    const payload = await verify(token, this.secret);
+    // Other tokens signed with the same secret (e.g. shop quotes) carry an audience
+    if (payload.aud !== undefined) {
+      throw new Error('Not a session token');
+    }
+    return { address: payload.sub as string, chain: payload.chain as Chain };
+  }
+}
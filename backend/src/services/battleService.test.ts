@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { BATTLE_RULES, type BattleAction, type BattleLogEvent, createBattleRolls, judgeBattleLog } from './battleService';
+
+const SEEDS = Array.from({ length: 20 }, (_, index) => 1000 + index);
+
+/**
+ * Play a battle the way the client does when attacking at every cooldown,
+ * until a fighter is down
+ */
+function playBattle(seed: number): { log: BattleLogEvent[]; won: boolean } {
+  const roll = createBattleRolls(seed);
+  const next: Record<BattleAction, number> = { npc: BATTLE_RULES.npc.intervalMs, sword: 0, spell: 0 };
+  let playerHealth: number = BATTLE_RULES.playerHealth;
+  let npcHealth: number = BATTLE_RULES.npcHealth;
+  const log: BattleLogEvent[] = [];
+
+  while (playerHealth > 0 && npcHealth > 0) {
+    const action = (Object.keys(next) as BattleAction[]).reduce((first, action) => next[action] < next[first] ? action : first);
+    const t = next[action];
+    log.push({ t, action });
+
+    if (action === 'npc') {
+      playerHealth -= roll(action);
+      next.npc += BATTLE_RULES.npc.intervalMs;
+    } else {
+      npcHealth = Math.max(t < BATTLE_RULES.minBattleMs ? 1 : 0, npcHealth - roll(action));
+      next[action] += BATTLE_RULES[action].cooldownMs;
+    }
+  }
+
+  return { log, won: npcHealth <= 0 };
+}
+
+const elapsed = (log: BattleLogEvent[]) => log[log.length - 1].t;
+
+describe('judgeBattleLog', () => {
+  it('accepts battles played by the rules and judges them as the client did', () => {
+    for (const seed of SEEDS) {
+      const { log, won } = playBattle(seed);
+
+      expect(judgeBattleLog(seed, log, elapsed(log)).won).toBe(won);
+    }
+  });
+
+  it('never lets the NPC go down before minBattleMs', () => {
+    for (const seed of SEEDS) {
+      const { log, won } = playBattle(seed);
+
+      if (won) {
+        expect(elapsed(log)).toBeGreaterThanOrEqual(BATTLE_RULES.minBattleMs);
+      }
+    }
+  });
+
+  it('rejects empty and oversized logs', () => {
+    const { log } = playBattle(SEEDS[0]);
+    const tooLong = Array.from({ length: BATTLE_RULES.maxLogEvents + 1 }, (_, index) => ({ t: index * 1000, action: 'sword' as const }));
+
+    expect(() => judgeBattleLog(SEEDS[0], [], elapsed(log))).toThrow('Log must have 1 to');
+    expect(() => judgeBattleLog(SEEDS[0], tooLong, elapsed(tooLong))).toThrow('Log must have 1 to');
+  });
+
+  it('rejects events later than the battle has run', () => {
+    const { log } = playBattle(SEEDS[0]);
+
+    expect(() => judgeBattleLog(SEEDS[0], log, elapsed(log) - 1000)).toThrow('later than the battle has run');
+  });
+
+  it('rejects events out of order', () => {
+    const { log } = playBattle(SEEDS[0]);
+    const swapped = [...log.slice(0, 2), log[3], log[2], ...log.slice(4)];
+
+    expect(() => judgeBattleLog(SEEDS[0], swapped, elapsed(log))).toThrow('out of order');
+  });
+
+  it('rejects attacks made before their cooldown is over', () => {
+    const log: BattleLogEvent[] = [{ t: 0, action: 'sword' }, { t: BATTLE_RULES.sword.cooldownMs - 1, action: 'sword' }];
+
+    expect(() => judgeBattleLog(SEEDS[0], log, 1000)).toThrow('Event 1 (sword) comes before its cooldown is over');
+  });
+
+  it('rejects an NPC attacking faster than its timer', () => {
+    const log: BattleLogEvent[] = [{ t: 100, action: 'npc' }];
+
+    expect(() => judgeBattleLog(SEEDS[0], log, 1000)).toThrow('Event 0 (npc) comes before its cooldown is over');
+  });
+
+  it('rejects events after a fighter is down', () => {
+    const { log } = playBattle(SEEDS[0]);
+    const t = elapsed(log) + BATTLE_RULES.spell.cooldownMs;
+
+    expect(() => judgeBattleLog(SEEDS[0], [...log, { t, action: 'spell' }], t)).toThrow(`Event ${log.length} comes after the battle was over`);
+  });
+
+  it('rejects logs that end with both fighters standing', () => {
+    const { log } = playBattle(SEEDS[0]);
+
+    expect(() => judgeBattleLog(SEEDS[0], log.slice(0, -1), elapsed(log))).toThrow('Log ends before either fighter is down');
+  });
+
+  it('rejects logs that leave out NPC attacks', () => {
+    const won = SEEDS.map((seed) => ({ seed, ...playBattle(seed) })).find((battle) => battle.won)!;
+    const log = won.log.filter(({ action }) => action !== 'npc');
+
+    expect(() => judgeBattleLog(won.seed, log, elapsed(log))).toThrow('Log leaves out NPC attacks');
+  });
+
+  it('keeps the NPC standing until minBattleMs, however the player attacks', () => {
+    const log: BattleLogEvent[] = [];
+    for (let t = 0; t < BATTLE_RULES.minBattleMs; t += BATTLE_RULES.sword.cooldownMs) {
+      log.push({ t, action: 'sword' });
+      if (t % BATTLE_RULES.spell.cooldownMs === 0) {
+        log.push({ t, action: 'spell' });
+      }
+    }
+
+    for (const seed of SEEDS) {
+      expect(() => judgeBattleLog(seed, log, elapsed(log))).toThrow('Log ends before either fighter is down');
+    }
+  });
+});
@@ -0,0 +1,286 @@
+import { sign } from 'hono/jwt';
+import type { Battle, Storage } from '../storage';
+import type { AuthenticatedWallet, Bindings, Chain } from '../types';
+
+/** How long a player has to fight and submit the log */
+const BATTLE_TTL_SECONDS = 3 * 60;
+// The client starts its clock after ours, so this only covers clocks running at slightly different rates
+const CLOCK_SLACK_MS = 500;
+// Allowance for the game's NPC timer firing early
+const NPC_TIMER_SLACK_MS = 250;
+// Keeps session tokens and shop quotes, which share the secret, from passing as vouchers
+export const VOUCHER_AUDIENCE = 'velmora:battle-voucher';
+
+/** Winning a battle takes this much off the offer it was fought over */
+export const BATTLE_DISCOUNT_PERCENT = 30;
+
+const NPC_HEALTH = 150;
+const SWORD = { damage: [6, 12], cooldownMs: 800, hitChance: 0.6 } as const;
+const SPELL = { damage: [12, 20], cooldownMs: 4000, hitChance: 0.75 } as const;
+
+// Damage per millisecond an attack deals on average when made at every cooldown
+const expectedDamagePerMs = ({ damage: [min, max], cooldownMs, hitChance }: typeof SWORD | typeof SPELL) =>
+  hitChance * (min + max) / 2 / cooldownMs;
+
+/**
+ * How a battle is fought. The client plays by these and the server judges
+ * logs by them; damage ranges are inclusive, and `hitChance` is the share
+ * of attacks that land. Until `minBattleMs` has passed the NPC holds on at
+ * 1 HP at least: that is how long attacking at every cooldown takes to deal
+ * its health on average, so a lucky run of rolls can't cut the NPC's
+ * attacks short. Even attacking at every cooldown wins a bit under half of
+ * the battles.
+ */
+export const BATTLE_RULES = {
+  playerHealth: 100,
+  npcHealth: NPC_HEALTH,
+  sword: SWORD,
+  spell: SPELL,
+  npc: { damage: [10, 18], intervalMs: 1500, hitChance: 0.7 },
+  minBattleMs: Math.round(NPC_HEALTH / (expectedDamagePerMs(SWORD) + expectedDamagePerMs(SPELL))),
+  maxLogEvents: 500,
+} as const;
+
+export type BattleAction = 'sword' | 'spell' | 'npc';
+
+/**
+ * One swing in the client's log of a battle. Whether it lands is rolled, not logged.
+ */
+export interface BattleLogEvent {
+  /** Milliseconds since the battle started */
+  t: number;
+  action: BattleAction;
+}
+
+export type BattleErrorReason =
+  /** The offer is not the wallet's, or is no longer open */
+  | 'offer_unavailable'
+  /** The offer already had its battle */
+  | 'already_fought'
+  | 'battle_not_found'
+  | 'battle_expired'
+  | 'battle_finished'
+  /** The log breaks the rules; the battle is rejected */
+  | 'invalid_log';
+
+export class BattleError extends Error {
+  constructor(readonly reason: BattleErrorReason, message: string) {
+    super(message);
+    this.name = 'BattleError';
+  }
+}
+
+/**
+ * Claims of a discount voucher
+ */
+export interface BattleVoucher {
+  sub: string;
+  chain: Chain;
+  offerId: string;
+  battleId: string;
+  discountPercent: number;
+  aud: string;
+  exp: number;
+}
+
+export interface BattleResult {
+  won: boolean;
+  playerHealth: number;
+  npcHealth: number;
+}
+
+/**
+ * Seeded PRNG (mulberry32) that the rolls of a battle come from, so the
+ * client and server roll the same numbers
+ */
+export function createBattleRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Each action rolls from its own stream, so the order attacks are logged in
+// can't steer which rolls another action gets
+const ACTION_STREAMS: Record<BattleAction, number> = { sword: 0x5f3759df, spell: 0x9e3779b9, npc: 0x85ebca6b };
+
+/**
+ * Roll whether an attack lands and, if it does, its damage: the nth attack
+ * of an action always gets the nth rolls of that action's stream
+ */
+export function createBattleRolls(seed: number): (action: BattleAction) => number {
+  const streams = Object.fromEntries(
+    Object.entries(ACTION_STREAMS).map(([action, salt]) => [action, createBattleRng(seed ^ salt)]),
+  ) as Record<BattleAction, () => number>;
+
+  return (action) => {
+    const rng = streams[action];
+    const { hitChance, damage: [min, max] } = BATTLE_RULES[action];
+    return rng() < hitChance ? min + Math.floor(rng() * (max - min + 1)) : 0;
+  };
+}
+
+const invalidLog = (message: string) => new BattleError('invalid_log', message);
+
+/**
+ * Replay a battle log, rolling whether each attack lands and its damage
+ * from the seed, and check that it could have happened: timestamps within
+ * the time the battle has run, cooldowns and the NPC's attack timer
+ * respected, and nothing after a fighter went down. The log only says when
+ * each attack was made, so its outcome can't be chosen by the client, and
+ * the NPC can't go down before `minBattleMs`.
+ */
+export function judgeBattleLog(seed: number, log: BattleLogEvent[], elapsedMs: number): BattleResult {
+  if (log.length === 0 || log.length > BATTLE_RULES.maxLogEvents) {
+    throw invalidLog(`Log must have 1 to ${BATTLE_RULES.maxLogEvents} events`);
+  }
+
+  const roll = createBattleRolls(seed);
+  const last: Partial<Record<BattleAction, number>> = {};
+  let playerHealth: number = BATTLE_RULES.playerHealth;
+  let npcHealth: number = BATTLE_RULES.npcHealth;
+  let npcAttacks = 0;
+  let previousT = 0;
+
+  for (const [index, { t, action }] of log.entries()) {
+    if (t < previousT || t > elapsedMs + CLOCK_SLACK_MS) {
+      throw invalidLog(`Event ${index} is out of order or later than the battle has run`);
+    }
+    if (playerHealth <= 0 || npcHealth <= 0) {
+      throw invalidLog(`Event ${index} comes after the battle was over`);
+    }
+
+    const cooldown = action === 'npc'
+      ? BATTLE_RULES.npc.intervalMs - NPC_TIMER_SLACK_MS
+      : BATTLE_RULES[action].cooldownMs;
+    // The NPC's timer starts with the battle; the player may strike at once
+    const since = last[action] ?? (action === 'npc' ? 0 : -Infinity);
+    if (t - since < cooldown) {
+      throw invalidLog(`Event ${index} (${action}) comes before its cooldown is over`);
+    }
+    last[action] = t;
+    previousT = t;
+
+    if (action === 'npc') {
+      npcAttacks++;
+      playerHealth = Math.max(0, playerHealth - roll(action));
+    } else {
+      npcHealth = Math.max(t < BATTLE_RULES.minBattleMs ? 1 : 0, npcHealth - roll(action));
+    }
+  }
+
+  if (playerHealth > 0 && npcHealth > 0) {
+    throw invalidLog('Log ends before either fighter is down');
+  }
+  // Allow one tick lost to the timer starting late
+  if (npcAttacks < Math.floor(previousT / BATTLE_RULES.npc.intervalMs) - 1) {
+    throw invalidLog('Log leaves out NPC attacks');
+  }
+
+  return { won: npcHealth <= 0, playerHealth, npcHealth };
+}
+
+/**
+ * Battles against shop NPCs. The server starts each battle with the seed its
+ * hits and damage are rolled from; the client plays it and submits the log
+ * of when each attack was made, which the server replays with `judgeBattleLog`. A win earns a voucher signed with
+ * `AUTH_SECRET` for `BATTLE_DISCOUNT_PERCENT` off the offer the battle was
+ * fought over, bound to the wallet; since an offer can be bought once, so can
+ * its voucher. Each offer gets one battle, so a loss can't be retried.
+ */
+export class BattleService {
+  private secret: string;
+
+  constructor(private storage: Storage, env?: Bindings) {
+    if (!env?.AUTH_SECRET) {
+      throw new Error('AUTH_SECRET environment variable required to sign battle vouchers.');
+    }
+    this.secret = env.AUTH_SECRET;
+  }
+
+  /**
+   * Start a battle over one of the wallet's open offers
+   */
+  async start(wallet: AuthenticatedWallet, offerId: string): Promise<Battle> {
+    const offer = await this.storage.shopOffers.get(offerId);
+    if (
+      !offer
+      || offer.walletAddress !== wallet.address
+      || offer.chain !== wallet.chain
+      || offer.status !== 'open'
+      || Date.parse(offer.expiresAt) <= Date.now()
+    ) {
+      throw new BattleError('offer_unavailable', 'Offer is not open for this wallet');
+    }
+
+    const expiresAt = Math.min(Date.now() + BATTLE_TTL_SECONDS * 1000, Date.parse(offer.expiresAt));
+    const battle = await this.storage.battles.create({
+      walletAddress: wallet.address,
+      chain: wallet.chain,
+      offerId,
+      seed: crypto.getRandomValues(new Uint32Array(1))[0],
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+    if (!battle) {
+      throw new BattleError('already_fought', 'This offer has already been fought over');
+    }
+    return battle;
+  }
+
+  /**
+   * Judge the log of an active battle. Returns the finished battle, and a
+   * discount voucher if the player won.
+   */
+  async finish(wallet: AuthenticatedWallet, battleId: string, log: BattleLogEvent[]): Promise<{ battle: Battle; voucher?: string }> {
+    const battle = await this.storage.battles.get(battleId);
+    if (!battle || battle.walletAddress !== wallet.address || battle.chain !== wallet.chain) {
+      throw new BattleError('battle_not_found', 'Battle not found');
+    }
+    if (battle.status !== 'active') {
+      throw new BattleError('battle_finished', `Battle is already ${battle.status}`);
+    }
+    if (Date.parse(battle.expiresAt) <= Date.now()) {
+      throw new BattleError('battle_expired', 'Battle has expired');
+    }
+
+    let result: BattleResult;
+    try {
+      result = judgeBattleLog(battle.seed, log, Date.now() - Date.parse(battle.createdAt));
+    } catch (error) {
+      if (error instanceof BattleError) {
+        await this.storage.battles.update(battle.id, { status: 'rejected', error: error.message }, ['active']);
+      }
+      throw error;
+    }
+
+    const { won, playerHealth, npcHealth } = result;
+    const finished = await this.storage.battles.update(
+      battle.id,
+      { status: won ? 'won' : 'lost', playerHealth, npcHealth },
+      ['active'],
+    );
+    if (!finished) {
+      throw new BattleError('battle_finished', 'Battle was finished by another request');
+    }
+    if (!won) {
+      return { battle: finished };
+    }
+
+    // The voucher is only good while its offer is
+    const offer = await this.storage.shopOffers.get(battle.offerId);
+    const payload: BattleVoucher = {
+      sub: wallet.address,
+      chain: wallet.chain,
+      offerId: battle.offerId,
+      battleId: battle.id,
+      discountPercent: BATTLE_DISCOUNT_PERCENT,
+      aud: VOUCHER_AUDIENCE,
+      exp: Math.floor(Date.parse(offer?.expiresAt ?? battle.expiresAt) / 1000),
+    };
+    return { battle: finished, voucher: await sign({ ...payload }, this.secret) };
+  }
+}
@@ -0,0 +1,116 @@
+import type { ChainEvent, ChainEventPosition, ChainEventRepository, ChainEventType } from '../storage';
+import type { AptosService, CoAActivity } from './aptosService';
+import { formatEventPosition } from './eventIndexer';
+
+export type CoAHistoryType =
+  /** The new player reward */
+  | 'reward'
+  /** Minted by an admin */
+  | 'admin_mint'
+  /** Spent at the shop: a payment to it, or the shop burning what it took */
+  | 'purchase_burn'
+  | 'transfer_in'
+  | 'transfer_out';
+
+/**
+ * One change to an account's CoA balance
+ */
+export interface CoAHistoryItem extends ChainEventPosition {
+  type: CoAHistoryType;
+  direction: 'in' | 'out';
+  /** Whole CoA */
+  amount: number;
+  timestamp: string;
+}
+
+export interface CoAHistoryPage {
+  items: CoAHistoryItem[];
+  /** Pass as `before` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+// Indexed contract events that move CoA, and what each is in the history
+const EVENT_TYPES: Partial<Record<ChainEventType, Pick<CoAHistoryItem, 'type' | 'direction'>>> = {
+  'coa.player_login_reward': { type: 'reward', direction: 'in' },
+  'coa.mint': { type: 'admin_mint', direction: 'in' },
+  'coa.burn': { type: 'purchase_burn', direction: 'out' },
+};
+
+// Entry functions whose deposits and withdrawals are already covered by their contract event
+const EVENT_FUNCTIONS = ['coins_of_aura::mint', 'coins_of_aura::reward_new_player', 'coins_of_aura::burn'];
+
+const comparePositions = (a: ChainEventPosition, b: ChainEventPosition) =>
+  a.transactionVersion - b.transactionVersion || a.eventIndex - b.eventIndex;
+
+/**
+ * Builds the CoA history of an account from two sources: the indexed
+ * `MintEvent`, `BurnEvent` and `PlayerLoginReward` contract events, and the
+ * indexer's fungible asset deposits and withdrawals for everything else
+ * (transfers between players and payments to the shop). Both are read
+ * newest first from the same cursor and merged into one page.
+ */
+export class CoAHistoryService {
+  constructor(private events: ChainEventRepository, private aptosService: AptosService) {}
+
+  /**
+   * Get a page of an account's history, newest first. `address` must be normalized.
+   */
+  async list(address: string, before: ChainEventPosition | undefined, limit: number): Promise<CoAHistoryPage> {
+    const [events, activities] = await Promise.all([
+      this.events.list({ type: Object.keys(EVENT_TYPES) as ChainEventType[], address, before, limit }),
+      this.aptosService.getCoAActivities(address, before ?? null, limit, EVENT_FUNCTIONS),
+    ]);
+
+    const shopPayments = await this.findShopPayments(activities);
+    const merged = [
+      ...events.map(fromEvent),
+      ...activities.map((activity) => fromActivity(activity, shopPayments)),
+    ].sort((a, b) => comparePositions(b, a));
+
+    // Each source returned its newest `limit`, so the newest `limit` of both are complete
+    const items = merged.slice(0, limit);
+    const hasMore = merged.length > limit || events.length === limit || activities.length === limit;
+    return {
+      items,
+      nextCursor: hasMore && items.length > 0 ? formatEventPosition(items[items.length - 1]) : null,
+    };
+  }
+
+  /**
+   * Versions of the withdrawals that went to the shop
+   */
+  private async findShopPayments(activities: CoAActivity[]): Promise<Set<number>> {
+    let shop: string;
+    try {
+      shop = this.aptosService.getAdminAddress();
+    } catch {
+      // Without an admin key there is no shop to pay
+      return new Set();
+    }
+
+    const withdrawals = activities.filter((activity) => activity.kind === 'withdraw');
+    return this.aptosService.findCoADeposits(shop, withdrawals.map((activity) => activity.transactionVersion));
+  }
+}
+
+function fromEvent(event: ChainEvent): CoAHistoryItem {
+  return {
+    transactionVersion: event.transactionVersion,
+    eventIndex: event.eventIndex,
+    ...EVENT_TYPES[event.type]!,
+    amount: event.amount ?? 0,
+    timestamp: event.timestamp,
+  };
+}
+
+function fromActivity(activity: CoAActivity, shopPayments: Set<number>): CoAHistoryItem {
+  const incoming = activity.kind === 'deposit';
+  return {
+    transactionVersion: activity.transactionVersion,
+    eventIndex: activity.eventIndex,
+    type: incoming ? 'transfer_in' : shopPayments.has(activity.transactionVersion) ? 'purchase_burn' : 'transfer_out',
+    direction: incoming ? 'in' : 'out',
+    amount: activity.amount,
+    timestamp: activity.timestamp,
+  };
+}
@@ -0,0 +1,127 @@
+import type { ChainEvent, ChainEventPosition, Storage } from '../storage';
+import { normalizeAddress } from '../utils/address';
+import type { AptosService, ContractEvent } from './aptosService';
+
+// Events per indexer request, and requests per sync so one run stays short
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_SYNC = 10;
+
+/** CoA has 8 decimals */
+const COA_UNIT = Math.pow(10, 8);
+
+type Normalized = Pick<ChainEvent, 'type' | 'walletAddress' | 'fromAddress' | 'amount' | 'tokenName'>;
+
+const aptosAddress = (address: string) => normalizeAddress('aptos', address);
+const coaAmount = (amount: string) => Number(amount) / COA_UNIT;
+const tokenName = (data: any): string => data.token_id.token_data_id.name;
+
+/**
+ * How each indexed event maps onto a `ChainEvent`, keyed by `<module>::<struct>`
+ */
+const NORMALIZERS: Record<string, (data: any) => Normalized> = {
+  'coins_of_aura::MintEvent': (data) => ({
+    type: 'coa.mint',
+    walletAddress: aptosAddress(data.recipient),
+    amount: coaAmount(data.amount),
+  }),
+  'coins_of_aura::BurnEvent': (data) => ({
+    type: 'coa.burn',
+    walletAddress: aptosAddress(data.account),
+    amount: coaAmount(data.amount),
+  }),
+  'coins_of_aura::PlayerLoginReward': (data) => ({
+    type: 'coa.player_login_reward',
+    walletAddress: aptosAddress(data.player),
+    amount: coaAmount(data.amount),
+  }),
+  'velmora_nft::MintEvent': (data) => ({
+    type: 'nft.mint',
+    walletAddress: aptosAddress(data.owner),
+    tokenName: tokenName(data),
+  }),
+  'velmora_nft::TransferEvent': (data) => ({
+    type: 'nft.transfer',
+    walletAddress: aptosAddress(data.to),
+    fromAddress: aptosAddress(data.from),
+    tokenName: tokenName(data),
+  }),
+  'velmora_nft::BurnEvent': (data) => ({
+    type: 'nft.burn',
+    walletAddress: aptosAddress(data.owner),
+    tokenName: tokenName(data),
+  }),
+};
+
+export interface SyncSummary {
+  /** Events read from the indexer */
+  read: number;
+  /** Events that were not stored yet */
+  stored: number;
+  /** Position of the last event read, as `<transactionVersion>:<eventIndex>` */
+  checkpoint: string | null;
+  /** False when the run stopped early and there are more events to read */
+  caughtUp: boolean;
+}
+
+/** Format a position as the `<transactionVersion>:<eventIndex>` used by checkpoints and cursors */
+export const formatEventPosition = ({ transactionVersion, eventIndex }: ChainEventPosition) =>
+  `${transactionVersion}:${eventIndex}`;
+
+/** Parse a `<transactionVersion>:<eventIndex>` position */
+export function parseEventPosition(value: string): ChainEventPosition {
+  const [transactionVersion, eventIndex] = value.split(':').map(Number);
+  return { transactionVersion, eventIndex };
+}
+
+/**
+ * Copies `coins_of_aura` and `velmora_nft` events from the Aptos indexer into
+ * storage. Each sync resumes after a stored checkpoint, so events are read
+ * once and in order; storing is idempotent, so overlapping syncs are harmless.
+ */
+export class EventIndexer {
+  constructor(private storage: Storage, private aptosService: AptosService) {}
+
+  // One checkpoint per network and contract, so switching either starts over
+  private checkpointName(): string {
+    return `aptos-events:${this.aptosService.getNetwork().network}:${this.aptosService.getContractAddress()}`;
+  }
+
+  /**
+   * Read new events from the indexer and store them
+   */
+  async sync(): Promise<SyncSummary> {
+    const checkpointName = this.checkpointName();
+    const saved = await this.storage.checkpoints.get(checkpointName);
+    let after = saved ? parseEventPosition(saved) : null;
+    const summary: SyncSummary = { read: 0, stored: 0, checkpoint: saved, caughtUp: false };
+
+    for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+      const events = await this.aptosService.getContractEvents(Object.keys(NORMALIZERS), after, PAGE_SIZE);
+      if (events.length > 0) {
+        summary.read += events.length;
+        summary.stored += await this.storage.events.insert(events.map(toChainEvent));
+
+        after = events[events.length - 1];
+        summary.checkpoint = formatEventPosition(after);
+        await this.storage.checkpoints.set(checkpointName, summary.checkpoint);
+      }
+
+      if (events.length < PAGE_SIZE) {
+        summary.caughtUp = true;
+        break;
+      }
+    }
+
+    return summary;
+  }
+}
+
+function toChainEvent(event: ContractEvent): ChainEvent {
+  return {
+    transactionVersion: event.transactionVersion,
+    eventIndex: event.eventIndex,
+    ...NORMALIZERS[event.name](event.data),
+    data: event.data,
+    timestamp: new Date(Number(event.data.timestamp) * 1000).toISOString(),
+  };
+}
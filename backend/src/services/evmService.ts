@@ -1,3 +1,434 @@
+import { Contract, JsonRpcProvider, Network, type TransactionReceipt, formatUnits, parseUnits } from 'ethers';
+import { type EVMSigner, type SignerProvider, createEVMSigners } from '../signers';
+import type { Bindings, OwnedEVMNFT } from '../types';
+import { TransferScanCache } from './transferScanCache';
+
+const AURA_COINS_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function mint(address to, uint256 amount)',
+  'function burn(address account, uint256 amount)',
+];
+
+const NFT_ABI = [
+  'function totalSupply() view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function mintNFTfromID(uint256 metadataId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+];
+
+const SOULBOUND_ABI = [
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function mintNFT1(address to)',
+  'function mintNFT2(address to)',
+  'function mintNFT3(address to)',
+  'function mintNFT4(address to)',
+  'function mintNFT5(address to)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+];
+
+// Blocks of Transfer logs read per `eth_getLogs` call, and calls per holdings lookup
+const LOG_CHUNK_BLOCKS = 10_000;
+const MAX_LOG_CHUNKS = 20;
+
+// Plain decimal notation for parseUnits, which rejects exponents like "1e-7"
+const toDecimalString = (amount: number) =>
+  amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+
+/**
+ * NFTs found for an owner, and whether the lookup stopped short of the latest block
+ */
+export interface OwnedEVMNFTs {
+  nfts: OwnedEVMNFT[];
+  truncated: boolean;
+}
+
+/** Soulbound variants exposed by the contract as `mintNFT1` .. `mintNFT5`. */
+export const SOULBOUND_VARIANTS = [1, 2, 3, 4, 5] as const;
+export type SoulboundVariant = typeof SOULBOUND_VARIANTS[number];
+
 export class EVMService {
-  // Placeholder
+  private provider: JsonRpcProvider;
+  private signers: SignerProvider<EVMSigner> | null;
+  private tokenAddress: string;
+  private nftAddress: string;
+  private soulboundAddress: string;
+  private nftStartBlock: number | null;
+  private transferScans: TransferScanCache;
+  private tokenDecimals: number | null = null;
+
+  /**
+   * `signers` defaults to the ones configured in `env`; see `createEVMSigners`
+   */
+  constructor(env?: Bindings, signers?: SignerProvider<EVMSigner> | null) {
+    // Initialize Sepolia RPC provider
+    const network = Network.from('sepolia');
+    const rpcUrl = env?.EVM_RPC_URL || 'https://rpc.sepolia.org';
+    this.provider = new JsonRpcProvider(rpcUrl, network, {
+      staticNetwork: network,
+    });
+
+    this.signers = signers === undefined ? createEVMSigners(env, this.provider) : signers;
+
+    // Contract addresses (same deployments the game client uses)
+    this.tokenAddress = env?.EVM_TOKEN_CONTRACT_ADDRESS || '';
+    this.nftAddress = env?.EVM_NFT_CONTRACT_ADDRESS || '';
+    this.soulboundAddress = env?.EVM_SOULBOUND_CONTRACT_ADDRESS || '';
+    this.nftStartBlock = Number(env?.EVM_NFT_START_BLOCK) || null;
+    this.transferScans = TransferScanCache.for(rpcUrl);
+  }
+
+  // The contracts' owner, the only account that may mint and burn
+  private requireSigner(): EVMSigner {
+    if (!this.signers) {
+      throw new Error('EVM signer not initialized. EVM_PRIVATE_KEY or SIGNER_URL environment variable required.');
+    }
+    const signer = this.signers.primary;
+    return signer.provider ? signer : signer.connect(this.provider);
+  }
+
+  private tokenContract(withSigner = false): Contract {
+    if (!this.tokenAddress) {
+      throw new Error('EVM_TOKEN_CONTRACT_ADDRESS environment variable required.');
+    }
+    return new Contract(this.tokenAddress, AURA_COINS_ABI, withSigner ? this.requireSigner() : this.provider);
+  }
+
+  private nftContract(withSigner = false): Contract {
+    if (!this.nftAddress) {
+      throw new Error('EVM_NFT_CONTRACT_ADDRESS environment variable required.');
+    }
+    return new Contract(this.nftAddress, NFT_ABI, withSigner ? this.requireSigner() : this.provider);
+  }
+
+  private soulboundContract(withSigner = false): Contract {
+    if (!this.soulboundAddress) {
+      throw new Error('EVM_SOULBOUND_CONTRACT_ADDRESS environment variable required.');
+    }
+    return new Contract(this.soulboundAddress, SOULBOUND_ABI, withSigner ? this.requireSigner() : this.provider);
+  }
+
+  private async getTokenDecimals(): Promise<number> {
+    if (this.tokenDecimals === null) {
+      this.tokenDecimals = Number(await this.tokenContract().decimals());
+    }
+    return this.tokenDecimals;
+  }
+
+  /**
+   * Find the token ID minted to `to` in a transaction receipt
+   */
+  private findMintedTokenId(contract: Contract, receipt: TransactionReceipt, to: string): string {
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === 'Transfer' && parsed.args.to.toLowerCase() === to.toLowerCase()) {
+        return parsed.args.tokenId.toString();
+      }
+    }
+    throw new Error('Transfer event not found in mint receipt');
+  }
+
+  /**
+   * Get the address of the server signer
+   */
+  getSignerAddress(): string | null {
+    return this.signers?.primary.address ?? null;
+  }
+
+  /**
+   * Get the latest block number from the RPC provider
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  /**
+   * Get AuraCoins balance for a given address
+   */
+  async getTokenBalance(address: string): Promise<number> {
+    try {
+      const [rawBalance, decimals] = await Promise.all([
+        this.tokenContract().balanceOf(address),
+        this.getTokenDecimals(),
+      ]);
+
+      return Number(formatUnits(rawBalance, decimals));
+    } catch (error) {
+      console.error('Error fetching AuraCoins balance:', error);
+      throw new Error('Failed to fetch AuraCoins balance');
+    }
+  }
+
+  /**
+   * Get AuraCoins metadata
+   */
+  async getTokenMetadata(): Promise<any> {
+    try {
+      const [totalSupply, decimals] = await Promise.all([
+        this.tokenContract().totalSupply(),
+        this.getTokenDecimals(),
+      ]);
+
+      return {
+        name: 'AuraCoins',
+        symbol: 'CoA',
+        decimals,
+        totalSupply: Number(formatUnits(totalSupply, decimals)),
+        address: this.tokenAddress,
+      };
+    } catch (error) {
+      console.error('Error fetching AuraCoins metadata:', error);
+      throw new Error('Failed to fetch AuraCoins metadata');
+    }
+  }
+
+  /**
+   * Mint AuraCoins to a specific address (admin function)
+   */
+  async mintTokens(toAddress: string, amount: number): Promise<string> {
+    this.requireSigner();
+
+    try {
+      const decimals = await this.getTokenDecimals();
+      const tx = await this.tokenContract(true).mint(toAddress, parseUnits(toDecimalString(amount), decimals));
+      const receipt = await tx.wait();
+
+      return receipt.hash;
+    } catch (error) {
+      console.error('Error minting AuraCoins:', error);
+      throw new Error('Failed to mint AuraCoins');
+    }
+  }
+
+  /**
+   * Burn AuraCoins from a specific address (admin function)
+   */
+  async burnTokens(fromAddress: string, amount: number): Promise<string> {
+    this.requireSigner();
+
+    try {
+      const decimals = await this.getTokenDecimals();
+      const tx = await this.tokenContract(true).burn(fromAddress, parseUnits(toDecimalString(amount), decimals));
+      const receipt = await tx.wait();
+
+      return receipt.hash;
+    } catch (error) {
+      console.error('Error burning AuraCoins:', error);
+      throw new Error('Failed to burn AuraCoins');
+    }
+  }
+
+  /**
+   * Get the metadata URI of an AuraEyes NFT
+   */
+  async getTokenURI(tokenId: string): Promise<string> {
+    try {
+      return await this.nftContract().tokenURI(tokenId);
+    } catch (error) {
+      console.error(`Error fetching token URI for ${tokenId}:`, error);
+      throw new Error('Failed to fetch token URI');
+    }
+  }
+
+  /**
+   * Get the owner of an AuraEyes NFT
+   */
+  async getOwnerOf(tokenId: string): Promise<string> {
+    try {
+      return await this.nftContract().ownerOf(tokenId);
+    } catch (error) {
+      console.error(`Error fetching owner of ${tokenId}:`, error);
+      throw new Error('Failed to fetch token owner');
+    }
+  }
+
+  /**
+   * Get the number of AuraEyes NFTs minted so far
+   */
+  async getNFTTotalSupply(): Promise<number> {
+    try {
+      return Number(await this.nftContract().totalSupply());
+    } catch (error) {
+      console.error('Error fetching NFT total supply:', error);
+      throw new Error('Failed to fetch NFT total supply');
+    }
+  }
+
+  /**
+   * Check whether an AuraEyes metadata ID can still be minted. `_metadataToTokenId`
+   * is private, so this simulates `mintNFTfromID` as `from` (an EOA) and
+   * treats a revert as the ID being taken.
+   */
+  async isMetadataIdAvailable(metadataId: number, from: string): Promise<boolean> {
+    try {
+      await this.nftContract().mintNFTfromID.staticCall(metadataId, { from });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'CALL_EXCEPTION') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Mint an AuraEyes NFT for a metadata ID and hand it to a player.
+   * `mintNFTfromID` mints to the caller, so the server signer mints
+   * and then transfers the new token to `toAddress`.
+   */
+  async mintNFTFromId(toAddress: string, metadataId: number): Promise<{ transactionHash: string; tokenId: string }> {
+    const { tokenId } = await this.mintNFTToSigner(metadataId);
+    const transactionHash = await this.transferNFT(toAddress, tokenId);
+    return { transactionHash, tokenId };
+  }
+
+  /**
+   * Mint the AuraEyes NFT of a metadata ID to the server signer, which
+   * holds it until `transferNFT` hands it over
+   */
+  async mintNFTToSigner(metadataId: number): Promise<{ transactionHash: string; tokenId: string }> {
+    const signer = this.requireSigner();
+
+    try {
+      const contract = this.nftContract(true);
+      const tx = await contract.mintNFTfromID(metadataId);
+      const receipt = await tx.wait();
+
+      return {
+        transactionHash: receipt.hash,
+        tokenId: this.findMintedTokenId(contract, receipt, signer.address),
+      };
+    } catch (error) {
+      console.error(`Error minting NFT #${metadataId}:`, error);
+      throw new Error(`Failed to mint NFT #${metadataId}: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Transfer an AuraEyes NFT held by the server signer to a player
+   */
+  async transferNFT(toAddress: string, tokenId: string): Promise<string> {
+    const signer = this.requireSigner();
+
+    try {
+      const tx = await this.nftContract(true).safeTransferFrom(signer.address, toAddress, tokenId);
+      const receipt = await tx.wait();
+
+      return receipt.hash;
+    } catch (error) {
+      console.error(`Error transferring NFT ${tokenId}:`, error);
+      throw new Error(`Minted NFT ${tokenId} is held by the server; transferring it to ${toAddress} failed: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Mint one of the soulbound achievement NFTs (owner-only on the contract)
+   */
+  async mintSoulbound(toAddress: string, variant: SoulboundVariant): Promise<{ transactionHash: string; tokenId: string }> {
+    this.requireSigner();
+
+    try {
+      const contract = this.soulboundContract(true);
+      const tx = await contract[`mintNFT${variant}`](toAddress);
+      const receipt = await tx.wait();
+
+      return {
+        transactionHash: receipt.hash,
+        tokenId: this.findMintedTokenId(contract, receipt, toAddress),
+      };
+    } catch (error) {
+      console.error('Error minting soulbound NFT:', error);
+      throw new Error('Failed to mint soulbound NFT');
+    }
+  }
+
+  /**
+   * Get the metadata URI of a soulbound NFT
+   */
+  async getSoulboundTokenURI(tokenId: string): Promise<string> {
+    try {
+      return await this.soulboundContract().tokenURI(tokenId);
+    } catch (error) {
+      console.error(`Error fetching soulbound token URI for ${tokenId}:`, error);
+      throw new Error('Failed to fetch soulbound token URI');
+    }
+  }
+
+  /**
+   * Get the owner of a soulbound NFT
+   */
+  async getSoulboundOwnerOf(tokenId: string): Promise<string> {
+    try {
+      return await this.soulboundContract().ownerOf(tokenId);
+    } catch (error) {
+      console.error(`Error fetching soulbound owner of ${tokenId}:`, error);
+      throw new Error('Failed to fetch soulbound token owner');
+    }
+  }
+
+  /**
+   * List the AuraEyes NFTs an address holds. `truncated` when the lookup
+   * hasn't reached the latest block yet; see `findOwnedTokens`.
+   */
+  async getOwnedNFTs(owner: string): Promise<OwnedEVMNFTs> {
+    try {
+      return await this.findOwnedTokens(this.nftContract(), owner);
+    } catch (error) {
+      console.error(`Error listing NFTs of ${owner}:`, error);
+      throw new Error('Failed to list NFTs');
+    }
+  }
+
+  /**
+   * List the soulbound achievement NFTs an address holds
+   */
+  async getOwnedSoulbounds(owner: string): Promise<OwnedEVMNFTs> {
+    try {
+      return await this.findOwnedTokens(this.soulboundContract(), owner);
+    } catch (error) {
+      console.error(`Error listing soulbound NFTs of ${owner}:`, error);
+      throw new Error('Failed to list soulbound NFTs');
+    }
+  }
+
+  /**
+   * Neither contract is enumerable, so find every token ever transferred to
+   * `owner` since `EVM_NFT_START_BLOCK` and keep the ones it still owns.
+   * Logs are scanned in bounded chunks and the scan is cached, so a lookup
+   * only reads blocks no earlier lookup of the owner has; one that would
+   * read more than `MAX_LOG_CHUNKS` chunks is `truncated` and the next
+   * lookup carries on.
+   */
+  private async findOwnedTokens(contract: Contract, owner: string): Promise<OwnedEVMNFTs> {
+    if (this.nftStartBlock === null) {
+      throw new Error('EVM_NFT_START_BLOCK environment variable required to look up NFT holdings');
+    }
+
+    const contractAddress = await contract.getAddress();
+    const latestBlock = await this.provider.getBlockNumber();
+    const { tokenIds, truncated } = await this.transferScans.scan(
+      contractAddress,
+      owner,
+      { startBlock: this.nftStartBlock, latestBlock, chunkBlocks: LOG_CHUNK_BLOCKS, maxChunks: MAX_LOG_CHUNKS },
+      async (fromBlock, toBlock) => {
+        const logs = await contract.queryFilter(contract.filters.Transfer(null, owner), fromBlock, toBlock);
+        return logs.map((log) => contract.interface.parseLog(log)!.args.tokenId.toString() as string);
+      },
+    );
+
+    const owned = await Promise.all(tokenIds.map(async (tokenId): Promise<OwnedEVMNFT | null> => {
+      const currentOwner: string = await contract.ownerOf(tokenId);
+      if (currentOwner.toLowerCase() !== owner.toLowerCase()) return null;
+      return { tokenId, uri: await contract.tokenURI(tokenId) };
+    }));
+    return { nfts: owned.filter((nft): nft is OwnedEVMNFT => nft !== null), truncated };
+  }
 }
+
+// ethers errors carry a one-line `shortMessage`, e.g. the revert reason
+const describeError = (error: unknown): string =>
+  (error as { shortMessage?: string })?.shortMessage ?? (error instanceof Error ? error.message : String(error));
@@ -0,0 +1,136 @@
+import type { Storage } from '../storage';
+import type { Bindings } from '../types';
+import type { AptosNetworkConfig } from '../utils/aptosNetwork';
+import type { AptosService } from './aptosService';
+import type { EVMService } from './evmService';
+
+// A dependency slower than this counts as down
+const CHECK_TIMEOUT_MS = 5000;
+// Below this the admin signer can't be trusted to pay gas for rewards and mints
+const DEFAULT_SIGNER_MIN_BALANCE = 0.5;
+
+export type DependencyStatus =
+  | 'ok'
+  /** Unreachable, failing, or (for the signer) out of gas */
+  | 'down'
+  /** Not configured in this environment, so not checked */
+  | 'unconfigured';
+
+export type DependencyCheck<T extends object = {}> = {
+  status: DependencyStatus;
+  latencyMs: number;
+  error?: string;
+} & Partial<T>;
+
+export interface HealthReport {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  aptos: AptosNetworkConfig;
+  services: {
+    aptos: DependencyCheck<{ chainId: number; ledgerVersion: string }>;
+    evm: DependencyCheck<{ blockNumber: number }>;
+    database: DependencyCheck<{ kind: Storage['kind'] }>;
+    signer: DependencyCheck<{ address: string; balance: number; minBalance: number; sequenceNumber: string }>;
+    contracts: DependencyCheck<{ address: string; modules: Record<string, boolean> }>;
+  };
+}
+
+class UnconfiguredError extends Error {}
+
+/**
+ * Run one dependency check, timing it and turning failures into a `down`
+ * status. A check that returns an `error` is down but keeps its figures.
+ */
+async function runCheck<T extends object>(check: () => Promise<T & { error?: string }>): Promise<DependencyCheck<T>> {
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+    });
+    const result = await Promise.race([check(), timeout]);
+    return { status: result.error ? 'down' : 'ok', latencyMs: Date.now() - startedAt, ...result };
+  } catch (error) {
+    const status = error instanceof UnconfiguredError ? 'unconfigured' : 'down';
+    const message = error instanceof Error ? error.message : String(error);
+    return { status, latencyMs: Date.now() - startedAt, error: message } as DependencyCheck<T>;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Live diagnostics for `GET /health`: chain RPCs, the database, the admin
+ * signer's gas balance and the deployed contract modules. Any dependency that
+ * is down makes the whole report unhealthy.
+ */
+export class HealthService {
+  private signerMinBalance: number;
+
+  constructor(
+    private storage: Storage,
+    private aptosService: AptosService,
+    private evmService: EVMService,
+    env?: Bindings,
+  ) {
+    const minBalance = Number(env?.APTOS_SIGNER_MIN_BALANCE);
+    this.signerMinBalance = env?.APTOS_SIGNER_MIN_BALANCE && Number.isFinite(minBalance)
+      ? minBalance
+      : DEFAULT_SIGNER_MIN_BALANCE;
+  }
+
+  async check(): Promise<HealthReport> {
+    const [aptos, evm, database, signer, contracts] = await Promise.all([
+      runCheck(() => this.checkAptos()),
+      runCheck(async () => ({ blockNumber: await this.evmService.getBlockNumber() })),
+      runCheck(async () => {
+        await this.storage.ping();
+        return { kind: this.storage.kind };
+      }),
+      runCheck(() => this.checkSigner()),
+      runCheck(() => this.checkContracts()),
+    ]);
+
+    const services = { aptos, evm, database, signer, contracts };
+    const healthy = Object.values(services).every(({ status }) => status !== 'down');
+
+    return {
+      status: healthy ? 'healthy' : 'unhealthy',
+      timestamp: new Date().toISOString(),
+      aptos: this.aptosService.getNetwork(),
+      services,
+    };
+  }
+
+  private async checkAptos() {
+    const { chainId, ledgerVersion } = await this.aptosService.getLedgerInfo();
+    const expected = this.aptosService.getNetwork();
+    const error = expected.chainId !== null && chainId !== expected.chainId
+      ? `Fullnode is on chain ${chainId}, expected ${expected.chainId} for ${expected.network}`
+      : undefined;
+    return { chainId, ledgerVersion, error };
+  }
+
+  private async checkSigner() {
+    const account = await this.aptosService.getAdminAccountStatus();
+    if (!account) {
+      throw new UnconfiguredError('Neither APTOS_PRIVATE_KEY nor SIGNER_URL provided');
+    }
+
+    const minBalance = this.signerMinBalance;
+    const error = account.balance < minBalance
+      ? `Signer balance ${account.balance} APT is below the ${minBalance} APT minimum`
+      : undefined;
+    return { ...account, minBalance, error };
+  }
+
+  private async checkContracts() {
+    const contracts = await this.aptosService.getContractModules();
+    const missing = Object.entries(contracts.modules).filter(([, present]) => !present).map(([name]) => name);
+    const error = missing.length > 0
+      ? `Modules not published at ${contracts.address}: ${missing.join(', ')}`
+      : undefined;
+    return { ...contracts, error };
+  }
+}
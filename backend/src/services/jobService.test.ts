@@ -0,0 +1,121 @@
+import type { UserTransactionResponse } from '@aptos-labs/ts-sdk';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalAptosSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import { TransactionAbortedError, decodeVmStatus } from '../utils/vmStatus';
+import { AptosService } from './aptosService';
+import { JobService } from './jobService';
+
+const WALLET = createLocalAptosSigners().primary.accountAddress.toStringLong();
+const MINT = { toAddress: WALLET, amount: 10 };
+
+const committed = (hash: string, vmStatus = 'Executed successfully') =>
+  ({ hash, success: vmStatus === 'Executed successfully', vm_status: vmStatus }) as UserTransactionResponse;
+
+describe('JobService', () => {
+  let storage: MemoryStorage;
+  let aptosService: AptosService;
+  let jobs: JobService;
+  let submitted: number;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    aptosService = new AptosService(undefined, createLocalAptosSigners());
+    jobs = new JobService(storage, aptosService);
+    submitted = 0;
+
+    vi.spyOn(aptosService, 'submitMintCoA').mockImplementation(async () => `0x${++submitted}`);
+    vi.spyOn(aptosService, 'waitForTransaction').mockImplementation(async (hash) => committed(hash));
+    vi.spyOn(aptosService, 'hasExpired').mockResolvedValue(false);
+  });
+
+  // Created without running, as a queue consumer would get it
+  const queue = () => storage.jobs.create({ type: 'coa.mint', payload: MINT });
+
+  it('submits a queued job and records its committed transaction', async () => {
+    const job = await queue();
+
+    expect(await jobs.run(job.id)).toMatchObject({
+      status: 'committed',
+      transactionHash: '0x1',
+      attempts: 1,
+      vmStatus: 'Executed successfully',
+    });
+    expect(aptosService.submitMintCoA).toHaveBeenCalledWith(WALLET, 10);
+  });
+
+  it('submits a job once however many runs it gets', async () => {
+    const job = await queue();
+
+    await Promise.all([jobs.run(job.id), jobs.run(job.id), jobs.run(job.id)]);
+    await jobs.run(job.id);
+
+    expect(aptosService.submitMintCoA).toHaveBeenCalledTimes(1);
+    expect(await storage.jobs.get(job.id)).toMatchObject({ status: 'committed', attempts: 1 });
+  });
+
+  it('leaves a job in submitting alone', async () => {
+    const job = await queue();
+    await storage.jobs.update(job.id, { status: 'submitting' });
+
+    expect(await jobs.run(job.id)).toMatchObject({ status: 'submitting' });
+    expect(aptosService.submitMintCoA).not.toHaveBeenCalled();
+  });
+
+  it('fails a job whose transaction could not be submitted', async () => {
+    const status = decodeVmStatus('Move abort in 0x1::coins_of_aura: 0x10001');
+    vi.mocked(aptosService.submitMintCoA).mockRejectedValue(new TransactionAbortedError(status));
+    const job = await queue();
+
+    expect(await jobs.run(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'Only the CoA admin can do this',
+      vmStatus: status.vmStatus,
+      attempts: 1,
+    });
+  });
+
+  it('fails a job whose transaction committed unsuccessfully', async () => {
+    vi.mocked(aptosService.waitForTransaction).mockImplementation(async (hash) => committed(hash, 'Out of gas: OUT_OF_GAS'));
+    const job = await queue();
+
+    expect(await jobs.run(job.id)).toMatchObject({ status: 'failed', error: 'Transaction failed: The transaction ran out of gas' });
+  });
+
+  it('keeps a pending transaction submitted, and waits on it instead of resubmitting', async () => {
+    vi.mocked(aptosService.waitForTransaction).mockRejectedValueOnce(new Error('Timed out'));
+    const job = await queue();
+
+    await expect(jobs.run(job.id)).rejects.toThrow('Timed out');
+    expect(await storage.jobs.get(job.id)).toMatchObject({ status: 'submitted', transactionHash: '0x1' });
+
+    expect(await jobs.run(job.id)).toMatchObject({ status: 'committed', transactionHash: '0x1' });
+    expect(aptosService.submitMintCoA).toHaveBeenCalledTimes(1);
+  });
+
+  it('resubmits an expired transaction', async () => {
+    vi.mocked(aptosService.waitForTransaction).mockRejectedValueOnce(new Error('Timed out'));
+    vi.mocked(aptosService.hasExpired).mockResolvedValueOnce(true);
+    const job = await queue();
+
+    expect(await jobs.run(job.id)).toMatchObject({ status: 'committed', transactionHash: '0x2', attempts: 2 });
+  });
+
+  it('gives up after the last attempt expires', async () => {
+    vi.mocked(aptosService.waitForTransaction).mockRejectedValue(new Error('Timed out'));
+    vi.mocked(aptosService.hasExpired).mockResolvedValue(true);
+    const job = await queue();
+
+    expect(await jobs.run(job.id)).toMatchObject({ status: 'failed', error: 'Transaction expired without committing', attempts: 3 });
+    expect(aptosService.submitMintCoA).toHaveBeenCalledTimes(3);
+  });
+
+  it('settles a submitted job whose transaction has since committed', async () => {
+    vi.spyOn(aptosService, 'getCommittedTransaction').mockResolvedValueOnce(null).mockImplementation(async (hash) => committed(hash));
+    const job = await queue();
+    await storage.jobs.update(job.id, { status: 'submitted', transactionHash: '0x9', attempts: 1 });
+
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'submitted' });
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'committed' });
+  });
+});
@@ -0,0 +1,196 @@
+import type { UserTransactionResponse } from '@aptos-labs/ts-sdk';
+import type { Job, Storage } from '../storage';
+import type { Bindings, JobMessage } from '../types';
+import { TransactionAbortedError, decodeVmStatus } from '../utils/vmStatus';
+import type { AptosService } from './aptosService';
+import { RewardService } from './rewardService';
+
+/**
+ * Payload of each job type
+ */
+export interface JobPayloads {
+  'coa.reward_new_player': { walletAddress: string };
+  'coa.mint': { toAddress: string; amount: number };
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * Submits the transaction for a job, and optionally records its outcome
+ * somewhere else (e.g. the reward ledger)
+ */
+interface JobHandler<T extends JobType> {
+  /**
+   * Submit the transaction and return its hash. `expiredTransactionHash` is
+   * set when resubmitting after the previous transaction expired.
+   */
+  submit(payload: JobPayloads[T], expiredTransactionHash?: string): Promise<string>;
+  /** The account whose CoA balance the transaction changes */
+  account(payload: JobPayloads[T]): string;
+  settle?(payload: JobPayloads[T], transaction: UserTransactionResponse): Promise<unknown>;
+}
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+const MAX_JOB_ATTEMPTS = 3;
+
+/**
+ * Runs admin-signed Aptos transactions outside the HTTP request. Jobs are
+ * delivered through the `JOB_QUEUE` Cloudflare Queue when it is bound, and
+ * run in-process (kept alive with `waitUntil`) otherwise.
+ */
+export class JobService {
+  private handlers: { [T in JobType]: JobHandler<T> };
+
+  constructor(private storage: Storage, private aptosService: AptosService, private env?: Bindings) {
+    const rewardService = new RewardService(storage.rewards, storage.events, aptosService);
+
+    this.handlers = {
+      'coa.reward_new_player': {
+        submit: ({ walletAddress }, expiredTransactionHash) =>
+          rewardService.submitNewPlayer(walletAddress, expiredTransactionHash),
+        account: ({ walletAddress }) => walletAddress,
+        settle: ({ walletAddress }, transaction) => rewardService.settleNewPlayer(walletAddress, transaction),
+      },
+      'coa.mint': {
+        submit: ({ toAddress, amount }) => aptosService.submitMintCoA(toAddress, amount),
+        account: ({ toAddress }) => toAddress,
+      },
+    };
+  }
+
+  /**
+   * Create a job and hand it to the queue, or start it in the background
+   */
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], waitUntil?: WaitUntil): Promise<Job> {
+    const job = await this.storage.jobs.create({ type, payload });
+
+    if (this.env?.JOB_QUEUE) {
+      await this.env.JOB_QUEUE.send({ jobId: job.id });
+    } else {
+      const run = this.run(job.id).catch((error) => {
+        console.error(`Job ${job.id} did not finish:`, error);
+      });
+      waitUntil?.(run);
+    }
+
+    return job;
+  }
+
+  /**
+   * Submit a queued job and wait for its transaction to commit. Only the
+   * runner that moves the job to `submitting` submits it, and jobs that
+   * already have a transaction are only waited on, so concurrent runs and
+   * redelivered messages never submit twice; a transaction that expired
+   * without committing is submitted again, up to `MAX_JOB_ATTEMPTS`. Throws
+   * if the transaction is still pending after the wait; the job stays
+   * `submitted` and can be run again later.
+   */
+  async run(jobId: string): Promise<Job | null> {
+    let job = await this.storage.jobs.get(jobId);
+    if (!job || job.status === 'submitting' || job.status === 'committed' || job.status === 'failed') {
+      return job;
+    }
+
+    const handler = this.handler(job);
+    let expiredTransactionHash: string | undefined;
+
+    for (;;) {
+      if (!job.transactionHash || expiredTransactionHash) {
+        const claimed = await this.storage.jobs.update(job.id, { status: 'submitting' }, [job.status]);
+        if (!claimed) {
+          // Another run is submitting it
+          return this.storage.jobs.get(job.id);
+        }
+        if (claimed.transactionHash !== job.transactionHash) {
+          // Another run already resubmitted the expired transaction; wait for that one
+          job = (await this.storage.jobs.update(job.id, { status: 'submitted' }))!;
+          expiredTransactionHash = undefined;
+          continue;
+        }
+
+        try {
+          const transactionHash = await handler.submit(job.payload, expiredTransactionHash);
+          job = (await this.storage.jobs.update(job.id, {
+            status: 'submitted',
+            transactionHash,
+            attempts: job.attempts + 1,
+          }))!;
+        } catch (error: any) {
+          console.error(`Job ${job.id} (${job.type}) failed to submit:`, error);
+          return this.storage.jobs.update(job.id, {
+            status: 'failed',
+            error: error.message,
+            attempts: job.attempts + 1,
+            ...(error instanceof TransactionAbortedError && { vmStatus: error.status.vmStatus }),
+          });
+        }
+      }
+
+      try {
+        const transaction = await this.aptosService.waitForTransaction(job.transactionHash!);
+        return this.complete(job, transaction);
+      } catch (error) {
+        // `updatedAt` was set when the transaction was submitted
+        const expired = await this.aptosService.hasExpired(job.transactionHash!, Date.parse(job.updatedAt));
+        if (!expired) throw error;
+        if (job.attempts >= MAX_JOB_ATTEMPTS) {
+          return this.storage.jobs.update(job.id, { status: 'failed', error: 'Transaction expired without committing' });
+        }
+
+        console.warn(`Job ${job.id} transaction ${job.transactionHash} expired, resubmitting`);
+        expiredTransactionHash = job.transactionHash;
+      }
+    }
+  }
+
+  /**
+   * Get a job, first settling it if its transaction has committed since it was last checked
+   */
+  async get(jobId: string): Promise<Job | null> {
+    const job = await this.storage.jobs.get(jobId);
+    if (job?.status !== 'submitted' || !job.transactionHash) {
+      return job;
+    }
+
+    const transaction = await this.aptosService.getCommittedTransaction(job.transactionHash);
+    return transaction ? this.complete(job, transaction) : job;
+  }
+
+  private async complete(job: Job, transaction: UserTransactionResponse): Promise<Job | null> {
+    const handler = this.handler(job);
+    if (transaction.success) {
+      this.aptosService.invalidateAccount(handler.account(job.payload));
+    }
+    await handler.settle?.(job.payload, transaction);
+    return this.storage.jobs.update(job.id, {
+      status: transaction.success ? 'committed' : 'failed',
+      vmStatus: transaction.vm_status,
+      ...(!transaction.success && { error: `Transaction failed: ${decodeVmStatus(transaction.vm_status).reason}` }),
+    });
+  }
+
+  private handler(job: Job): JobHandler<any> {
+    const handler = this.handlers[job.type as JobType];
+    if (!handler) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+    return handler;
+  }
+}
+
+/**
+ * Consume a batch of `JOB_QUEUE` messages. Messages whose transaction is
+ * still pending are retried by the queue.
+ */
+export async function consumeJobBatch(batch: MessageBatch<JobMessage>, jobService: JobService): Promise<void> {
+  for (const message of batch.messages) {
+    try {
+      await jobService.run(message.body.jobId);
+      message.ack();
+    } catch (error) {
+      console.error(`Job ${message.body.jobId} will be retried:`, error);
+      message.retry();
+    }
+  }
+}
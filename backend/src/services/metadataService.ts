@@ -0,0 +1,131 @@
+import type { Bindings, NFTMetadata } from '../types';
+import { DEFAULT_IPFS_GATEWAYS, DEFAULT_METADATA_BASE_URI, fetchNFTMetadata } from '../utils/nftMetadata';
+
+// IPFS content never changes, so entries only expire to bound KV usage
+const KV_TTL_SECS = 7 * 24 * 60 * 60;
+const KV_KEY_PREFIX = 'nft-metadata:';
+// The in-memory cache drops its oldest entries past this size
+const MEMORY_CACHE_SIZE = 2000;
+
+/**
+ * Validated metadata JSON and the ETag it is served with
+ */
+export interface CachedMetadata {
+  metadata: NFTMetadata;
+  etag: string;
+}
+
+interface MetadataCache {
+  get(uri: string): Promise<CachedMetadata | null>;
+  put(uri: string, entry: CachedMetadata): Promise<void>;
+}
+
+class KVMetadataCache implements MetadataCache {
+  constructor(private kv: KVNamespace) {}
+
+  async get(uri: string): Promise<CachedMetadata | null> {
+    return this.kv.get<CachedMetadata>(KV_KEY_PREFIX + uri, 'json');
+  }
+
+  async put(uri: string, entry: CachedMetadata): Promise<void> {
+    await this.kv.put(KV_KEY_PREFIX + uri, JSON.stringify(entry), { expirationTtl: KV_TTL_SECS });
+  }
+}
+
+class MemoryMetadataCache implements MetadataCache {
+  private entries = new Map<string, CachedMetadata>();
+
+  async get(uri: string): Promise<CachedMetadata | null> {
+    return this.entries.get(uri) ?? null;
+  }
+
+  async put(uri: string, entry: CachedMetadata): Promise<void> {
+    this.entries.delete(uri);
+    this.entries.set(uri, entry);
+    if (this.entries.size > MEMORY_CACHE_SIZE) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// Shared so that cached metadata survives across requests handled by the same isolate / process
+const memoryCache = new MemoryMetadataCache();
+
+/**
+ * Strong ETag of a metadata document
+ */
+export async function computeETag(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(value)));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+function parseGateways(value: string | undefined): string[] {
+  const gateways = value?.split(',').map((gateway) => gateway.trim()).filter(Boolean) ?? [];
+  return gateways.length > 0 ? gateways.map(withTrailingSlash) : DEFAULT_IPFS_GATEWAYS;
+}
+
+/**
+ * Resolves NFT metadata through the configured IPFS gateways and caches the
+ * validated JSON, in the `METADATA_CACHE` KV namespace when it is bound and
+ * in memory otherwise. Failures are not cached, so a gateway outage only
+ * lasts as long as the outage.
+ */
+export class MetadataService {
+  private cache: MetadataCache;
+  private gateways: string[];
+  private baseUri: string;
+
+  constructor(env?: Bindings) {
+    this.cache = env?.METADATA_CACHE ? new KVMetadataCache(env.METADATA_CACHE) : memoryCache;
+    this.gateways = parseGateways(env?.IPFS_GATEWAYS);
+    this.baseUri = withTrailingSlash(env?.NFT_METADATA_BASE_URI || DEFAULT_METADATA_BASE_URI);
+  }
+
+  /**
+   * URI of the metadata JSON for a metadata ID
+   */
+  getMetadataUri(metadataId: number): string {
+    return `${this.baseUri}${metadataId}.json`;
+  }
+
+  /**
+   * Get the metadata a token URI points at, from the cache when possible
+   */
+  async getByUri(uri: string): Promise<CachedMetadata> {
+    const cached = await this.cache.get(uri);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await fetchNFTMetadata(uri, this.gateways);
+    const entry = { metadata, etag: await computeETag(metadata) };
+    await this.cache.put(uri, entry);
+    return entry;
+  }
+
+  /**
+   * Get the metadata of a metadata ID
+   */
+  async getById(metadataId: number): Promise<CachedMetadata> {
+    return this.getByUri(this.getMetadataUri(metadataId));
+  }
+
+  /**
+   * Get the metadata of several token URIs at once; a URI that can't be
+   * resolved maps to null instead of failing the others
+   */
+  async getManyByUri(uris: string[]): Promise<Map<string, CachedMetadata | null>> {
+    const entries = await Promise.all(uris.map(async (uri) => {
+      try {
+        return [uri, await this.getByUri(uri)] as const;
+      } catch (error) {
+        console.error(error);
+        return [uri, null] as const;
+      }
+    }));
+    return new Map(entries);
+  }
+}
@@ -0,0 +1,71 @@
+import type { PlayerRepository, PlayerUpdate } from '../storage';
+import type { PlayerProfile, PlayerProgress } from '../types';
+
+/** Most XP and gold a player can earn per hour of play */
+const MAX_XP_PER_HOUR = 1500;
+const MAX_GOLD_PER_HOUR = 2000;
+
+// XP it takes to reach `level`, on GameScene's curve: 20 XP for level 2, then 1.5x per level
+const xpForLevel = (level: number) => 40 * (Math.pow(1.5, level - 1) - 1);
+
+/**
+ * The highest level and XP within `maxXp` earned in total
+ */
+function capLevel({ level, xp }: Pick<PlayerProgress, 'level' | 'xp'>, maxXp: number): Pick<PlayerProgress, 'level' | 'xp'> {
+  if (xpForLevel(level) + xp <= maxXp) {
+    return { level, xp };
+  }
+  let capped = 1;
+  while (xpForLevel(capped + 1) <= maxXp) capped++;
+  return { level: capped, xp: Math.floor(maxXp - xpForLevel(capped)) };
+}
+
+export class PlayerService {
+  constructor(private players: PlayerRepository) {}
+
+  /**
+   * Get a player profile, or null if the wallet has never played
+   */
+  async getProfile(walletAddress: string): Promise<PlayerProfile | null> {
+    return this.players.get(walletAddress);
+  }
+
+  /**
+   * Create or overwrite fields of a player profile, unchecked
+   */
+  async upsertProfile(walletAddress: string, update: PlayerUpdate): Promise<PlayerProfile> {
+    return this.players.upsert(walletAddress, update);
+  }
+
+  /**
+   * Merge progress reported by the game client into the stored profile.
+   * Progress never goes backwards, so a freshly restarted scene (level 1, 0 XP)
+   * cannot wipe out what the player already earned. It can't get ahead of the
+   * profile's age either: XP and gold beyond what could be earned since the
+   * profile was created are dropped, so edited progress only goes so far.
+   */
+  async syncProgress(walletAddress: string, progress: PlayerProgress): Promise<PlayerProfile> {
+    const current = await this.getProfile(walletAddress);
+    // A new profile starts at nothing; the allowance only grows with its age
+    const hours = current?.createdAt ? Math.max(0, Date.now() - Date.parse(current.createdAt)) / 3_600_000 : 0;
+    const reported = capLevel(progress, MAX_XP_PER_HOUR * hours);
+    const reportedGold = Math.min(progress.gold, Math.floor(MAX_GOLD_PER_HOUR * hours));
+    if (!current) {
+      return this.upsertProfile(walletAddress, { ...reported, gold: reportedGold });
+    }
+
+    let { level, xp } = current;
+    if (reported.level > current.level) {
+      level = reported.level;
+      xp = reported.xp;
+    } else if (reported.level === current.level) {
+      xp = Math.max(current.xp, reported.xp);
+    }
+
+    return this.upsertProfile(walletAddress, {
+      level,
+      xp,
+      gold: Math.max(current.gold, reportedGold),
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import type { Chain } from '../types';
+import { detectAddressChain } from '../utils/address';
+import type { AptosService } from './aptosService';
+import type { EVMService } from './evmService';
+
+// Velmora NFTs read per indexer page, and listed per Aptos account at most
+const APTOS_NFT_PAGE_SIZE = 50;
+const MAX_APTOS_NFTS = 100;
+
+export type PortfolioSource = 'coa' | 'apt' | 'velmora_nfts' | 'aura_coins' | 'aura_eyes' | 'soulbound';
+
+export type PortfolioAsset = 'CoA' | 'APT' | 'AuraCoins';
+
+export type NFTCollection = 'velmora' | 'aura_eyes' | 'soulbound';
+
+export interface PortfolioBalance {
+  asset: PortfolioAsset;
+  amount: number;
+  decimals: number;
+  source: PortfolioSource;
+}
+
+/**
+ * An NFT of any of the game's collections, on either chain
+ */
+export interface PortfolioNFT {
+  collection: NFTCollection;
+  /** Aptos token data ID, or EVM token ID */
+  tokenId: string;
+  uri: string;
+  source: PortfolioSource;
+  /** Velmora only: on-chain attributes, rarity a percentage */
+  metadataId?: number | null;
+  rarity?: number;
+  skill?: number;
+}
+
+/**
+ * How one read for an account went. A failed source leaves its balances or
+ * NFTs out of the account; the rest are still returned.
+ */
+export interface SourceStatus {
+  source: PortfolioSource;
+  status: 'ok' | 'error';
+  /** When the read finished; Aptos view results may come from the view cache */
+  fetchedAt: string;
+  error?: string;
+  /**
+   * Only some of the account's NFTs were listed: more Velmora NFTs than are
+   * listed, or an EVM log scan that hasn't caught up yet (ask again)
+   */
+  truncated?: boolean;
+}
+
+export interface AccountPortfolio {
+  address: string;
+  chain: Chain;
+  balances: PortfolioBalance[];
+  nfts: PortfolioNFT[];
+  sources: SourceStatus[];
+}
+
+export interface Portfolio {
+  accounts: AccountPortfolio[];
+  /** Some source of some account failed */
+  partial: boolean;
+  generatedAt: string;
+}
+
+interface SourceRead {
+  source: PortfolioSource;
+  read: () => Promise<{ balances?: PortfolioBalance[]; nfts?: PortfolioNFT[]; truncated?: boolean }>;
+}
+
+/**
+ * Reads every balance and NFT holding of a set of EVM and Aptos addresses
+ * at once: CoA, APT and Velmora NFTs on Aptos; AuraCoins, AuraEyes and
+ * soulbound NFTs on EVM. Each source is read independently, so one failing
+ * RPC or indexer only marks its own source as failed.
+ */
+export class PortfolioService {
+  constructor(private aptosService: AptosService, private evmService: EVMService) {}
+
+  /**
+   * Get the portfolio of each address; addresses must be normalized
+   */
+  async get(addresses: string[]): Promise<Portfolio> {
+    const accounts = await Promise.all(addresses.map((address) => this.getAccount(address)));
+    return {
+      accounts,
+      partial: accounts.some((account) => account.sources.some((source) => source.status === 'error')),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async getAccount(address: string): Promise<AccountPortfolio> {
+    const chain = detectAddressChain(address);
+    const reads = chain === 'aptos' ? this.aptosReads(address) : this.evmReads(address);
+    const account: AccountPortfolio = { address, chain, balances: [], nfts: [], sources: [] };
+
+    const results = await Promise.all(reads.map(async ({ source, read }) => {
+      try {
+        const result = await read();
+        const status: SourceStatus = { source, status: 'ok', fetchedAt: new Date().toISOString() };
+        return { result, status: result.truncated ? { ...status, truncated: true } : status };
+      } catch (error: any) {
+        const status: SourceStatus = { source, status: 'error', fetchedAt: new Date().toISOString(), error: error.message };
+        return { result: {}, status };
+      }
+    }));
+
+    for (const { result, status } of results) {
+      account.balances.push(...result.balances ?? []);
+      account.nfts.push(...result.nfts ?? []);
+      account.sources.push(status);
+    }
+    return account;
+  }
+
+  private aptosReads(address: string): SourceRead[] {
+    return [
+      {
+        source: 'coa',
+        read: async () => ({
+          balances: [{ asset: 'CoA', amount: await this.aptosService.getCoABalance(address), decimals: 8, source: 'coa' }],
+        }),
+      },
+      {
+        source: 'apt',
+        read: async () => ({
+          balances: [{ asset: 'APT', amount: await this.aptosService.getAPTBalance(address), decimals: 8, source: 'apt' }],
+        }),
+      },
+      {
+        source: 'velmora_nfts',
+        read: async () => {
+          const nfts: PortfolioNFT[] = [];
+          let total = Infinity;
+          while (nfts.length < Math.min(total, MAX_APTOS_NFTS)) {
+            const page = await this.aptosService.getVelmoraNFTs(address, { offset: nfts.length, limit: APTOS_NFT_PAGE_SIZE });
+            total = page.total;
+            if (page.nfts.length === 0) break;
+            nfts.push(...page.nfts.map((nft): PortfolioNFT => ({
+              collection: 'velmora',
+              tokenId: nft.tokenDataId,
+              uri: nft.uri,
+              source: 'velmora_nfts',
+              metadataId: nft.metadataId,
+              rarity: nft.rarity,
+              skill: nft.skill,
+            })));
+          }
+          return { nfts: nfts.slice(0, MAX_APTOS_NFTS), truncated: total > MAX_APTOS_NFTS };
+        },
+      },
+    ];
+  }
+
+  private evmReads(address: string): SourceRead[] {
+    return [
+      {
+        source: 'aura_coins',
+        read: async () => ({
+          balances: [{ asset: 'AuraCoins', amount: await this.evmService.getTokenBalance(address), decimals: 18, source: 'aura_coins' }],
+        }),
+      },
+      {
+        source: 'aura_eyes',
+        read: async () => {
+          const { nfts, truncated } = await this.evmService.getOwnedNFTs(address);
+          return { nfts: nfts.map((nft) => ({ collection: 'aura_eyes', source: 'aura_eyes', ...nft })), truncated };
+        },
+      },
+      {
+        source: 'soulbound',
+        read: async () => {
+          const { nfts, truncated } = await this.evmService.getOwnedSoulbounds(address);
+          return { nfts: nfts.map((nft) => ({ collection: 'soulbound', source: 'soulbound', ...nft })), truncated };
+        },
+      },
+    ];
+  }
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalAptosSigners, createLocalEVMSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import { MAX_METADATA_ID } from '../utils/nftMetadata';
+import { AptosService } from './aptosService';
+import { EVMService } from './evmService';
+import { DEFAULT_PRICING_CONFIG, PricingConfigError, PricingService } from './pricingService';
+
+const COMMON = { rarity: 1, skill: 0 };
+const RAREST = { rarity: 0.0001, skill: 100 };
+
+describe('PricingService', () => {
+  let storage: MemoryStorage;
+  let aptosService: AptosService;
+  let evmService: EVMService;
+  let pricing: PricingService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    aptosService = new AptosService(undefined, createLocalAptosSigners());
+    evmService = new EVMService(undefined, createLocalEVMSigners());
+    pricing = new PricingService(storage, aptosService, evmService);
+    vi.spyOn(aptosService, 'getAvailableNFTCount').mockResolvedValue(MAX_METADATA_ID);
+    vi.spyOn(evmService, 'getNFTTotalSupply').mockResolvedValue(0);
+  });
+
+  // Offers reserve their metadata ID, so each sale takes the next one
+  async function sell(count: number): Promise<void> {
+    for (let sold = 0; sold < count; sold++) {
+      const offer = await storage.shopOffers.reserve({
+        walletAddress: '0xplayer',
+        chain: 'aptos',
+        metadataId: await storage.shopOffers.countPurchasedSince('aptos', '') + 1,
+        price: 250,
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      });
+      await storage.shopOffers.update(offer!.id, { status: 'purchased' });
+    }
+  }
+
+  it('prices the most common, weakest NFT of an untouched collection at the base price', async () => {
+    const quote = await pricing.quote('aptos', COMMON);
+
+    expect(quote).toMatchObject({
+      price: DEFAULT_PRICING_CONFIG.basePrice,
+      factors: { rarity: 1, skill: 1, scarcity: 1, demand: 1 },
+      availableSupply: MAX_METADATA_ID,
+      recentSales: 0,
+    });
+  });
+
+  it('keeps prices within the floor and ceiling', async () => {
+    vi.mocked(aptosService.getAvailableNFTCount).mockResolvedValue(0);
+    await sell(DEFAULT_PRICING_CONFIG.demand.target);
+
+    expect((await pricing.quote('aptos', RAREST)).price).toBe(DEFAULT_PRICING_CONFIG.ceiling);
+
+    await pricing.updateConfig({ basePrice: 10 });
+    expect((await pricing.quote('aptos', COMMON)).price).toBe(DEFAULT_PRICING_CONFIG.floor);
+  });
+
+  it('bounds each factor whatever the metadata says', async () => {
+    const { factors } = await pricing.quote('aptos', { rarity: 0, skill: 1000 });
+    const { factors: negative } = await pricing.quote('aptos', { rarity: 5, skill: -10 });
+
+    expect(factors).toMatchObject({ rarity: 2.5, skill: 1.3 });
+    expect(negative).toMatchObject({ rarity: 1, skill: 1 });
+  });
+
+  it('scores scarcity from what is left on each chain', async () => {
+    vi.mocked(aptosService.getAvailableNFTCount).mockResolvedValue(MAX_METADATA_ID / 2);
+    vi.mocked(evmService.getNFTTotalSupply).mockResolvedValue(MAX_METADATA_ID + 5);
+
+    expect((await pricing.quote('aptos', COMMON)).factors.scarcity).toBe(1.25);
+    expect(await pricing.quote('evm', COMMON)).toMatchObject({ availableSupply: 0, factors: { scarcity: 1.5 } });
+  });
+
+  it('scores demand from recent sales on the chain, up to the target', async () => {
+    await sell(DEFAULT_PRICING_CONFIG.demand.target / 2);
+
+    expect((await pricing.quote('aptos', COMMON)).factors.demand).toBe(1.125);
+    expect((await pricing.quote('evm', COMMON)).factors.demand).toBe(1);
+
+    await sell(DEFAULT_PRICING_CONFIG.demand.target * 2);
+    expect((await pricing.quote('aptos', COMMON)).factors.demand).toBe(1.25);
+  });
+
+  it('ignores demand when its target is 0', async () => {
+    await sell(1);
+    await pricing.updateConfig({ demand: { target: 0 } });
+
+    expect((await pricing.quote('aptos', COMMON)).factors.demand).toBe(1);
+  });
+
+  it('keeps the fields a config patch leaves out', async () => {
+    const config = await pricing.updateConfig({ rarity: { weight: 3 } });
+
+    expect(config.rarity).toEqual({ weight: 3, exponent: DEFAULT_PRICING_CONFIG.rarity.exponent });
+    expect(await pricing.getConfig()).toEqual(config);
+  });
+
+  it('rejects a floor above the ceiling', async () => {
+    await expect(pricing.updateConfig({ floor: 2000 })).rejects.toThrow(PricingConfigError);
+    expect(await pricing.getConfig()).toEqual(DEFAULT_PRICING_CONFIG);
+  });
+});
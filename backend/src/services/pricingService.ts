@@ -0,0 +1,165 @@
+import type { Storage } from '../storage';
+import type { Chain, NFTMetadata } from '../types';
+import { MAX_METADATA_ID } from '../utils/nftMetadata';
+import type { AptosService } from './aptosService';
+import type { EVMService } from './evmService';
+
+const CONFIG_SETTING = 'shop-pricing';
+// Rarities below this are priced as this rare, so a 0 doesn't price at infinity
+const MIN_RARITY = 0.0001;
+// Skill scores are out of this
+const MAX_SKILL = 100;
+
+/**
+ * Admin-tunable shape of the price curve. Each factor multiplies the base
+ * price by `1 + weight * score`, where the score runs from 0 to 1.
+ */
+export interface PricingConfig {
+  /** Price in whole CoA / AuraCoins of the most common, weakest NFT */
+  basePrice: number;
+  rarity: {
+    weight: number;
+    /** Above 1 saves the premium for the rarest NFTs; below 1 spreads it out */
+    exponent: number;
+  };
+  skill: { weight: number };
+  /** Scores how much of the collection has been minted */
+  scarcity: { weight: number };
+  demand: {
+    weight: number;
+    /** Sales on the chain within this many hours count as recent */
+    windowHours: number;
+    /** Recent sales at which demand scores 1 */
+    target: number;
+  };
+  /** No NFT sells below this price... */
+  floor: number;
+  /** ...or above this one */
+  ceiling: number;
+}
+
+export type PricingConfigPatch = Partial<Omit<PricingConfig, 'rarity' | 'skill' | 'scarcity' | 'demand'>> & {
+  rarity?: Partial<PricingConfig['rarity']>;
+  skill?: Partial<PricingConfig['skill']>;
+  scarcity?: Partial<PricingConfig['scarcity']>;
+  demand?: Partial<PricingConfig['demand']>;
+};
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  basePrice: 250,
+  rarity: { weight: 1.5, exponent: 1 },
+  skill: { weight: 0.3 },
+  scarcity: { weight: 0.5 },
+  demand: { weight: 0.25, windowHours: 24, target: 20 },
+  floor: 100,
+  ceiling: 1500,
+};
+
+/**
+ * A price and the multipliers it was built from
+ */
+export interface PriceQuote {
+  price: number;
+  basePrice: number;
+  factors: { rarity: number; skill: number; scarcity: number; demand: number };
+  floor: number;
+  ceiling: number;
+  /** Metadata IDs left to mint on the chain */
+  availableSupply: number;
+  /** Sales on the chain within the demand window */
+  recentSales: number;
+}
+
+export class PricingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingConfigError';
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Score rarity (a fraction; lower is rarer) on a log scale, so that 1 in
+ * 10 000 scores 1 and something everybody has scores 0
+ */
+function rarityScore(rarity: number): number {
+  return -Math.log10(clamp(rarity, MIN_RARITY, 1)) / -Math.log10(MIN_RARITY);
+}
+
+/**
+ * Prices shop NFTs from their metadata `rarity` and `skill`, how much of the
+ * collection is left (`get_available_count` on Aptos, total supply on EVM)
+ * and how many NFTs the shop sold recently, within the admin's floor and
+ * ceiling. The curve is stored as a setting so admins can tune it live.
+ */
+export class PricingService {
+  constructor(private storage: Storage, private aptosService: AptosService, private evmService: EVMService) {}
+
+  async getConfig(): Promise<PricingConfig> {
+    const saved = await this.storage.settings.get<PricingConfigPatch>(CONFIG_SETTING);
+    return mergeConfig(DEFAULT_PRICING_CONFIG, saved ?? {});
+  }
+
+  /**
+   * Change part of the curve; fields left out keep their current value
+   */
+  async updateConfig(patch: PricingConfigPatch): Promise<PricingConfig> {
+    const config = mergeConfig(await this.getConfig(), patch);
+    if (config.floor > config.ceiling) {
+      throw new PricingConfigError(`floor (${config.floor}) must not be above ceiling (${config.ceiling})`);
+    }
+
+    await this.storage.settings.set(CONFIG_SETTING, config);
+    return config;
+  }
+
+  private async getAvailableSupply(chain: Chain): Promise<number> {
+    if (chain === 'aptos') {
+      return this.aptosService.getAvailableNFTCount();
+    }
+    return Math.max(MAX_METADATA_ID - await this.evmService.getNFTTotalSupply(), 0);
+  }
+
+  /**
+   * Price an NFT for sale on a chain
+   */
+  async quote(chain: Chain, metadata: Pick<NFTMetadata, 'rarity' | 'skill'>): Promise<PriceQuote> {
+    const config = await this.getConfig();
+    const since = new Date(Date.now() - config.demand.windowHours * 60 * 60 * 1000).toISOString();
+    const [availableSupply, recentSales] = await Promise.all([
+      this.getAvailableSupply(chain),
+      this.storage.shopOffers.countPurchasedSince(chain, since),
+    ]);
+
+    const factors = {
+      rarity: round(1 + config.rarity.weight * Math.pow(rarityScore(metadata.rarity), config.rarity.exponent)),
+      skill: round(1 + config.skill.weight * clamp(metadata.skill / MAX_SKILL, 0, 1)),
+      scarcity: round(1 + config.scarcity.weight * clamp(1 - availableSupply / MAX_METADATA_ID, 0, 1)),
+      demand: round(1 + config.demand.weight * (config.demand.target > 0 ? Math.min(recentSales / config.demand.target, 1) : 0)),
+    };
+    const price = Object.values(factors).reduce((price, factor) => price * factor, config.basePrice);
+
+    return {
+      price: Math.round(clamp(price, config.floor, config.ceiling)),
+      basePrice: config.basePrice,
+      factors,
+      floor: config.floor,
+      ceiling: config.ceiling,
+      availableSupply,
+      recentSales,
+    };
+  }
+}
+
+function mergeConfig(config: PricingConfig, patch: PricingConfigPatch): PricingConfig {
+  return {
+    ...config,
+    ...patch,
+    rarity: { ...config.rarity, ...patch.rarity },
+    skill: { ...config.skill, ...patch.skill },
+    scarcity: { ...config.scarcity, ...patch.scarcity },
+    demand: { ...config.demand, ...patch.demand },
+  };
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalAptosSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import { AptosService } from './aptosService';
+import { NEW_PLAYER_REWARD, RewardService } from './rewardService';
+
+const WALLET = createLocalAptosSigners().primary.accountAddress.toStringLong();
+
+describe('RewardService.claimNewPlayer', () => {
+  let storage: MemoryStorage;
+  let aptosService: AptosService;
+  let rewards: RewardService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    aptosService = new AptosService(undefined, createLocalAptosSigners());
+    rewards = new RewardService(storage.rewards, storage.events, aptosService);
+  });
+
+  it('claims the reward once per wallet', async () => {
+    const first = await rewards.claimNewPlayer(WALLET, 'key-1');
+    const second = await rewards.claimNewPlayer(WALLET, 'key-2');
+
+    expect(first.outcome).toBe('claimed');
+    expect(first.entry).toMatchObject({ walletAddress: WALLET, amount: NEW_PLAYER_REWARD.amount, status: 'pending' });
+    expect(second).toEqual({ outcome: 'already_rewarded', entry: first.entry });
+  });
+
+  it('replays a retry with the same idempotency key', async () => {
+    const first = await rewards.claimNewPlayer(WALLET, 'key-1');
+
+    expect(await rewards.claimNewPlayer(WALLET, 'key-1')).toEqual({ outcome: 'replayed', entry: first.entry });
+  });
+
+  it('does not replay claims made without an idempotency key', async () => {
+    await rewards.claimNewPlayer(WALLET);
+
+    expect((await rewards.claimNewPlayer(WALLET)).outcome).toBe('already_rewarded');
+  });
+
+  it('lets only one of several concurrent claims through', async () => {
+    const results = await Promise.all(['a', 'b', 'c'].map((key) => rewards.claimNewPlayer(WALLET, key)));
+
+    expect(results.filter(({ outcome }) => outcome === 'claimed')).toHaveLength(1);
+  });
+
+  it('claims a failed payout again, once', async () => {
+    await rewards.claimNewPlayer(WALLET, 'key-1');
+    await storage.rewards.update(WALLET, NEW_PLAYER_REWARD.type, { status: 'failed', transactionHash: '0x1', error: 'boom' });
+
+    const results = await Promise.all(['key-2', 'key-3'].map((key) => rewards.claimNewPlayer(WALLET, key)));
+
+    expect(results.map(({ outcome }) => outcome).sort()).toEqual(['already_rewarded', 'claimed']);
+    const { entry } = results.find(({ outcome }) => outcome === 'claimed')!;
+    expect(entry.status).toBe('pending');
+    expect(entry.transactionHash).toBeFalsy();
+  });
+
+  it('submits a claimed payout once', async () => {
+    const submit = vi.spyOn(aptosService, 'submitRewardNewPlayer').mockResolvedValue('0xabc');
+    await rewards.claimNewPlayer(WALLET, 'key-1');
+
+    expect(await rewards.submitNewPlayer(WALLET)).toBe('0xabc');
+    expect(await rewards.submitNewPlayer(WALLET)).toBe('0xabc');
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(await storage.rewards.get(WALLET, NEW_PLAYER_REWARD.type)).toMatchObject({ status: 'submitted', transactionHash: '0xabc' });
+  });
+});
@@ -0,0 +1,230 @@
+import type { UserTransactionResponse } from '@aptos-labs/ts-sdk';
+import type { ChainEventRepository, RewardLedgerEntry, RewardLedgerRepository, RewardLedgerUpdate } from '../storage';
+import type { MintedAptosNFT } from '../types';
+import type { AptosService } from './aptosService';
+
+/** One-time CoA grant paid by `coins_of_aura::reward_new_player` */
+export const NEW_PLAYER_REWARD = { type: 'new_player', amount: 650 } as const;
+
+/** One-time random Velmora NFT minted by `POST /aptos/mint` to a player's own wallet */
+export const STARTER_NFT_REWARD = { type: 'starter_nft', amount: 1 } as const;
+
+// Well past `ADMIN_TRANSACTION_TTL_SECS`: an entry this old with nothing
+// committed on chain can be treated as never paid.
+const STALE_ENTRY_MS = 5 * 60 * 1000;
+
+export type RewardOutcome =
+  /** This request claimed the reward; the payout still has to be submitted */
+  | 'claimed'
+  /** A retry of an earlier request with the same idempotency key */
+  | 'replayed'
+  /** The wallet was already claimed by a different request */
+  | 'already_rewarded';
+
+export interface RewardClaimResult {
+  outcome: RewardOutcome;
+  entry: RewardLedgerEntry;
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  confirmed: number;
+  rejected: number;
+  failed: number;
+  unchanged: number;
+}
+
+/**
+ * Pays the new player reward at most once per wallet. Every payout goes
+ * through the reward ledger, whose unique (wallet, reward type) entry is
+ * claimed before anything is submitted on chain. The payout itself runs as a
+ * `coa.reward_new_player` job. Indexed `PlayerLoginReward` events are the
+ * record of what was actually paid.
+ */
+export class RewardService {
+  constructor(
+    private rewards: RewardLedgerRepository,
+    private events: ChainEventRepository,
+    private aptosService: AptosService,
+  ) {}
+
+  /**
+   * Claim the new player reward for a wallet. `walletAddress` must be normalized.
+   */
+  async claimNewPlayer(walletAddress: string, idempotencyKey?: string): Promise<RewardClaimResult> {
+    const { type, amount } = NEW_PLAYER_REWARD;
+    const { entry, created } = await this.rewards.claim({ walletAddress, rewardType: type, amount, idempotencyKey });
+    if (created) {
+      return { outcome: 'claimed', entry };
+    }
+
+    if (entry.status !== 'failed') {
+      const replayed = idempotencyKey !== undefined && entry.idempotencyKey === idempotencyKey;
+      return { outcome: replayed ? 'replayed' : 'already_rewarded', entry };
+    }
+
+    // Retry a failed payout; only one of several concurrent retries gets the entry back
+    const reclaimed = await this.rewards.update(
+      walletAddress,
+      type,
+      { status: 'pending', idempotencyKey, transactionHash: '', error: '' },
+      ['failed'],
+    );
+    if (!reclaimed) {
+      return { outcome: 'already_rewarded', entry: (await this.rewards.get(walletAddress, type))! };
+    }
+    return { outcome: 'claimed', entry: reclaimed };
+  }
+
+  /**
+   * Remember which job pays out a claimed reward
+   */
+  async attachJob(walletAddress: string, jobId: string): Promise<void> {
+    await this.rewards.update(walletAddress, NEW_PLAYER_REWARD.type, { jobId });
+  }
+
+  /**
+   * Submit the payout for a claimed reward and return its transaction hash.
+   * Safe to call again for the same wallet: once a transaction is recorded
+   * it is returned instead of submitting another one, unless it is the
+   * `expiredTransactionHash` being replaced.
+   */
+  async submitNewPlayer(walletAddress: string, expiredTransactionHash?: string): Promise<string> {
+    const entry = await this.rewards.get(walletAddress, NEW_PLAYER_REWARD.type);
+    if (!entry) {
+      throw new Error(`No new player reward claimed for ${walletAddress}`);
+    }
+
+    const replacing = expiredTransactionHash !== undefined && entry.transactionHash === expiredTransactionHash;
+    if (entry.transactionHash && !replacing) {
+      return entry.transactionHash;
+    }
+    if (entry.status !== (replacing ? 'submitted' : 'pending')) {
+      throw new Error(`New player reward for ${walletAddress} is already ${entry.status}`);
+    }
+
+    try {
+      // Wallets rewarded before the ledger existed are settled from their on-chain event
+      const transactionHash = await this.findPaidTransaction(walletAddress)
+        ?? await this.aptosService.submitRewardNewPlayer(walletAddress);
+      await this.record(entry, { status: 'submitted', transactionHash });
+      return transactionHash;
+    } catch (error: any) {
+      await this.record(entry, { status: 'failed', error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Mint a wallet's starter NFT, or return null if it was already minted
+   * (or is being minted). A failed mint can be claimed again.
+   * `walletAddress` must be normalized.
+   */
+  async mintStarterNFT(walletAddress: string): Promise<MintedAptosNFT | null> {
+    const { type, amount } = STARTER_NFT_REWARD;
+    const { entry, created } = await this.rewards.claim({ walletAddress, rewardType: type, amount });
+    let claimed: RewardLedgerEntry | null = created ? entry : null;
+    if (!created && entry.status === 'failed') {
+      // Only one of several concurrent retries gets the entry back
+      claimed = await this.rewards.update(walletAddress, type, { status: 'pending', transactionHash: '', error: '' }, ['failed']);
+    }
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      const nft = await this.aptosService.mintRandomNFT(walletAddress);
+      await this.record(claimed, { status: 'confirmed', transactionHash: nft.transactionHash });
+      return nft;
+    } catch (error: any) {
+      await this.record(claimed, { status: 'failed', error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the committed payout transaction of a wallet's reward
+   */
+  async settleNewPlayer(walletAddress: string, transaction: UserTransactionResponse): Promise<RewardLedgerEntry | null> {
+    const entry = await this.rewards.get(walletAddress, NEW_PLAYER_REWARD.type);
+    return entry && this.settle(entry, transaction);
+  }
+
+  /**
+   * Record the committed outcome of a reward transaction
+   */
+  private settle(entry: RewardLedgerEntry, transaction: UserTransactionResponse): Promise<RewardLedgerEntry> {
+    if (!transaction.success) {
+      return this.record(entry, { status: 'failed', error: `Transaction failed: ${transaction.vm_status}` });
+    }
+    if (!this.aptosService.hasPlayerLoginReward(transaction, entry.walletAddress)) {
+      return this.record(entry, {
+        status: 'rejected',
+        error: 'reward_new_player paid nothing because the player already holds CoA',
+      });
+    }
+    // Also reached by `reconcile`, which may see the payout commit before its job does
+    this.aptosService.invalidateAccount(entry.walletAddress);
+    return this.record(entry, { status: 'confirmed', transactionHash: transaction.hash });
+  }
+
+  /**
+   * Find the transaction that paid the new player reward to a wallet from the
+   * indexed `PlayerLoginReward` events, or null if there is none
+   */
+  private async findPaidTransaction(walletAddress: string): Promise<string | null> {
+    const [event] = await this.events.list({ type: 'coa.player_login_reward', address: walletAddress, limit: 1 });
+    return event ? this.aptosService.getTransactionHash(event.transactionVersion) : null;
+  }
+
+  private async record(entry: RewardLedgerEntry, update: RewardLedgerUpdate): Promise<RewardLedgerEntry> {
+    return (await this.rewards.update(entry.walletAddress, entry.rewardType, update)) ?? { ...entry, ...update };
+  }
+
+  /**
+   * Settle pending and submitted new player rewards against the chain: committed
+   * transactions are checked for their `PlayerLoginReward` event, and stale
+   * entries without one are confirmed from indexed events or marked failed.
+   */
+  async reconcile(limit = 50): Promise<ReconcileSummary> {
+    const entries = await this.rewards.listByStatus(NEW_PLAYER_REWARD.type, ['pending', 'submitted'], limit);
+    const summary: ReconcileSummary = { checked: entries.length, confirmed: 0, rejected: 0, failed: 0, unchanged: 0 };
+
+    for (const entry of entries) {
+      let settled: RewardLedgerEntry | null = null;
+      try {
+        settled = await this.reconcileEntry(entry);
+      } catch (error) {
+        console.error(`Failed to reconcile reward for ${entry.walletAddress}:`, error);
+      }
+
+      if (!settled || settled.status === entry.status) {
+        summary.unchanged++;
+      } else if (settled.status === 'confirmed' || settled.status === 'rejected' || settled.status === 'failed') {
+        summary[settled.status]++;
+      }
+    }
+
+    return summary;
+  }
+
+  private async reconcileEntry(entry: RewardLedgerEntry): Promise<RewardLedgerEntry | null> {
+    if (entry.transactionHash) {
+      const transaction = await this.aptosService.getCommittedTransaction(entry.transactionHash);
+      if (transaction) {
+        return this.settle(entry, transaction);
+      }
+    }
+
+    // Possibly still in flight
+    if (Date.now() - Date.parse(entry.updatedAt) < STALE_ENTRY_MS) {
+      return null;
+    }
+
+    const paidIn = await this.findPaidTransaction(entry.walletAddress);
+    if (paidIn) {
+      return this.record(entry, { status: 'confirmed', transactionHash: paidIn });
+    }
+    return this.record(entry, { status: 'failed', error: 'Reward transaction never committed' });
+  }
+}
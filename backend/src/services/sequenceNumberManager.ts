@@ -0,0 +1,127 @@
+import type { AccountAddress, Aptos } from '@aptos-labs/ts-sdk';
+
+// Numbers handed out ahead of the chain before allocation waits for commits
+const MAX_IN_FLIGHT = 50;
+const POLL_INTERVAL_MS = 500;
+// Longer than an admin transaction's lifetime, so anything still in flight
+// after this has expired and the on-chain number can be trusted
+const MAX_WAIT_MS = 35_000;
+
+const SEQUENCE_CONFLICTS = ['SEQUENCE_NUMBER_TOO_OLD', 'SEQUENCE_NUMBER_TOO_NEW', 'invalid_transaction_update'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Check whether a submission failed because its sequence number was already
+ * used or is ahead of the account (e.g. another request or process got there first)
+ */
+export function isSequenceNumberConflict(error: any): boolean {
+  const details = `${error?.message ?? ''} ${error?.data?.error_code ?? ''} ${error?.data?.message ?? ''}`;
+  return SEQUENCE_CONFLICTS.some((conflict) => details.includes(conflict));
+}
+
+/**
+ * Hands out sequence numbers for one signer, so concurrent admin transactions
+ * never build with the same number. One manager is shared per signer and
+ * network within the isolate / process.
+ */
+export class SequenceNumberManager {
+  private static managers = new Map<string, SequenceNumberManager>();
+
+  /**
+   * Get the shared manager for a signer
+   */
+  static for(aptos: Aptos, address: AccountAddress): SequenceNumberManager {
+    const key = `${aptos.config.fullnode ?? aptos.config.network}:${address.toStringLong()}`;
+    let manager = this.managers.get(key);
+    if (!manager) {
+      manager = new SequenceNumberManager(aptos, address);
+      this.managers.set(key, manager);
+    }
+    return manager;
+  }
+
+  // Next number to hand out, and the account's sequence number as last read from chain
+  private next: bigint | null = null;
+  private onChain: bigint | null = null;
+  private stale = false;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private constructor(private aptos: Aptos, private address: AccountAddress) {}
+
+  /**
+   * Allocate the next sequence number
+   */
+  allocate(): Promise<bigint> {
+    return this.exclusive(async () => {
+      if (this.next === null) {
+        this.next = await this.fetchOnChain();
+      } else if (this.stale) {
+        await this.resynchronize();
+      }
+
+      if (this.next - this.onChain! >= MAX_IN_FLIGHT) {
+        await this.waitForOnChain((onChain) => this.next! - onChain < MAX_IN_FLIGHT);
+        // Still stuck: those transactions expired, so their numbers are free again
+        if (this.next - this.onChain! >= MAX_IN_FLIGHT) {
+          this.next = this.onChain!;
+        }
+      }
+
+      return this.next++;
+    });
+  }
+
+  /**
+   * Give back a number whose transaction was never submitted. If later
+   * numbers are already out, the gap is closed by resyncing instead.
+   */
+  release(sequenceNumber: bigint): void {
+    if (this.next === sequenceNumber + 1n) {
+      this.next = sequenceNumber;
+    } else {
+      this.resync();
+    }
+  }
+
+  /**
+   * Re-read the sequence number from chain before the next allocation,
+   * after a conflict or an expired transaction
+   */
+  resync(): void {
+    this.stale = true;
+  }
+
+  private async resynchronize(): Promise<void> {
+    // Let in-flight transactions commit (or expire) so their numbers aren't reused
+    await this.waitForOnChain((onChain) => onChain >= this.next!);
+    this.next = this.onChain;
+    this.stale = false;
+  }
+
+  private async fetchOnChain(): Promise<bigint> {
+    const { sequence_number } = await this.aptos.getAccountInfo({ accountAddress: this.address });
+    this.onChain = BigInt(sequence_number);
+    return this.onChain;
+  }
+
+  /**
+   * Poll the on-chain sequence number until `done` or `MAX_WAIT_MS`
+   */
+  private async waitForOnChain(done: (onChain: bigint) => boolean): Promise<void> {
+    const deadline = Date.now() + MAX_WAIT_MS;
+    while (!done(await this.fetchOnChain())) {
+      if (Date.now() >= deadline) {
+        console.warn(`Gave up waiting for transactions from ${this.address.toString()} to commit; resyncing`);
+        return;
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => {});
+    return run;
+  }
+}
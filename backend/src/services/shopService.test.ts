@@ -0,0 +1,207 @@
+import { sign } from 'hono/jwt';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalAptosSigners, createLocalEVMSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import type { AuthenticatedWallet, Bindings, NFTMetadata } from '../types';
+import { AptosService, type SimulationResult } from './aptosService';
+import { BATTLE_DISCOUNT_PERCENT, type BattleVoucher, VOUCHER_AUDIENCE } from './battleService';
+import { EVMService } from './evmService';
+import { MetadataService } from './metadataService';
+import { PricingService } from './pricingService';
+import { ShopError, type ShopErrorReason, type ShopQuote, ShopService } from './shopService';
+
+const ENV = { AUTH_SECRET: 'test-secret' } as Bindings;
+const EVM_WALLET: AuthenticatedWallet = { chain: 'evm', address: createLocalEVMSigners().primary.address.toLowerCase() };
+const APTOS_WALLET: AuthenticatedWallet = { chain: 'aptos', address: createLocalAptosSigners().primary.accountAddress.toStringLong() };
+const METADATA = { rarity: 0.5, skill: 50 } as NFTMetadata;
+
+describe('ShopService', () => {
+  let storage: MemoryStorage;
+  let aptosService: AptosService;
+  let evmService: EVMService;
+  let shop: ShopService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    aptosService = new AptosService(undefined, createLocalAptosSigners());
+    evmService = new EVMService(undefined, createLocalEVMSigners());
+    const metadataService = new MetadataService();
+    shop = new ShopService(
+      storage.shopOffers,
+      aptosService,
+      evmService,
+      metadataService,
+      new PricingService(storage, aptosService, evmService),
+      ENV,
+    );
+
+    vi.spyOn(metadataService, 'getById').mockResolvedValue({ metadata: METADATA, etag: '' });
+    vi.spyOn(evmService, 'getNFTTotalSupply').mockResolvedValue(0);
+    vi.spyOn(evmService, 'isMetadataIdAvailable').mockResolvedValue(true);
+    vi.spyOn(evmService, 'getTokenBalance').mockResolvedValue(10_000);
+    vi.spyOn(evmService, 'burnTokens').mockResolvedValue('0xburn');
+    vi.spyOn(evmService, 'mintNFTToSigner').mockResolvedValue({ transactionHash: '0xmint', tokenId: '7' });
+    vi.spyOn(evmService, 'transferNFT').mockResolvedValue('0xtransfer');
+    vi.spyOn(aptosService, 'getAvailableNFTCount').mockResolvedValue(1000);
+    vi.spyOn(aptosService, 'isMetadataIdUsed').mockResolvedValue(false);
+    vi.spyOn(aptosService, 'getCoATransfer').mockResolvedValue({
+      from: APTOS_WALLET.address,
+      to: aptosService.getAdminAddress(),
+      amount: 10_000,
+    });
+    vi.spyOn(aptosService, 'simulateMintFromMetadataId').mockResolvedValue({ success: true, vmStatus: 'Executed successfully' } as SimulationResult);
+    vi.spyOn(aptosService, 'mintFromMetadataId').mockImplementation(async (owner, metadataId, rarity, skill) => ({
+      transactionHash: '0xaptosmint',
+      owner,
+      tokenName: `Aura Eye #${metadataId}`,
+      metadataId,
+      rarity,
+      skill,
+    }));
+  });
+
+  async function rejection(purchase: Promise<unknown>, reason: ShopErrorReason): Promise<void> {
+    const error = await purchase.catch((error) => error);
+    expect(error).toBeInstanceOf(ShopError);
+    expect((error as ShopError).reason).toBe(reason);
+  }
+
+  function voucher(quote: ShopQuote, claims: Partial<BattleVoucher> = {}, secret = ENV.AUTH_SECRET!): Promise<string> {
+    const payload: BattleVoucher = {
+      sub: quote.offer.walletAddress,
+      chain: quote.offer.chain,
+      offerId: quote.offer.id,
+      battleId: 'battle-1',
+      discountPercent: BATTLE_DISCOUNT_PERCENT,
+      aud: VOUCHER_AUDIENCE,
+      exp: Math.floor(Date.parse(quote.offer.expiresAt) / 1000),
+      ...claims,
+    };
+    return sign({ ...payload }, secret);
+  }
+
+  describe('createOffer', () => {
+    it('reserves a mintable metadata ID at the quoted price', async () => {
+      const { offer, pricing, quote } = await shop.createOffer(EVM_WALLET);
+
+      expect(offer).toMatchObject({ walletAddress: EVM_WALLET.address, chain: 'evm', status: 'open', price: pricing.price });
+      expect(evmService.isMetadataIdAvailable).toHaveBeenCalledWith(offer.metadataId, evmService.getSignerAddress());
+      expect(quote.split('.')).toHaveLength(3);
+    });
+
+    it('gives up when no metadata ID can be minted', async () => {
+      vi.mocked(aptosService.isMetadataIdUsed).mockResolvedValue(true);
+
+      await rejection(shop.createOffer(APTOS_WALLET), 'sold_out');
+    });
+  });
+
+  describe('purchase', () => {
+    it('burns the price, mints the NFT and hands it over on EVM', async () => {
+      const { offer, quote } = await shop.createOffer(EVM_WALLET);
+
+      const purchased = await shop.purchase(EVM_WALLET, quote);
+
+      expect(evmService.burnTokens).toHaveBeenCalledWith(EVM_WALLET.address, offer.price);
+      expect(evmService.mintNFTToSigner).toHaveBeenCalledWith(offer.metadataId);
+      expect(evmService.transferNFT).toHaveBeenCalledWith(EVM_WALLET.address, '7');
+      expect(purchased).toMatchObject({
+        status: 'purchased',
+        paidPrice: offer.price,
+        burnTransactionHash: '0xburn',
+        mintedTokenId: '7',
+        transactionHash: '0xtransfer',
+      });
+    });
+
+    it('takes a CoA payment and mints the NFT on Aptos', async () => {
+      const { offer, quote } = await shop.createOffer(APTOS_WALLET);
+
+      const purchased = await shop.purchase(APTOS_WALLET, quote, '0xpayment');
+
+      expect(aptosService.mintFromMetadataId).toHaveBeenCalledWith(APTOS_WALLET.address, offer.metadataId, 50, 50);
+      expect(purchased).toMatchObject({ status: 'purchased', paymentTransactionHash: '0xpayment', transactionHash: '0xaptosmint' });
+    });
+
+    it('uses each quote once', async () => {
+      const { quote } = await shop.createOffer(EVM_WALLET);
+      await shop.purchase(EVM_WALLET, quote);
+
+      await rejection(shop.purchase(EVM_WALLET, quote), 'quote_used');
+      expect(evmService.burnTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects quotes for another wallet, forged or altered, or past their expiry', async () => {
+      const { offer, quote } = await shop.createOffer(EVM_WALLET);
+      const [header, payload, signature] = quote.split('.');
+      const cheaper = btoa(JSON.stringify({ ...JSON.parse(atob(payload)), price: 1 })).replace(/=+$/, '');
+      const claims = { sub: EVM_WALLET.address, chain: 'evm', offerId: offer.id, metadataId: offer.metadataId, price: 1, aud: 'velmora:shop-quote' };
+      const expired = await sign({ ...claims, exp: Math.floor(Date.now() / 1000) - 60 }, ENV.AUTH_SECRET!);
+      const forged = await sign({ ...claims, exp: Math.floor(Date.now() / 1000) + 60 }, 'another-secret');
+
+      await rejection(shop.purchase({ chain: 'evm', address: createLocalEVMSigners().primary.address.toLowerCase() }, quote), 'invalid_quote');
+      await rejection(shop.purchase(EVM_WALLET, `${header}.${cheaper}.${signature}`), 'invalid_quote');
+      await rejection(shop.purchase(EVM_WALLET, forged), 'invalid_quote');
+      await rejection(shop.purchase(EVM_WALLET, expired), 'quote_expired');
+      expect(evmService.burnTokens).not.toHaveBeenCalled();
+    });
+
+    it('does not take a battle voucher as a quote', async () => {
+      const offer = await shop.createOffer(EVM_WALLET);
+
+      await rejection(shop.purchase(EVM_WALLET, await voucher(offer)), 'invalid_quote');
+    });
+
+    it('takes the discount of a voucher won over the offer', async () => {
+      const offer = await shop.createOffer(EVM_WALLET);
+      const discounted = Math.floor(offer.offer.price * (100 - BATTLE_DISCOUNT_PERCENT) / 100);
+
+      const purchased = await shop.purchase(EVM_WALLET, offer.quote, undefined, await voucher(offer));
+
+      expect(purchased).toMatchObject({ paidPrice: discounted, battleId: 'battle-1' });
+      expect(evmService.burnTokens).toHaveBeenCalledWith(EVM_WALLET.address, discounted);
+    });
+
+    it('rejects vouchers for another offer or wallet, forged, or not vouchers at all', async () => {
+      const offer = await shop.createOffer(EVM_WALLET);
+      const other = await shop.createOffer(EVM_WALLET);
+
+      await rejection(shop.purchase(EVM_WALLET, offer.quote, undefined, await voucher(other)), 'invalid_voucher');
+      await rejection(shop.purchase(EVM_WALLET, offer.quote, undefined, await voucher(offer, { sub: '0xsomeone' })), 'invalid_voucher');
+      await rejection(shop.purchase(EVM_WALLET, offer.quote, undefined, await voucher(offer, {}, 'another-secret')), 'invalid_voucher');
+      await rejection(shop.purchase(EVM_WALLET, offer.quote, undefined, offer.quote), 'invalid_voucher');
+      expect(evmService.burnTokens).not.toHaveBeenCalled();
+    });
+
+    it('checks the AuraCoins balance on EVM', async () => {
+      vi.mocked(evmService.getTokenBalance).mockResolvedValue(0);
+      const { quote } = await shop.createOffer(EVM_WALLET);
+
+      await rejection(shop.purchase(EVM_WALLET, quote), 'insufficient_balance');
+    });
+
+    it('requires a CoA transfer of the price from the buyer to the shop on Aptos', async () => {
+      const { offer, quote } = await shop.createOffer(APTOS_WALLET);
+
+      await rejection(shop.purchase(APTOS_WALLET, quote), 'payment_required');
+
+      vi.mocked(aptosService.getCoATransfer).mockResolvedValueOnce({ from: APTOS_WALLET.address, to: APTOS_WALLET.address, amount: 10_000 });
+      await rejection(shop.purchase(APTOS_WALLET, quote, '0xpayment'), 'invalid_payment');
+
+      vi.mocked(aptosService.getCoATransfer).mockResolvedValueOnce({ from: APTOS_WALLET.address, to: aptosService.getAdminAddress(), amount: offer.price - 1 });
+      await rejection(shop.purchase(APTOS_WALLET, quote, '0xpayment'), 'invalid_payment');
+
+      vi.mocked(aptosService.getCoATransfer).mockResolvedValueOnce(null);
+      await rejection(shop.purchase(APTOS_WALLET, quote, '0xpayment'), 'invalid_payment');
+    });
+
+    it('accepts each Aptos payment for one offer', async () => {
+      const first = await shop.createOffer(APTOS_WALLET);
+      const second = await shop.createOffer(APTOS_WALLET);
+      await shop.purchase(APTOS_WALLET, first.quote, '0xpayment');
+
+      await rejection(shop.purchase(APTOS_WALLET, second.quote, '0xpayment'), 'payment_used');
+      expect((await storage.shopOffers.get(second.offer.id))?.status).toBe('open');
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import { sign, verify } from 'hono/jwt';
+import type { ShopOffer, ShopOfferRepository } from '../storage';
+import type { AuthenticatedWallet, Bindings, Chain, NFTMetadata } from '../types';
+import { normalizeAddress } from '../utils/address';
+import { MAX_METADATA_ID, toContractAttributes } from '../utils/nftMetadata';
+import { TransactionAbortedError, decodeVmStatus } from '../utils/vmStatus';
+import type { AptosService } from './aptosService';
+import { type BattleVoucher, VOUCHER_AUDIENCE } from './battleService';
+import type { EVMService } from './evmService';
+import type { MetadataService } from './metadataService';
+import type { PriceQuote, PricingService } from './pricingService';
+
+/** How long a player has to buy an offered NFT, battle for it included */
+const OFFER_TTL_SECONDS = 10 * 60;
+// Random metadata IDs tried before giving up on finding one that is free
+const MAX_RESERVE_ATTEMPTS = 10;
+// Keeps session tokens, which share the secret, from passing as quotes
+const QUOTE_AUDIENCE = 'velmora:shop-quote';
+
+export type ShopErrorReason =
+  /** No free metadata ID was found */
+  | 'sold_out'
+  /** Not a quote we signed, or signed for another wallet */
+  | 'invalid_quote'
+  | 'quote_expired'
+  /** The offer was already bought (or is being bought) */
+  | 'quote_used'
+  /** Not a voucher we signed for this wallet and offer, or expired */
+  | 'invalid_voucher'
+  /** Aptos: no payment transaction was given */
+  | 'payment_required'
+  /** Aptos: the transaction isn't a large enough CoA transfer from the player to the shop */
+  | 'invalid_payment'
+  /** Aptos: the transaction already paid for another offer */
+  | 'payment_used'
+  /** EVM: the player holds fewer AuraCoins than the price */
+  | 'insufficient_balance'
+  /** No offer with this ID belongs to the wallet */
+  | 'offer_not_found'
+  /** Only paid offers whose mint failed can be retried */
+  | 'not_retryable';
+
+export class ShopError extends Error {
+  constructor(readonly reason: ShopErrorReason, message: string) {
+    super(message);
+    this.name = 'ShopError';
+  }
+}
+
+/**
+ * An offer with its NFT's metadata and the signed quote that buys it
+ */
+export interface ShopQuote {
+  offer: ShopOffer;
+  metadata: NFTMetadata;
+  /** How `offer.price` was arrived at */
+  pricing: PriceQuote;
+  /** Pass to `purchase` unchanged */
+  quote: string;
+}
+
+interface QuotePayload {
+  sub: string;
+  chain: Chain;
+  offerId: string;
+  metadataId: number;
+  price: number;
+  aud: string;
+  exp: number;
+}
+
+/**
+ * The NPC shop. Offers are made by the server: each one reserves a metadata
+ * ID nobody has minted or been offered, is priced by the `PricingService` and
+ * comes with a quote signed with `AUTH_SECRET`. Only a valid, unexpired,
+ * unused quote for the buyer's own wallet can be purchased, and the backend
+ * takes payment and mints the NFT itself.
+ */
+export class ShopService {
+  private secret: string;
+
+  constructor(
+    private offers: ShopOfferRepository,
+    private aptosService: AptosService,
+    private evmService: EVMService,
+    private metadataService: MetadataService,
+    private pricingService: PricingService,
+    env?: Bindings,
+  ) {
+    if (!env?.AUTH_SECRET) {
+      throw new Error('AUTH_SECRET environment variable required to sign shop quotes.');
+    }
+    this.secret = env.AUTH_SECRET;
+  }
+
+  private async isMintable(wallet: AuthenticatedWallet, metadataId: number): Promise<boolean> {
+    if (wallet.chain === 'aptos') {
+      return !await this.aptosService.isMetadataIdUsed(metadataId);
+    }
+    // Simulate as the backend signer, which is who mints
+    return this.evmService.isMetadataIdAvailable(metadataId, this.evmService.getSignerAddress() ?? wallet.address);
+  }
+
+  /**
+   * Offer a random NFT that nobody owns or has been offered to a wallet
+   */
+  async createOffer(wallet: AuthenticatedWallet): Promise<ShopQuote> {
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const metadataId = Math.floor(Math.random() * MAX_METADATA_ID) + 1;
+      if (!await this.isMintable(wallet, metadataId)) continue;
+
+      const { metadata } = await this.metadataService.getById(metadataId);
+      const pricing = await this.pricingService.quote(wallet.chain, metadata);
+      const offer = await this.offers.reserve({
+        walletAddress: wallet.address,
+        chain: wallet.chain,
+        metadataId,
+        price: pricing.price,
+        expiresAt: new Date(Date.now() + OFFER_TTL_SECONDS * 1000).toISOString(),
+      });
+      if (!offer) continue;
+
+      const payload: QuotePayload = {
+        sub: wallet.address,
+        chain: wallet.chain,
+        offerId: offer.id,
+        metadataId,
+        price: offer.price,
+        aud: QUOTE_AUDIENCE,
+        exp: Math.floor(Date.parse(offer.expiresAt) / 1000),
+      };
+      return { offer, metadata, pricing, quote: await sign({ ...payload }, this.secret) };
+    }
+
+    throw new ShopError('sold_out', 'No NFT is available to offer right now');
+  }
+
+  private async verifyQuote(wallet: AuthenticatedWallet, quote: string): Promise<QuotePayload> {
+    let payload: QuotePayload;
+    try {
+      payload = await verify(quote, this.secret) as unknown as QuotePayload;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'JwtTokenExpired') {
+        throw new ShopError('quote_expired', 'Quote has expired');
+      }
+      throw new ShopError('invalid_quote', 'Quote was not issued by this server');
+    }
+
+    if (payload.aud !== QUOTE_AUDIENCE) {
+      throw new ShopError('invalid_quote', 'Not a shop quote');
+    }
+    if (payload.sub !== wallet.address || payload.chain !== wallet.chain) {
+      throw new ShopError('invalid_quote', 'Quote was issued to another wallet');
+    }
+    return payload;
+  }
+
+  private async verifyVoucher(wallet: AuthenticatedWallet, voucher: string, offerId: string): Promise<BattleVoucher> {
+    let payload: BattleVoucher;
+    try {
+      payload = await verify(voucher, this.secret) as unknown as BattleVoucher;
+    } catch {
+      throw new ShopError('invalid_voucher', 'Voucher was not issued by this server or has expired');
+    }
+
+    if (payload.aud !== VOUCHER_AUDIENCE) {
+      throw new ShopError('invalid_voucher', 'Not a battle voucher');
+    }
+    if (payload.sub !== wallet.address || payload.chain !== wallet.chain || payload.offerId !== offerId) {
+      throw new ShopError('invalid_voucher', 'Voucher was issued for another wallet or offer');
+    }
+    return payload;
+  }
+
+  /**
+   * Check that an Aptos transaction paid the price in CoA from the buyer to the shop
+   */
+  private async verifyPayment(wallet: AuthenticatedWallet, price: number, transactionHash?: string): Promise<void> {
+    if (!transactionHash) {
+      throw new ShopError('payment_required', 'paymentTransactionHash is required for Aptos purchases');
+    }
+    // Fails fast; the purchase claims the payment atomically with the offer
+    if (await this.offers.getByPaymentTransaction(transactionHash)) {
+      throw new ShopError('payment_used', 'Payment transaction was already used for another purchase');
+    }
+
+    const transfer = await this.aptosService.getCoATransfer(transactionHash);
+    if (!transfer || transfer.from !== wallet.address || transfer.to !== this.aptosService.getAdminAddress()) {
+      throw new ShopError('invalid_payment', 'Payment transaction is not a committed CoA transfer from the buyer to the shop');
+    }
+    if (transfer.amount < price) {
+      throw new ShopError('invalid_payment', `Payment of ${transfer.amount} CoA is less than the price of ${price} CoA`);
+    }
+  }
+
+  /**
+   * Check that the Aptos mint of an offer would succeed, so no payment is
+   * taken for an NFT that can't be minted
+   */
+  private async checkAptosMint(wallet: AuthenticatedWallet, metadataId: number): Promise<void> {
+    const { rarity, skill } = await this.contractAttributes(metadataId);
+    const simulation = await this.aptosService.simulateMintFromMetadataId(wallet.address, metadataId, rarity, skill);
+    if (!simulation.success) {
+      throw new TransactionAbortedError(decodeVmStatus(simulation.vmStatus));
+    }
+  }
+
+  /**
+   * Buy the NFT of a quote. EVM buyers pay by having the backend burn the
+   * price in AuraCoins, once it has checked the NFT can still be minted; Aptos buyers first transfer the price in CoA to the
+   * shop and pass that transaction. Either way the backend mints the NFT.
+   * A `voucher` won in a battle over the offer takes its discount off the price.
+   * On Aptos the mint is simulated before the payment is accepted. A paid
+   * offer whose mint still fails is left `unfulfilled`, for `retry`.
+   */
+  async purchase(
+    wallet: AuthenticatedWallet,
+    quote: string,
+    paymentTransactionHash?: string,
+    voucher?: string,
+  ): Promise<ShopOffer> {
+    const { offerId, metadataId, price: quotedPrice } = await this.verifyQuote(wallet, quote);
+    const discount = voucher ? await this.verifyVoucher(wallet, voucher, offerId) : null;
+    const price = discount ? Math.floor(quotedPrice * (100 - discount.discountPercent) / 100) : quotedPrice;
+
+    if (wallet.chain === 'aptos') {
+      await this.verifyPayment(wallet, price, paymentTransactionHash);
+      await this.checkAptosMint(wallet, metadataId);
+    } else if (await this.evmService.getTokenBalance(wallet.address) < price) {
+      throw new ShopError('insufficient_balance', `Buying this NFT takes ${price} AuraCoins`);
+    }
+
+    // Claiming the open offer is what makes a quote single-use, and claiming
+    // the payment with it what makes a payment single-use
+    const { offer, paymentUsed } = await this.offers.claimPurchase(offerId, {
+      paidPrice: price,
+      ...(discount && { battleId: discount.battleId }),
+      ...(wallet.chain === 'aptos' && { paymentTransactionHash }),
+    });
+    if (paymentUsed) {
+      throw new ShopError('payment_used', 'Payment transaction was already used for another purchase');
+    }
+    if (!offer) {
+      throw new ShopError('quote_used', 'Quote has already been used');
+    }
+
+    return this.fulfil(wallet, offer);
+  }
+
+  /**
+   * Mint the NFT of an `unfulfilled` offer again, for the wallet that paid for it.
+   * On Aptos an earlier mint that committed after all completes the offer instead.
+   */
+  async retry(wallet: AuthenticatedWallet, offerId: string): Promise<ShopOffer> {
+    const existing = await this.offers.get(offerId);
+    if (!existing || existing.walletAddress !== wallet.address || existing.chain !== wallet.chain) {
+      throw new ShopError('offer_not_found', `Offer ${offerId} not found`);
+    }
+
+    const offer = await this.offers.update(offerId, { status: 'purchasing' }, ['unfulfilled']);
+    if (!offer) {
+      throw new ShopError('not_retryable', `Offer ${offerId} is ${existing.status}; only unfulfilled offers can be retried`);
+    }
+    return this.fulfil(wallet, offer, true);
+  }
+
+  /**
+   * Mint a claimed offer's NFT. If it fails, an offer that was paid for (or
+   * whose price was burned) keeps its metadata ID as `unfulfilled`; any other
+   * offer is `failed`.
+   */
+  private async fulfil(wallet: AuthenticatedWallet, offer: ShopOffer, retrying = false): Promise<ShopOffer> {
+    try {
+      const transactionHash = await this.mint(wallet, offer, retrying);
+      return (await this.offers.update(offer.id, { status: 'purchased', transactionHash }))!;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const current = await this.offers.get(offer.id);
+      const paid = current?.paymentTransactionHash || current?.burnTransactionHash;
+      await this.offers.update(offer.id, { status: paid ? 'unfulfilled' : 'failed', error: message });
+      throw error;
+    }
+  }
+
+  private async contractAttributes(metadataId: number): Promise<{ rarity: number; skill: number }> {
+    const { metadata } = await this.metadataService.getById(metadataId);
+    return toContractAttributes(metadata);
+  }
+
+  private async mint(wallet: AuthenticatedWallet, offer: ShopOffer, retrying: boolean): Promise<string> {
+    if (wallet.chain === 'evm') {
+      // The burn is recorded, so a retried mint doesn't burn the price again
+      if (!offer.burnTransactionHash) {
+        if (!await this.isMintable(wallet, offer.metadataId)) {
+          throw new Error(`NFT #${offer.metadataId} can no longer be minted`);
+        }
+        const burnTransactionHash = await this.evmService.burnTokens(wallet.address, offer.paidPrice ?? offer.price);
+        await this.offers.update(offer.id, { burnTransactionHash });
+      }
+      // So is the minted token: a retry hands over the token the server signer
+      // holds, as `mintNFTfromID` can't mint the same metadata ID again
+      let tokenId = offer.mintedTokenId;
+      if (!tokenId) {
+        ({ tokenId } = await this.evmService.mintNFTToSigner(offer.metadataId));
+        await this.offers.update(offer.id, { mintedTokenId: tokenId });
+      }
+      return this.evmService.transferNFT(wallet.address, tokenId);
+    }
+
+    // The last attempt may have committed after waiting for it failed; minting
+    // the metadata ID again would abort with E_METADATA_ID_USED
+    if (retrying) {
+      const committed = await this.aptosService.findMetadataIdMint(offer.metadataId);
+      if (committed) {
+        if (normalizeAddress('aptos', committed.owner) !== wallet.address) {
+          throw new Error(`NFT #${offer.metadataId} was minted to another account`);
+        }
+        return committed.transactionHash;
+      }
+    }
+
+    const { rarity, skill } = await this.contractAttributes(offer.metadataId);
+    const minted = await this.aptosService.mintFromMetadataId(wallet.address, offer.metadataId, rarity, skill);
+    return minted.transactionHash;
+  }
+}
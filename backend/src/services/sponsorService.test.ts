@@ -0,0 +1,131 @@
+import {
+  AccountAddress,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+} from '@aptos-labs/ts-sdk';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLocalAptosSigners } from '../signers';
+import { MemoryStorage } from '../storage';
+import type { Bindings } from '../types';
+import { AptosService } from './aptosService';
+import { SponsorError, SponsorService } from './sponsorService';
+
+const ENV = { APTOS_NETWORK: 'testnet', APTOS_SPONSOR_DAILY_LIMIT: '2' } as Bindings;
+const TESTNET_CHAIN_ID = 2;
+const PLAYER = createLocalAptosSigners().primary.accountAddress;
+
+interface TransactionOptions {
+  sender?: AccountAddress;
+  module?: `${string}::${string}`;
+  functionName?: string;
+  maxGasAmount?: number;
+  gasUnitPrice?: number;
+  expiresInSecs?: number;
+  chainId?: number;
+  feePayer?: AccountAddress;
+}
+
+describe('SponsorService', () => {
+  let aptosService: AptosService;
+  let sponsor: SponsorService;
+
+  beforeEach(() => {
+    aptosService = new AptosService(ENV, createLocalAptosSigners(2));
+    sponsor = new SponsorService(new MemoryStorage().sponsorships, aptosService, ENV);
+  });
+
+  // A fee payer transaction as the client builds it
+  function buildTransaction({
+    sender = PLAYER,
+    module = `${aptosService.getContractAddress()}::coins_of_aura`,
+    functionName = 'transfer',
+    maxGasAmount = 2_000,
+    gasUnitPrice = 100,
+    expiresInSecs = 60,
+    chainId = TESTNET_CHAIN_ID,
+    feePayer = AccountAddress.ZERO,
+  }: TransactionOptions = {}): string {
+    const payload = new TransactionPayloadEntryFunction(
+      EntryFunction.build(module, functionName, [], [AccountAddress.from('0x1'), new U64(100)]),
+    );
+    const rawTransaction = new RawTransaction(
+      sender,
+      0n,
+      payload,
+      BigInt(maxGasAmount),
+      BigInt(gasUnitPrice),
+      BigInt(Math.floor(Date.now() / 1000) + expiresInSecs),
+      new ChainId(chainId),
+    );
+    return new SimpleTransaction(rawTransaction, feePayer).bcsToHex().toString();
+  }
+
+  async function rejection(transactionHex: string): Promise<SponsorError> {
+    const error = await sponsor.sponsor(PLAYER.toStringLong(), transactionHex).catch((error) => error);
+    expect(error).toBeInstanceOf(SponsorError);
+    return error;
+  }
+
+  it('signs allowed functions as fee payer, with the signers taking turns', async () => {
+    const first = await sponsor.sponsor(PLAYER.toStringLong(), buildTransaction());
+    const second = await sponsor.sponsor(PLAYER.toStringLong(), buildTransaction({ module: `${aptosService.getContractAddress()}::velmora_nft`, functionName: 'burn_nft' }));
+
+    expect(first.function).toBe('coins_of_aura::transfer');
+    expect(second.function).toBe('velmora_nft::burn_nft');
+    expect(aptosService.getSignerAddresses()).toEqual(expect.arrayContaining([first.feePayerAddress, second.feePayerAddress]));
+    expect(first.feePayerAddress).not.toBe(second.feePayerAddress);
+    expect(first.feePayerAuthenticator).toMatch(/^0x[0-9a-f]+$/);
+  });
+
+  it('accepts one of its own signers as the placeholder fee payer', async () => {
+    const feePayer = AccountAddress.from(aptosService.getSignerAddresses()[1]);
+
+    await expect(sponsor.sponsor(PLAYER.toStringLong(), buildTransaction({ feePayer }))).resolves.toBeDefined();
+  });
+
+  it('rejects functions outside the allowlist', async () => {
+    const admin = await rejection(buildTransaction({ module: `${aptosService.getContractAddress()}::velmora_nft`, functionName: 'mint_from_metadata_id' }));
+    const otherContract = await rejection(buildTransaction({ module: '0x1::coins_of_aura' }));
+
+    expect(admin.reason).toBe('function_not_sponsored');
+    expect(otherContract.reason).toBe('function_not_sponsored');
+  });
+
+  it("rejects transactions sent by another wallet than the session's", async () => {
+    const sender = createLocalAptosSigners().primary.accountAddress;
+
+    expect((await rejection(buildTransaction({ sender }))).reason).toBe('sender_mismatch');
+  });
+
+  it('rejects transactions for another chain, with a real fee payer, or that do not decode', async () => {
+    const feePayer = createLocalAptosSigners().primary.accountAddress;
+
+    expect((await rejection(buildTransaction({ chainId: 1 }))).reason).toBe('invalid_transaction');
+    expect((await rejection(buildTransaction({ feePayer }))).reason).toBe('invalid_transaction');
+    expect((await rejection('0x1234')).reason).toBe('invalid_transaction');
+  });
+
+  it('rejects gas limits, gas prices and expirations above what is sponsored', async () => {
+    expect((await rejection(buildTransaction({ maxGasAmount: 20_001 }))).reason).toBe('limits_exceeded');
+    expect((await rejection(buildTransaction({ gasUnitPrice: 201 }))).reason).toBe('limits_exceeded');
+    expect((await rejection(buildTransaction({ expiresInSecs: 10 * 60 }))).reason).toBe('limits_exceeded');
+  });
+
+  it("stops at the wallet's daily quota", async () => {
+    await sponsor.sponsor(PLAYER.toStringLong(), buildTransaction());
+    await sponsor.sponsor(PLAYER.toStringLong(), buildTransaction());
+
+    expect((await rejection(buildTransaction())).reason).toBe('quota_exceeded');
+  });
+
+  it('does not count rejected transactions against the quota', async () => {
+    await rejection(buildTransaction({ gasUnitPrice: 201 }));
+    await rejection(buildTransaction({ gasUnitPrice: 201 }));
+
+    await expect(sponsor.sponsor(PLAYER.toStringLong(), buildTransaction())).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  AccountAddress,
+  Deserializer,
+  Hex,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+} from '@aptos-labs/ts-sdk';
+import type { SponsorshipRepository } from '../storage';
+import type { Bindings } from '../types';
+import type { AptosService } from './aptosService';
+
+/** Contract entry functions players may have their gas paid for */
+export const SPONSORED_FUNCTIONS = [
+  'coins_of_aura::transfer',
+  'velmora_nft::transfer_nft',
+  'velmora_nft::burn_nft',
+] as const;
+
+/** Sponsored transactions per wallet per day, unless `APTOS_SPONSOR_DAILY_LIMIT` says otherwise */
+const DEFAULT_DAILY_LIMIT = 10;
+const QUOTA_WINDOW_MS = 24 * 60 * 60_000;
+// Caps what one sponsored transaction can cost the fee payer: at most 0.04 APT
+const MAX_SPONSORED_GAS_AMOUNT = 20_000;
+const MAX_SPONSORED_GAS_UNIT_PRICE = 200;
+// The fee payer's signature stays usable until the transaction expires
+const MAX_EXPIRATION_SECS = 5 * 60;
+
+export type SponsorErrorReason =
+  /** Not a fee payer transaction for this chain, or it can't be decoded */
+  | 'invalid_transaction'
+  /** The transaction is sent by another wallet than the session's */
+  | 'sender_mismatch'
+  | 'function_not_sponsored'
+  /** Gas limit, gas price or expiration above what is sponsored */
+  | 'limits_exceeded'
+  | 'quota_exceeded';
+
+export class SponsorError extends Error {
+  constructor(readonly reason: SponsorErrorReason, message: string) {
+    super(message);
+    this.name = 'SponsorError';
+  }
+}
+
+export interface SponsoredTransaction {
+  /** `<module>::<function>` of the entry function */
+  function: string;
+  feePayerAddress: string;
+  /** BCS of the fee payer's `AccountAuthenticator`, hex */
+  feePayerAuthenticator: string;
+}
+
+/**
+ * Pays the gas of players' own transactions, so wallets without APT can
+ * still transfer CoA and NFTs. The player builds a fee payer transaction
+ * with a placeholder fee payer, the backend checks it against the allowed
+ * entry functions, gas limits and the wallet's daily quota, and signs it as
+ * fee payer with one of the backend's signers, taking turns. The player then
+ * signs and submits it.
+ */
+export class SponsorService {
+  private dailyLimit: number;
+
+  constructor(private sponsorships: SponsorshipRepository, private aptosService: AptosService, env?: Bindings) {
+    const limit = Number(env?.APTOS_SPONSOR_DAILY_LIMIT);
+    this.dailyLimit = env?.APTOS_SPONSOR_DAILY_LIMIT && Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_DAILY_LIMIT;
+  }
+
+  /**
+   * Sign a BCS-serialized `SimpleTransaction` (hex) as its fee payer, on
+   * behalf of `wallet`, which must be its sender
+   */
+  async sponsor(wallet: string, transactionHex: string): Promise<SponsoredTransaction> {
+    const transaction = decodeTransaction(transactionHex);
+    const { rawTransaction } = transaction;
+
+    if (!rawTransaction.sender.equals(AccountAddress.from(wallet))) {
+      throw new SponsorError('sender_mismatch', 'The transaction must be sent by the session wallet');
+    }
+    if (rawTransaction.chain_id.chainId !== await this.aptosService.getChainId()) {
+      throw new SponsorError('invalid_transaction', 'The transaction is for another chain');
+    }
+
+    const feePayers = this.aptosService.getSignerAddresses().map((address) => AccountAddress.from(address));
+    const placeholder = transaction.feePayerAddress;
+    if (!placeholder || !(placeholder.equals(AccountAddress.ZERO) || feePayers.some((feePayer) => placeholder.equals(feePayer)))) {
+      throw new SponsorError('invalid_transaction', 'The transaction must be built with a placeholder fee payer');
+    }
+
+    const functionName = this.sponsoredFunction(transaction);
+    if (rawTransaction.max_gas_amount > BigInt(MAX_SPONSORED_GAS_AMOUNT)) {
+      throw new SponsorError('limits_exceeded', `Max gas amount is limited to ${MAX_SPONSORED_GAS_AMOUNT}`);
+    }
+    if (rawTransaction.gas_unit_price > BigInt(MAX_SPONSORED_GAS_UNIT_PRICE)) {
+      throw new SponsorError('limits_exceeded', `Gas unit price is limited to ${MAX_SPONSORED_GAS_UNIT_PRICE} octas`);
+    }
+    if (rawTransaction.expiration_timestamp_secs > BigInt(Math.floor(Date.now() / 1000) + MAX_EXPIRATION_SECS)) {
+      throw new SponsorError('limits_exceeded', `The transaction must expire within ${MAX_EXPIRATION_SECS} seconds`);
+    }
+
+    const sponsorship = await this.sponsorships.reserve(
+      { walletAddress: wallet, function: functionName, maxGasAmount: Number(rawTransaction.max_gas_amount) },
+      new Date(Date.now() - QUOTA_WINDOW_MS).toISOString(),
+      this.dailyLimit,
+    );
+    if (!sponsorship) {
+      throw new SponsorError('quota_exceeded', `Wallets get ${this.dailyLimit} sponsored transactions per day`);
+    }
+
+    const authenticator = await this.aptosService.signAsFeePayer(transaction);
+    return {
+      function: functionName,
+      feePayerAddress: transaction.feePayerAddress!.toStringLong(),
+      feePayerAuthenticator: authenticator.bcsToHex().toString(),
+    };
+  }
+
+  /**
+   * The allowed contract entry function a transaction calls, as `<module>::<function>`
+   */
+  private sponsoredFunction(transaction: SimpleTransaction): string {
+    const { payload } = transaction.rawTransaction;
+    if (!(payload instanceof TransactionPayloadEntryFunction)) {
+      throw new SponsorError('function_not_sponsored', 'Only entry function calls are sponsored');
+    }
+
+    const { module_name: module, function_name: name } = payload.entryFunction;
+    const functionName = `${module.name.identifier}::${name.identifier}`;
+    const contract = AccountAddress.from(this.aptosService.getContractAddress());
+    if (!module.address.equals(contract) || !(SPONSORED_FUNCTIONS as readonly string[]).includes(functionName)) {
+      throw new SponsorError('function_not_sponsored', `Only ${SPONSORED_FUNCTIONS.join(', ')} are sponsored`);
+    }
+    return functionName;
+  }
+}
+
+function decodeTransaction(transactionHex: string): SimpleTransaction {
+  try {
+    const deserializer = new Deserializer(Hex.fromHexInput(transactionHex).toUint8Array());
+    const transaction = SimpleTransaction.deserialize(deserializer);
+    if (deserializer.remaining() !== 0) {
+      throw new Error('Trailing bytes');
+    }
+    return transaction;
+  } catch {
+    throw new SponsorError('invalid_transaction', 'transaction must be a BCS-serialized SimpleTransaction');
+  }
+}
@@ -0,0 +1,101 @@
+// Oldest entries are dropped past this, so a flood of distinct owners can't grow the isolate without bound
+const MAX_ENTRIES = 5_000;
+
+interface ScanEntry {
+  /** Last block whose logs are in `tokenIds` */
+  scannedTo: number;
+  /** Every token ever transferred to the owner up to `scannedTo` */
+  tokenIds: Set<string>;
+  /** The scan in progress, which every caller waits for */
+  scanning?: Promise<void>;
+}
+
+export interface TransferScan {
+  tokenIds: string[];
+  /** The scan stopped short of the latest block; the next one carries on from there */
+  truncated: boolean;
+}
+
+/**
+ * Incremental scans of the `Transfer` logs of ERC-721 contracts to an owner.
+ * Logs are read in chunks of `chunkBlocks`, at most `maxChunks` per scan,
+ * and the token IDs found are kept, so each block range is read once per
+ * owner and later scans only read new blocks. One cache is shared per RPC
+ * endpoint within the isolate / process.
+ */
+export class TransferScanCache {
+  private static caches = new Map<string, TransferScanCache>();
+
+  /**
+   * Get the shared cache for an RPC endpoint
+   */
+  static for(rpcUrl: string): TransferScanCache {
+    let cache = this.caches.get(rpcUrl);
+    if (!cache) {
+      cache = new TransferScanCache();
+      this.caches.set(rpcUrl, cache);
+    }
+    return cache;
+  }
+
+  private entries = new Map<string, ScanEntry>();
+
+  private constructor() {}
+
+  /**
+   * Find the tokens transferred to `owner` from `startBlock` to `latestBlock`.
+   * `read` returns the token IDs of the transfers in one block range.
+   */
+  async scan(
+    contract: string,
+    owner: string,
+    range: { startBlock: number; latestBlock: number; chunkBlocks: number; maxChunks: number },
+    read: (fromBlock: number, toBlock: number) => Promise<string[]>,
+  ): Promise<TransferScan> {
+    const key = `${contract.toLowerCase()}:${owner.toLowerCase()}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { scannedTo: range.startBlock - 1, tokenIds: new Set() };
+      this.entries.set(key, entry);
+      this.evict();
+    }
+
+    // Concurrent scans of one owner wait for each other instead of reading the same blocks
+    while (entry.scanning) {
+      await entry.scanning.catch(() => {});
+    }
+    if (entry.scannedTo < range.latestBlock) {
+      entry.scanning = this.readChunks(entry, range, read);
+      try {
+        await entry.scanning;
+      } finally {
+        entry.scanning = undefined;
+      }
+    }
+
+    return { tokenIds: [...entry.tokenIds], truncated: entry.scannedTo < range.latestBlock };
+  }
+
+  private async readChunks(
+    entry: ScanEntry,
+    { latestBlock, chunkBlocks, maxChunks }: { latestBlock: number; chunkBlocks: number; maxChunks: number },
+    read: (fromBlock: number, toBlock: number) => Promise<string[]>,
+  ): Promise<void> {
+    for (let chunk = 0; chunk < maxChunks && entry.scannedTo < latestBlock; chunk++) {
+      const fromBlock = entry.scannedTo + 1;
+      const toBlock = Math.min(fromBlock + chunkBlocks - 1, latestBlock);
+      for (const tokenId of await read(fromBlock, toBlock)) {
+        entry.tokenIds.add(tokenId);
+      }
+      // Kept chunk by chunk, so a failed scan doesn't lose what it read
+      entry.scannedTo = toBlock;
+    }
+  }
+
+  private evict(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      if (!entry.scanning) this.entries.delete(key);
+    }
+  }
+}
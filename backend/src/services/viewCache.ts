@@ -0,0 +1,110 @@
+import type { Aptos } from '@aptos-labs/ts-sdk';
+import { normalizeAddress } from '../utils/address';
+
+// Oldest entries are dropped past this, so a flood of distinct addresses can't grow the isolate without bound
+const MAX_ENTRIES = 5_000;
+
+const ADDRESS_ARGUMENT = /^0x[0-9a-fA-F]{1,64}$/;
+
+interface CacheEntry {
+  /** Resolves to the view's result; shared by every caller while the read is in flight */
+  value: Promise<unknown>;
+  /** Set once the read has resolved */
+  expiresAt?: number;
+  /** Account addresses among the arguments, long form */
+  accounts: string[];
+  functionName: string;
+}
+
+/**
+ * Read-through cache of Move view function results. Concurrent reads of the
+ * same view and arguments share one RPC call, and results are kept for a
+ * per-function TTL. Entries can be dropped by account or by function once a
+ * transaction changes what they read. One cache is shared per fullnode
+ * within the isolate / process.
+ */
+export class ViewCache {
+  private static caches = new Map<string, ViewCache>();
+
+  /**
+   * Get the shared cache for a client's fullnode
+   */
+  static for(aptos: Aptos): ViewCache {
+    const key = String(aptos.config.fullnode ?? aptos.config.network);
+    let cache = this.caches.get(key);
+    if (!cache) {
+      cache = new ViewCache();
+      this.caches.set(key, cache);
+    }
+    return cache;
+  }
+
+  private entries = new Map<string, CacheEntry>();
+
+  private constructor() {}
+
+  /**
+   * Get a view's result from the cache, or read it with `read` and keep it
+   * for `ttlMs`. Failed reads are not kept.
+   */
+  get<T>(functionName: string, args: unknown[], ttlMs: number, read: () => Promise<T>): Promise<T> {
+    const key = cacheKey(functionName, args);
+    const cached = this.entries.get(key);
+    if (cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now())) {
+      return cached.value as Promise<T>;
+    }
+
+    const accounts = args.filter(isAddress).map(normalizeAccount);
+    const entry: CacheEntry = { value: read(), accounts, functionName };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+
+    entry.value.then(
+      () => { entry.expiresAt = Date.now() + ttlMs; },
+      // Only drop our own entry; it may have been invalidated and replaced meanwhile
+      () => { if (this.entries.get(key) === entry) this.entries.delete(key); },
+    );
+    return entry.value as Promise<T>;
+  }
+
+  /**
+   * Drop every view read with `address` among its arguments, and every view of `functionNames`
+   */
+  invalidate(address?: string, functionNames: string[] = []): void {
+    const account = address && normalizeAccount(address);
+    for (const [key, entry] of this.entries) {
+      if ((account && entry.accounts.includes(account)) || functionNames.includes(entry.functionName)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop one view's cached result for exactly these arguments
+   */
+  invalidateCall(functionName: string, args: unknown[]): void {
+    this.entries.delete(cacheKey(functionName, args));
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+const isAddress = (arg: unknown): arg is string => typeof arg === 'string' && ADDRESS_ARGUMENT.test(arg);
+
+function normalizeAccount(address: string): string {
+  try {
+    return normalizeAddress('aptos', address);
+  } catch {
+    return address.toLowerCase();
+  }
+}
+
+// Addresses are normalized so that every spelling of one shares an entry
+const cacheKey = (functionName: string, args: unknown[]) =>
+  `${functionName}(${JSON.stringify(args.map((arg) => (isAddress(arg) ? normalizeAccount(arg) : arg)))})`;
@@ -0,0 +1,61 @@
+import {
+  Account,
+  type AccountAddress,
+  type AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  type AnyRawTransaction,
+  type Ed25519Account,
+  Ed25519PrivateKey,
+  type Ed25519PublicKey,
+  Ed25519Signature,
+  generateSigningMessageForTransaction,
+} from '@aptos-labs/ts-sdk';
+import type { RemoteSigner } from './remote';
+import type { AptosSigner } from './types';
+
+/**
+ * Signs with an Ed25519 private key held in memory
+ */
+export class KeyAptosSigner implements AptosSigner {
+  private account: Ed25519Account;
+
+  constructor(privateKey: Ed25519PrivateKey) {
+    this.account = Account.fromPrivateKey({ privateKey });
+  }
+
+  /**
+   * A signer with a freshly generated key, for tests and local development
+   */
+  static generate(): KeyAptosSigner {
+    return new KeyAptosSigner(Ed25519PrivateKey.generate());
+  }
+
+  get accountAddress(): AccountAddress {
+    return this.account.accountAddress;
+  }
+
+  get publicKey(): Ed25519PublicKey {
+    return this.account.publicKey;
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    return this.account.signTransactionWithAuthenticator(transaction);
+  }
+}
+
+/**
+ * Signs through a `RemoteSigner` holding the key of an Ed25519 account
+ */
+export class RemoteAptosSigner implements AptosSigner {
+  readonly accountAddress: AccountAddress;
+
+  constructor(private remote: RemoteSigner, readonly publicKey: Ed25519PublicKey) {
+    this.accountAddress = publicKey.authKey().derivedAddress();
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    const message = generateSigningMessageForTransaction(transaction);
+    const signature = await this.remote.sign('aptos', this.publicKey.toString(), message);
+    return new AccountAuthenticatorEd25519(this.publicKey, new Ed25519Signature(signature));
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  AbstractSigner,
+  type Provider,
+  Signature,
+  Transaction,
+  type TransactionLike,
+  type TransactionRequest,
+  type TypedDataDomain,
+  type TypedDataField,
+  TypedDataEncoder,
+  copyRequest,
+  getAddress,
+  getBytes,
+  hashMessage,
+  hexlify,
+  resolveAddress,
+} from 'ethers';
+import type { RemoteSigner } from './remote';
+import type { EVMSigner } from './types';
+
+/**
+ * An ethers signer whose key is held by a `RemoteSigner`. Transactions are
+ * populated and serialized locally; only their digest is sent to be signed.
+ */
+export class RemoteEVMSigner extends AbstractSigner implements EVMSigner {
+  readonly address: string;
+
+  constructor(private remote: RemoteSigner, address: string, provider: Provider | null = null) {
+    super(provider);
+    this.address = getAddress(address);
+  }
+
+  connect(provider: Provider | null): RemoteEVMSigner {
+    return new RemoteEVMSigner(this.remote, this.address, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(request: TransactionRequest): Promise<string> {
+    const tx = copyRequest(request);
+    if (tx.to) {
+      tx.to = await resolveAddress(tx.to, this.provider);
+    }
+    if (tx.from) {
+      if (getAddress(await resolveAddress(tx.from, this.provider)) !== this.address) {
+        throw new Error(`Transaction is from ${tx.from}, not the remote signer ${this.address}`);
+      }
+      delete tx.from;
+    }
+
+    const transaction = Transaction.from(tx as TransactionLike<string>);
+    transaction.signature = await this.signDigest(transaction.unsignedHash);
+    return transaction.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return (await this.signDigest(hashMessage(message))).serialized;
+  }
+
+  // ENS names in typed data aren't resolved; the game's contracts don't use them
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    return (await this.signDigest(TypedDataEncoder.hash(domain, types, value))).serialized;
+  }
+
+  private async signDigest(digest: string): Promise<Signature> {
+    return Signature.from(hexlify(await this.remote.sign('evm', this.address, getBytes(digest))));
+  }
+}
@@ -0,0 +1,72 @@
+import { Ed25519PrivateKey, Ed25519PublicKey } from '@aptos-labs/ts-sdk';
+import { type Provider, Wallet } from 'ethers';
+import type { Bindings, Chain } from '../types';
+import { KeyAptosSigner, RemoteAptosSigner } from './aptos';
+import { RemoteEVMSigner } from './evm';
+import { SignerPool } from './pool';
+import { RemoteSigner } from './remote';
+import type { AptosSigner, EVMSigner, SignerProvider } from './types';
+
+export * from './types';
+export { KeyAptosSigner, RemoteAptosSigner, RemoteEVMSigner, SignerPool };
+export { RemoteSigner, RemoteSignerError } from './remote';
+
+const list = (value?: string) => value?.split(',').map((item) => item.trim()).filter(Boolean) ?? [];
+
+// Pools of the same accounts share their round-robin turn
+const poolKey = (chain: Chain, addresses: string[]) => `${chain}:${addresses.join(',')}`;
+
+/**
+ * Pick the Aptos signers from the environment: the accounts of
+ * `APTOS_SIGNER_PUBLIC_KEYS` signed for by `SIGNER_URL`, then the
+ * comma-separated keys of `APTOS_PRIVATE_KEY`, or null when neither is set.
+ * The first account is the primary one.
+ */
+export function createAptosSigners(env?: Bindings): SignerProvider<AptosSigner> | null {
+  const publicKeys = list(env?.APTOS_SIGNER_PUBLIC_KEYS);
+  if (env?.SIGNER_URL && publicKeys.length > 0) {
+    const remote = new RemoteSigner(env.SIGNER_URL, env.SIGNER_TOKEN);
+    const signers = publicKeys.map((publicKey) => new RemoteAptosSigner(remote, new Ed25519PublicKey(publicKey)));
+    return new SignerPool(signers, poolKey('aptos', signers.map((signer) => signer.accountAddress.toString())));
+  }
+
+  const privateKeys = list(env?.APTOS_PRIVATE_KEY);
+  if (privateKeys.length === 0) {
+    return null;
+  }
+  const signers = privateKeys.map((privateKey) => new KeyAptosSigner(new Ed25519PrivateKey(privateKey)));
+  return new SignerPool(signers, poolKey('aptos', signers.map((signer) => signer.accountAddress.toString())));
+}
+
+/**
+ * Pick the EVM signers from the environment, connected to `provider`: the
+ * addresses of `EVM_SIGNER_ADDRESSES` signed for by `SIGNER_URL`, then the
+ * comma-separated keys of `EVM_PRIVATE_KEY`, or null when neither is set.
+ * The first account is the primary one.
+ */
+export function createEVMSigners(env: Bindings | undefined, provider: Provider): SignerProvider<EVMSigner> | null {
+  const addresses = list(env?.EVM_SIGNER_ADDRESSES);
+  if (env?.SIGNER_URL && addresses.length > 0) {
+    const remote = new RemoteSigner(env.SIGNER_URL, env.SIGNER_TOKEN);
+    const signers = addresses.map((address) => new RemoteEVMSigner(remote, address, provider));
+    return new SignerPool(signers, poolKey('evm', signers.map((signer) => signer.address)));
+  }
+
+  const privateKeys = list(env?.EVM_PRIVATE_KEY);
+  if (privateKeys.length === 0) {
+    return null;
+  }
+  const signers = privateKeys.map((privateKey) => new Wallet(privateKey, provider));
+  return new SignerPool(signers, poolKey('evm', signers.map((signer) => signer.address)));
+}
+
+/**
+ * Signers with freshly generated keys, for tests and local development
+ */
+export function createLocalAptosSigners(count = 1): SignerProvider<AptosSigner> {
+  return new SignerPool(Array.from({ length: count }, () => KeyAptosSigner.generate()));
+}
+
+export function createLocalEVMSigners(count = 1, provider: Provider | null = null): SignerProvider<EVMSigner> {
+  return new SignerPool(Array.from({ length: count }, () => Wallet.createRandom(provider)));
+}
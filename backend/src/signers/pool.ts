@@ -0,0 +1,30 @@
+import type { SignerProvider } from './types';
+
+/**
+ * A fixed set of signers handed out round-robin. A single configured key is
+ * a pool of one. Services are built per request, so pools built with the
+ * same `key` share their turn within the isolate / process; by default a
+ * pool keeps its own.
+ */
+export class SignerPool<T> implements SignerProvider<T> {
+  private static cursors = new Map<string, number>();
+
+  readonly signers: readonly T[];
+
+  constructor(signers: T[], private key: string = crypto.randomUUID()) {
+    if (signers.length === 0) {
+      throw new Error('A signer pool needs at least one signer');
+    }
+    this.signers = signers;
+  }
+
+  get primary(): T {
+    return this.signers[0];
+  }
+
+  next(): T {
+    const cursor = SignerPool.cursors.get(this.key) ?? 0;
+    SignerPool.cursors.set(this.key, (cursor + 1) % this.signers.length);
+    return this.signers[cursor % this.signers.length];
+  }
+}
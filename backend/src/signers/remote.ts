@@ -0,0 +1,49 @@
+import { Hex } from '@aptos-labs/ts-sdk';
+import type { Chain } from '../types';
+
+const SIGN_TIMEOUT_MS = 10_000;
+
+export class RemoteSignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+/**
+ * Client of a signing service that holds the backend's keys, so they never
+ * reach the Worker. It is sent `POST <url>/sign` with
+ * `{ chain, signer, message }` (hex) and answers `{ signature }` (hex):
+ * an Ed25519 signature of the message on Aptos, where `signer` is the
+ * account's public key, or a 65-byte `r || s || v` signature of the
+ * 32-byte digest on EVM, where `signer` is the address.
+ */
+export class RemoteSigner {
+  constructor(private url: string, private token?: string) {}
+
+  async sign(chain: Chain, signer: string, message: Uint8Array): Promise<Uint8Array> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url.replace(/\/+$/, '')}/sign`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token && { Authorization: `Bearer ${this.token}` }),
+        },
+        body: JSON.stringify({ chain, signer, message: Hex.fromHexInput(message).toString() }),
+        signal: AbortSignal.timeout(SIGN_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw new RemoteSignerError(`Remote signer unreachable: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new RemoteSignerError(`Remote signer refused to sign for ${signer}: HTTP ${response.status}`);
+    }
+    const body = await response.json().catch(() => null) as { signature?: unknown } | null;
+    if (typeof body?.signature !== 'string') {
+      throw new RemoteSignerError('Remote signer returned no signature');
+    }
+    return Hex.fromHexInput(body.signature).toUint8Array();
+  }
+}
@@ -0,0 +1,32 @@
+import type { AccountAddress, AccountAuthenticator, AnyRawTransaction, PublicKey } from '@aptos-labs/ts-sdk';
+import type { AbstractSigner, Provider } from 'ethers';
+
+/**
+ * An Aptos account the backend can sign transactions as
+ */
+export interface AptosSigner {
+  readonly accountAddress: AccountAddress;
+  readonly publicKey: PublicKey;
+  /** Sign as the sender, or as the fee payer once `feePayerAddress` is set to this account */
+  signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator>;
+}
+
+/**
+ * An EVM account the backend sends transactions from
+ */
+export interface EVMSigner extends AbstractSigner {
+  readonly address: string;
+  connect(provider: Provider | null): EVMSigner;
+}
+
+/**
+ * The accounts the backend signs with on one chain
+ */
+export interface SignerProvider<T> {
+  /** The account that owns the game's contracts; signs everything only it may */
+  readonly primary: T;
+  /** Every account, primary first */
+  readonly signers: readonly T[];
+  /** The next account in round-robin order, for work any of them can do */
+  next(): T;
+}
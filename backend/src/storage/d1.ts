@@ -0,0 +1,578 @@
+import type { PlayerProfile } from '../types';
+import type {
+  Battle,
+  BattleRepository,
+  BattleStatus,
+  BattleUpdate,
+  ChainEvent,
+  ChainEventQuery,
+  ChainEventRepository,
+  CheckpointRepository,
+  Job,
+  JobRepository,
+  JobStatus,
+  JobUpdate,
+  LoginNonceRepository,
+  NewBattle,
+  NewJob,
+  NewRewardLedgerEntry,
+  NewShopOffer,
+  NewSponsorship,
+  PlayerRepository,
+  PlayerUpdate,
+  RewardLedgerEntry,
+  RewardLedgerRepository,
+  RewardLedgerUpdate,
+  RewardStatus,
+  SettingsRepository,
+  ShopOffer,
+  ShopOfferPurchase,
+  ShopOfferRepository,
+  ShopOfferStatus,
+  ShopOfferUpdate,
+  Sponsorship,
+  SponsorshipRepository,
+  Storage,
+} from './types';
+
+const now = () => new Date().toISOString();
+
+const toProfile = (row: any): PlayerProfile => ({
+  walletAddress: row.wallet_address,
+  xp: row.xp,
+  level: row.level,
+  gold: row.gold,
+  balance: row.balance,
+  nfts: JSON.parse(row.nfts),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toLedgerEntry = (row: any): RewardLedgerEntry => ({
+  walletAddress: row.wallet_address,
+  rewardType: row.reward_type,
+  amount: row.amount,
+  status: row.status,
+  idempotencyKey: row.idempotency_key ?? undefined,
+  jobId: row.job_id ?? undefined,
+  recipient: row.recipient ?? undefined,
+  transactionHash: row.transaction_hash || undefined,
+  error: row.error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toJob = (row: any): Job => ({
+  id: row.id,
+  type: row.type,
+  payload: JSON.parse(row.payload),
+  status: row.status,
+  attempts: row.attempts,
+  transactionHash: row.transaction_hash ?? undefined,
+  vmStatus: row.vm_status ?? undefined,
+  error: row.error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toChainEvent = (row: any): ChainEvent => ({
+  transactionVersion: row.transaction_version,
+  eventIndex: row.event_index,
+  type: row.type,
+  walletAddress: row.wallet_address,
+  fromAddress: row.from_address ?? undefined,
+  amount: row.amount ?? undefined,
+  tokenName: row.token_name ?? undefined,
+  data: JSON.parse(row.data),
+  timestamp: row.timestamp,
+});
+
+const toShopOffer = (row: any): ShopOffer => ({
+  id: row.id,
+  walletAddress: row.wallet_address,
+  chain: row.chain,
+  metadataId: row.metadata_id,
+  price: row.price,
+  status: row.status,
+  expiresAt: row.expires_at,
+  paidPrice: row.paid_price ?? undefined,
+  battleId: row.battle_id ?? undefined,
+  paymentTransactionHash: row.payment_transaction_hash ?? undefined,
+  burnTransactionHash: row.burn_transaction_hash ?? undefined,
+  mintedTokenId: row.minted_token_id ?? undefined,
+  transactionHash: row.transaction_hash ?? undefined,
+  error: row.error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toBattle = (row: any): Battle => ({
+  id: row.id,
+  walletAddress: row.wallet_address,
+  chain: row.chain,
+  offerId: row.offer_id,
+  seed: row.seed,
+  status: row.status,
+  playerHealth: row.player_health ?? undefined,
+  npcHealth: row.npc_health ?? undefined,
+  expiresAt: row.expires_at,
+  error: row.error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toSponsorship = (row: any): Sponsorship => ({
+  id: row.id,
+  walletAddress: row.wallet_address,
+  function: row.function,
+  maxGasAmount: row.max_gas_amount,
+  createdAt: row.created_at,
+});
+
+/**
+ * Build `col = ?` assignments for the defined fields of an update,
+ * mapping camelCase fields to their snake_case columns
+ */
+function assignments(update: Record<string, unknown>, columns: Record<string, string>) {
+  const entries = Object.entries(update).filter(([field, value]) => value !== undefined && field in columns);
+  return {
+    sql: entries.map(([field]) => `${columns[field]} = ?`).join(', '),
+    values: entries.map(([field, value]) => (field === 'nfts' ? JSON.stringify(value) : value)),
+  };
+}
+
+const PLAYER_COLUMNS = { xp: 'xp', level: 'level', gold: 'gold', balance: 'balance', nfts: 'nfts' };
+const LEDGER_COLUMNS = {
+  status: 'status',
+  idempotencyKey: 'idempotency_key',
+  jobId: 'job_id',
+  recipient: 'recipient',
+  transactionHash: 'transaction_hash',
+  error: 'error',
+};
+const JOB_COLUMNS = {
+  status: 'status',
+  attempts: 'attempts',
+  transactionHash: 'transaction_hash',
+  vmStatus: 'vm_status',
+  error: 'error',
+};
+const SHOP_OFFER_COLUMNS = {
+  status: 'status',
+  paidPrice: 'paid_price',
+  battleId: 'battle_id',
+  paymentTransactionHash: 'payment_transaction_hash',
+  burnTransactionHash: 'burn_transaction_hash',
+  mintedTokenId: 'minted_token_id',
+  transactionHash: 'transaction_hash',
+  error: 'error',
+};
+
+const BATTLE_COLUMNS = {
+  status: 'status',
+  playerHealth: 'player_health',
+  npcHealth: 'npc_health',
+  error: 'error',
+};
+
+const reservationKey = (offer: Pick<ShopOffer, 'chain' | 'metadataId'>) => `${offer.chain}:${offer.metadataId}`;
+
+class D1PlayerRepository implements PlayerRepository {
+  constructor(private db: D1Database) {}
+
+  async get(walletAddress: string): Promise<PlayerProfile | null> {
+    const row = await this.db.prepare('SELECT * FROM players WHERE wallet_address = ?').bind(walletAddress).first();
+    return row ? toProfile(row) : null;
+  }
+
+  async upsert(walletAddress: string, update: PlayerUpdate): Promise<PlayerProfile> {
+    const timestamp = now();
+    await this.db
+      .prepare('INSERT OR IGNORE INTO players (wallet_address, created_at, updated_at) VALUES (?, ?, ?)')
+      .bind(walletAddress, timestamp, timestamp)
+      .run();
+
+    const { sql, values } = assignments(update, PLAYER_COLUMNS);
+    const row = await this.db
+      .prepare(`UPDATE players SET ${sql ? `${sql}, ` : ''}updated_at = ? WHERE wallet_address = ? RETURNING *`)
+      .bind(...values, timestamp, walletAddress)
+      .first();
+    return toProfile(row);
+  }
+}
+
+class D1RewardLedgerRepository implements RewardLedgerRepository {
+  constructor(private db: D1Database) {}
+
+  async get(walletAddress: string, rewardType: string): Promise<RewardLedgerEntry | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM reward_ledger WHERE wallet_address = ? AND reward_type = ?')
+      .bind(walletAddress, rewardType)
+      .first();
+    return row ? toLedgerEntry(row) : null;
+  }
+
+  async claim(entry: NewRewardLedgerEntry): Promise<{ entry: RewardLedgerEntry; created: boolean }> {
+    const timestamp = now();
+    const result = await this.db
+      .prepare(
+        `INSERT OR IGNORE INTO reward_ledger
+          (wallet_address, reward_type, amount, status, idempotency_key, recipient, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .bind(
+        entry.walletAddress,
+        entry.rewardType,
+        entry.amount,
+        entry.status ?? 'pending',
+        entry.idempotencyKey ?? null,
+        entry.recipient ?? null,
+        timestamp,
+        timestamp,
+      )
+      .run();
+
+    const stored = await this.get(entry.walletAddress, entry.rewardType);
+    return { entry: stored!, created: result.meta.changes > 0 };
+  }
+
+  async update(
+    walletAddress: string,
+    rewardType: string,
+    update: RewardLedgerUpdate,
+    expectedStatuses?: RewardStatus[],
+  ): Promise<RewardLedgerEntry | null> {
+    const { sql, values } = assignments(update, LEDGER_COLUMNS);
+    const statusFilter = expectedStatuses ? ` AND status IN (${expectedStatuses.map(() => '?').join(', ')})` : '';
+    const row = await this.db
+      .prepare(
+        `UPDATE reward_ledger SET ${sql ? `${sql}, ` : ''}updated_at = ?
+          WHERE wallet_address = ? AND reward_type = ?${statusFilter} RETURNING *`,
+      )
+      .bind(...values, now(), walletAddress, rewardType, ...(expectedStatuses ?? []))
+      .first();
+    return row ? toLedgerEntry(row) : null;
+  }
+
+  async listByStatus(rewardType: string, statuses: RewardStatus[], limit = 100): Promise<RewardLedgerEntry[]> {
+    if (statuses.length === 0) return [];
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM reward_ledger WHERE reward_type = ? AND status IN (${statuses.map(() => '?').join(', ')})
+          ORDER BY created_at LIMIT ?`,
+      )
+      .bind(rewardType, ...statuses, limit)
+      .all();
+    return results.map(toLedgerEntry);
+  }
+}
+
+class D1JobRepository implements JobRepository {
+  constructor(private db: D1Database) {}
+
+  async create(job: NewJob): Promise<Job> {
+    const timestamp = now();
+    const row = await this.db
+      .prepare('INSERT INTO jobs (id, type, payload, created_at, updated_at) VALUES (?, ?, ?, ?, ?) RETURNING *')
+      .bind(crypto.randomUUID(), job.type, JSON.stringify(job.payload ?? null), timestamp, timestamp)
+      .first();
+    return toJob(row);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const row = await this.db.prepare('SELECT * FROM jobs WHERE id = ?').bind(id).first();
+    return row ? toJob(row) : null;
+  }
+
+  async update(id: string, update: JobUpdate, expectedStatuses?: JobStatus[]): Promise<Job | null> {
+    const { sql, values } = assignments(update, JOB_COLUMNS);
+    const statusFilter = expectedStatuses ? ` AND status IN (${expectedStatuses.map(() => '?').join(', ')})` : '';
+    const row = await this.db
+      .prepare(`UPDATE jobs SET ${sql ? `${sql}, ` : ''}updated_at = ? WHERE id = ?${statusFilter} RETURNING *`)
+      .bind(...values, now(), id, ...(expectedStatuses ?? []))
+      .first();
+    return row ? toJob(row) : null;
+  }
+}
+
+class D1ChainEventRepository implements ChainEventRepository {
+  constructor(private db: D1Database) {}
+
+  async insert(events: ChainEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+    const statement = this.db.prepare(
+      `INSERT OR IGNORE INTO chain_events
+        (transaction_version, event_index, type, wallet_address, from_address, amount, token_name, data, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const results = await this.db.batch(events.map((event) => statement.bind(
+      event.transactionVersion,
+      event.eventIndex,
+      event.type,
+      event.walletAddress,
+      event.fromAddress ?? null,
+      event.amount ?? null,
+      event.tokenName ?? null,
+      JSON.stringify(event.data),
+      event.timestamp,
+    )));
+    return results.reduce((inserted, result) => inserted + result.meta.changes, 0);
+  }
+
+  async list({ type, address, before, limit }: ChainEventQuery): Promise<ChainEvent[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (type) {
+      const types = [type].flat();
+      conditions.push(`type IN (${types.map(() => '?').join(', ')})`);
+      values.push(...types);
+    }
+    if (address) {
+      conditions.push('(wallet_address = ? OR from_address = ?)');
+      values.push(address, address);
+    }
+    if (before) {
+      conditions.push('(transaction_version < ? OR (transaction_version = ? AND event_index < ?))');
+      values.push(before.transactionVersion, before.transactionVersion, before.eventIndex);
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM chain_events${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}
+          ORDER BY transaction_version DESC, event_index DESC LIMIT ?`,
+      )
+      .bind(...values, limit)
+      .all();
+    return results.map(toChainEvent);
+  }
+}
+
+class D1CheckpointRepository implements CheckpointRepository {
+  constructor(private db: D1Database) {}
+
+  async get(name: string): Promise<string | null> {
+    const row = await this.db.prepare('SELECT value FROM checkpoints WHERE name = ?').bind(name).first<{ value: string }>();
+    return row?.value ?? null;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO checkpoints (name, value, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT (name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      )
+      .bind(name, value, now())
+      .run();
+  }
+}
+
+class D1ShopOfferRepository implements ShopOfferRepository {
+  constructor(private db: D1Database) {}
+
+  async reserve(offer: NewShopOffer): Promise<ShopOffer | null> {
+    const timestamp = now();
+    const key = reservationKey(offer);
+    // Release the key from an expired offer, then take it unless a live offer still has it
+    const [, inserted] = await this.db.batch([
+      this.db
+        .prepare(`UPDATE shop_offers SET reservation_key = NULL WHERE reservation_key = ? AND status = 'open' AND expires_at <= ?`)
+        .bind(key, timestamp),
+      this.db
+        .prepare(
+          `INSERT OR IGNORE INTO shop_offers
+            (id, wallet_address, chain, metadata_id, price, expires_at, reservation_key, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+        )
+        .bind(
+          crypto.randomUUID(),
+          offer.walletAddress,
+          offer.chain,
+          offer.metadataId,
+          offer.price,
+          offer.expiresAt,
+          key,
+          timestamp,
+          timestamp,
+        ),
+    ]);
+    const row = inserted.results[0];
+    return row ? toShopOffer(row) : null;
+  }
+
+  async get(id: string): Promise<ShopOffer | null> {
+    const row = await this.db.prepare('SELECT * FROM shop_offers WHERE id = ?').bind(id).first();
+    return row ? toShopOffer(row) : null;
+  }
+
+  async getByPaymentTransaction(transactionHash: string): Promise<ShopOffer | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM shop_offers WHERE payment_transaction_hash = ?')
+      .bind(transactionHash)
+      .first();
+    return row ? toShopOffer(row) : null;
+  }
+
+  async update(id: string, update: ShopOfferUpdate, expectedStatuses?: ShopOfferStatus[]): Promise<ShopOffer | null> {
+    const { sql, values } = assignments(update, SHOP_OFFER_COLUMNS);
+    // A failed offer gives its metadata ID back
+    const release = update.status === 'failed' ? 'reservation_key = NULL, ' : '';
+    const statusFilter = expectedStatuses ? ` AND status IN (${expectedStatuses.map(() => '?').join(', ')})` : '';
+    const row = await this.db
+      .prepare(`UPDATE shop_offers SET ${sql ? `${sql}, ` : ''}${release}updated_at = ? WHERE id = ?${statusFilter} RETURNING *`)
+      .bind(...values, now(), id, ...(expectedStatuses ?? []))
+      .first();
+    return row ? toShopOffer(row) : null;
+  }
+
+  async claimPurchase(id: string, purchase: ShopOfferPurchase): Promise<{ offer: ShopOffer | null; paymentUsed: boolean }> {
+    try {
+      return { offer: await this.update(id, { ...purchase, status: 'purchasing' }, ['open']), paymentUsed: false };
+    } catch (error) {
+      // payment_transaction_hash is UNIQUE
+      if (!String(error).includes('UNIQUE constraint failed: shop_offers.payment_transaction_hash')) throw error;
+      return { offer: null, paymentUsed: true };
+    }
+  }
+
+  async countPurchasedSince(chain: ShopOffer['chain'], since: string): Promise<number> {
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM shop_offers WHERE status = 'purchased' AND chain = ? AND updated_at >= ?`)
+      .bind(chain, since)
+      .first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+}
+
+class D1BattleRepository implements BattleRepository {
+  constructor(private db: D1Database) {}
+
+  async create(battle: NewBattle): Promise<Battle | null> {
+    const timestamp = now();
+    const row = await this.db
+      .prepare(
+        `INSERT OR IGNORE INTO battles (id, wallet_address, chain, offer_id, seed, expires_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+      )
+      .bind(
+        crypto.randomUUID(),
+        battle.walletAddress,
+        battle.chain,
+        battle.offerId,
+        battle.seed,
+        battle.expiresAt,
+        timestamp,
+        timestamp,
+      )
+      .first();
+    return row ? toBattle(row) : null;
+  }
+
+  async get(id: string): Promise<Battle | null> {
+    const row = await this.db.prepare('SELECT * FROM battles WHERE id = ?').bind(id).first();
+    return row ? toBattle(row) : null;
+  }
+
+  async update(id: string, update: BattleUpdate, expectedStatuses?: BattleStatus[]): Promise<Battle | null> {
+    const { sql, values } = assignments(update, BATTLE_COLUMNS);
+    const statusFilter = expectedStatuses ? ` AND status IN (${expectedStatuses.map(() => '?').join(', ')})` : '';
+    const row = await this.db
+      .prepare(`UPDATE battles SET ${sql ? `${sql}, ` : ''}updated_at = ? WHERE id = ?${statusFilter} RETURNING *`)
+      .bind(...values, now(), id, ...(expectedStatuses ?? []))
+      .first();
+    return row ? toBattle(row) : null;
+  }
+}
+
+class D1SponsorshipRepository implements SponsorshipRepository {
+  constructor(private db: D1Database) {}
+
+  async reserve(sponsorship: NewSponsorship, since: string, limit: number): Promise<Sponsorship | null> {
+    // Counting and inserting in one statement keeps concurrent requests from overrunning the quota
+    const row = await this.db
+      .prepare(
+        `INSERT INTO sponsorships (id, wallet_address, function, max_gas_amount, created_at)
+          SELECT ?, ?, ?, ?, ?
+          WHERE (SELECT COUNT(*) FROM sponsorships WHERE wallet_address = ? AND created_at >= ?) < ?
+          RETURNING *`,
+      )
+      .bind(
+        crypto.randomUUID(),
+        sponsorship.walletAddress,
+        sponsorship.function,
+        sponsorship.maxGasAmount,
+        now(),
+        sponsorship.walletAddress,
+        since,
+        limit,
+      )
+      .first();
+    return row ? toSponsorship(row) : null;
+  }
+}
+
+class D1LoginNonceRepository implements LoginNonceRepository {
+  constructor(private db: D1Database) {}
+
+  async use(nonce: string, expiresAt: string): Promise<boolean> {
+    // Expired challenges are refused anyway, so their nonces can go
+    const [, inserted] = await this.db.batch([
+      this.db.prepare('DELETE FROM login_nonces WHERE expires_at < ?').bind(now()),
+      this.db.prepare('INSERT OR IGNORE INTO login_nonces (nonce, expires_at) VALUES (?, ?)').bind(nonce, expiresAt),
+    ]);
+    return inserted.meta.changes > 0;
+  }
+}
+
+class D1SettingsRepository implements SettingsRepository {
+  constructor(private db: D1Database) {}
+
+  async get<T>(name: string): Promise<T | null> {
+    const row = await this.db.prepare('SELECT value FROM settings WHERE name = ?').bind(name).first<{ value: string }>();
+    return row ? JSON.parse(row.value) as T : null;
+  }
+
+  async set(name: string, value: unknown): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO settings (name, value, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT (name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      )
+      .bind(name, JSON.stringify(value), now())
+      .run();
+  }
+}
+
+/**
+ * Storage backed by a Cloudflare D1 (SQLite) database bound as `DB`.
+ * Apply the schema with `wrangler d1 migrations apply`.
+ */
+export class D1Storage implements Storage {
+  readonly kind = 'd1';
+  players: PlayerRepository;
+  rewards: RewardLedgerRepository;
+  jobs: JobRepository;
+  events: ChainEventRepository;
+  checkpoints: CheckpointRepository;
+  shopOffers: ShopOfferRepository;
+  battles: BattleRepository;
+  sponsorships: SponsorshipRepository;
+  loginNonces: LoginNonceRepository;
+  settings: SettingsRepository;
+
+  constructor(private db: D1Database) {
+    this.players = new D1PlayerRepository(db);
+    this.rewards = new D1RewardLedgerRepository(db);
+    this.jobs = new D1JobRepository(db);
+    this.events = new D1ChainEventRepository(db);
+    this.checkpoints = new D1CheckpointRepository(db);
+    this.shopOffers = new D1ShopOfferRepository(db);
+    this.battles = new D1BattleRepository(db);
+    this.sponsorships = new D1SponsorshipRepository(db);
+    this.loginNonces = new D1LoginNonceRepository(db);
+    this.settings = new D1SettingsRepository(db);
+  }
+
+  async ping(): Promise<void> {
+    await this.db.prepare('SELECT 1').first();
+  }
+}
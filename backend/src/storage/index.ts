@@ -0,0 +1,39 @@
+import type { Bindings } from '../types';
+import { D1Storage } from './d1';
+import { MemoryStorage } from './memory';
+import { MongoStorage } from './mongo';
+import type { Storage } from './types';
+
+export * from './types';
+export { D1Storage, MemoryStorage, MongoStorage };
+
+// Shared so that data survives across requests handled by the same isolate / process
+let memoryStorage: MemoryStorage | null = null;
+
+/**
+ * Pick the storage backend from the environment: a D1 `DB` binding
+ * (wrangler), then `MONGO_URI` (Node). In-memory storage has to be asked for
+ * with `STORAGE=memory`, so a deployment missing its database fails instead
+ * of losing data.
+ */
+export function createStorage(env?: Bindings): Storage {
+  if (env?.DB) {
+    return new D1Storage(env.DB);
+  }
+
+  const mongoUri = env?.MONGO_URI || (typeof process !== 'undefined' ? process.env.MONGO_URI : undefined);
+  if (mongoUri) {
+    return new MongoStorage(mongoUri);
+  }
+
+  const storage = env?.STORAGE || (typeof process !== 'undefined' ? process.env.STORAGE : undefined);
+  if (storage !== 'memory') {
+    throw new Error('No storage configured. Bind D1 as DB, set MONGO_URI, or set STORAGE=memory for in-memory storage.');
+  }
+
+  if (!memoryStorage) {
+    console.warn('STORAGE=memory: using in-memory storage; data will not persist.');
+    memoryStorage = new MemoryStorage();
+  }
+  return memoryStorage;
+}
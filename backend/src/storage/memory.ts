@@ -0,0 +1,330 @@
+import type { PlayerProfile } from '../types';
+import type {
+  Battle,
+  BattleRepository,
+  BattleStatus,
+  BattleUpdate,
+  ChainEvent,
+  ChainEventPosition,
+  ChainEventQuery,
+  ChainEventRepository,
+  CheckpointRepository,
+  Job,
+  JobRepository,
+  JobStatus,
+  JobUpdate,
+  LoginNonceRepository,
+  NewBattle,
+  NewJob,
+  NewRewardLedgerEntry,
+  NewShopOffer,
+  NewSponsorship,
+  PlayerRepository,
+  PlayerUpdate,
+  RewardLedgerEntry,
+  RewardLedgerRepository,
+  RewardLedgerUpdate,
+  RewardStatus,
+  SettingsRepository,
+  ShopOffer,
+  ShopOfferPurchase,
+  ShopOfferRepository,
+  ShopOfferStatus,
+  ShopOfferUpdate,
+  Sponsorship,
+  SponsorshipRepository,
+  Storage,
+} from './types';
+
+const now = () => new Date().toISOString();
+const ledgerKey = (walletAddress: string, rewardType: string) => `${walletAddress}:${rewardType}`;
+const eventKey = ({ transactionVersion, eventIndex }: ChainEventPosition) => `${transactionVersion}:${eventIndex}`;
+const comparePositions = (a: ChainEventPosition, b: ChainEventPosition) =>
+  a.transactionVersion - b.transactionVersion || a.eventIndex - b.eventIndex;
+
+class MemoryPlayerRepository implements PlayerRepository {
+  private players = new Map<string, PlayerProfile>();
+
+  async get(walletAddress: string): Promise<PlayerProfile | null> {
+    const player = this.players.get(walletAddress);
+    return player ? structuredClone(player) : null;
+  }
+
+  async upsert(walletAddress: string, update: PlayerUpdate): Promise<PlayerProfile> {
+    const current = this.players.get(walletAddress) ?? {
+      walletAddress,
+      xp: 0,
+      level: 1,
+      gold: 0,
+      balance: 0,
+      nfts: [],
+      createdAt: now(),
+    };
+    const player = { ...current, ...structuredClone(update), walletAddress, updatedAt: now() };
+    this.players.set(walletAddress, player);
+    return structuredClone(player);
+  }
+}
+
+class MemoryRewardLedgerRepository implements RewardLedgerRepository {
+  private entries = new Map<string, RewardLedgerEntry>();
+
+  async get(walletAddress: string, rewardType: string): Promise<RewardLedgerEntry | null> {
+    const entry = this.entries.get(ledgerKey(walletAddress, rewardType));
+    return entry ? { ...entry } : null;
+  }
+
+  async claim(entry: NewRewardLedgerEntry): Promise<{ entry: RewardLedgerEntry; created: boolean }> {
+    const key = ledgerKey(entry.walletAddress, entry.rewardType);
+    const existing = this.entries.get(key);
+    if (existing) {
+      return { entry: { ...existing }, created: false };
+    }
+
+    const timestamp = now();
+    const created: RewardLedgerEntry = { status: 'pending', ...entry, createdAt: timestamp, updatedAt: timestamp };
+    this.entries.set(key, created);
+    return { entry: { ...created }, created: true };
+  }
+
+  async update(
+    walletAddress: string,
+    rewardType: string,
+    update: RewardLedgerUpdate,
+    expectedStatuses?: RewardStatus[],
+  ): Promise<RewardLedgerEntry | null> {
+    const key = ledgerKey(walletAddress, rewardType);
+    const existing = this.entries.get(key);
+    if (!existing || (expectedStatuses && !expectedStatuses.includes(existing.status))) return null;
+
+    const entry = { ...existing, ...update, updatedAt: now() };
+    if (!entry.transactionHash) delete entry.transactionHash;
+    if (!entry.error) delete entry.error;
+    this.entries.set(key, entry);
+    return { ...entry };
+  }
+
+  async listByStatus(rewardType: string, statuses: RewardStatus[], limit = 100): Promise<RewardLedgerEntry[]> {
+    return [...this.entries.values()]
+      .filter((entry) => entry.rewardType === rewardType && statuses.includes(entry.status))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, limit)
+      .map((entry) => ({ ...entry }));
+  }
+}
+
+class MemoryJobRepository implements JobRepository {
+  private jobs = new Map<string, Job>();
+
+  async create(job: NewJob): Promise<Job> {
+    const timestamp = now();
+    const created: Job = {
+      id: crypto.randomUUID(),
+      type: job.type,
+      payload: structuredClone(job.payload),
+      status: 'queued',
+      attempts: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    this.jobs.set(created.id, created);
+    return structuredClone(created);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async update(id: string, update: JobUpdate, expectedStatuses?: JobStatus[]): Promise<Job | null> {
+    const existing = this.jobs.get(id);
+    if (!existing || (expectedStatuses && !expectedStatuses.includes(existing.status))) return null;
+
+    const job = { ...existing, ...update, updatedAt: now() };
+    this.jobs.set(id, job);
+    return structuredClone(job);
+  }
+}
+
+class MemoryChainEventRepository implements ChainEventRepository {
+  private events = new Map<string, ChainEvent>();
+
+  async insert(events: ChainEvent[]): Promise<number> {
+    let inserted = 0;
+    for (const event of events) {
+      const key = eventKey(event);
+      if (this.events.has(key)) continue;
+      this.events.set(key, structuredClone(event));
+      inserted++;
+    }
+    return inserted;
+  }
+
+  async list({ type, address, before, limit }: ChainEventQuery): Promise<ChainEvent[]> {
+    const types = type && [type].flat();
+    return [...this.events.values()]
+      .filter((event) =>
+        (!types || types.includes(event.type)) &&
+        (!address || event.walletAddress === address || event.fromAddress === address) &&
+        (!before || comparePositions(event, before) < 0))
+      .sort((a, b) => comparePositions(b, a))
+      .slice(0, limit)
+      .map((event) => structuredClone(event));
+  }
+}
+
+class MemoryCheckpointRepository implements CheckpointRepository {
+  private checkpoints = new Map<string, string>();
+
+  async get(name: string): Promise<string | null> {
+    return this.checkpoints.get(name) ?? null;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    this.checkpoints.set(name, value);
+  }
+}
+
+class MemoryShopOfferRepository implements ShopOfferRepository {
+  private offers = new Map<string, ShopOffer>();
+
+  private holdsMetadataId(offer: ShopOffer, chain: ShopOffer['chain'], metadataId: number): boolean {
+    if (offer.chain !== chain || offer.metadataId !== metadataId) return false;
+    if (offer.status === 'open') return Date.parse(offer.expiresAt) > Date.now();
+    return offer.status !== 'failed';
+  }
+
+  async reserve(offer: NewShopOffer): Promise<ShopOffer | null> {
+    const held = [...this.offers.values()].some((existing) =>
+      this.holdsMetadataId(existing, offer.chain, offer.metadataId));
+    if (held) return null;
+
+    const timestamp = now();
+    const created: ShopOffer = { id: crypto.randomUUID(), ...offer, status: 'open', createdAt: timestamp, updatedAt: timestamp };
+    this.offers.set(created.id, created);
+    return { ...created };
+  }
+
+  async get(id: string): Promise<ShopOffer | null> {
+    const offer = this.offers.get(id);
+    return offer ? { ...offer } : null;
+  }
+
+  async getByPaymentTransaction(transactionHash: string): Promise<ShopOffer | null> {
+    const offer = [...this.offers.values()].find((existing) => existing.paymentTransactionHash === transactionHash);
+    return offer ? { ...offer } : null;
+  }
+
+  async update(id: string, update: ShopOfferUpdate, expectedStatuses?: ShopOfferStatus[]): Promise<ShopOffer | null> {
+    const existing = this.offers.get(id);
+    if (!existing || (expectedStatuses && !expectedStatuses.includes(existing.status))) return null;
+
+    const offer = { ...existing, ...update, updatedAt: now() };
+    this.offers.set(id, offer);
+    return { ...offer };
+  }
+
+  async claimPurchase(id: string, purchase: ShopOfferPurchase): Promise<{ offer: ShopOffer | null; paymentUsed: boolean }> {
+    const { paymentTransactionHash } = purchase;
+    if (paymentTransactionHash && [...this.offers.values()].some((offer) => offer.paymentTransactionHash === paymentTransactionHash)) {
+      return { offer: null, paymentUsed: true };
+    }
+    return { offer: await this.update(id, { ...purchase, status: 'purchasing' }, ['open']), paymentUsed: false };
+  }
+
+  async countPurchasedSince(chain: ShopOffer['chain'], since: string): Promise<number> {
+    return [...this.offers.values()]
+      .filter((offer) => offer.chain === chain && offer.status === 'purchased' && offer.updatedAt >= since)
+      .length;
+  }
+}
+
+class MemoryBattleRepository implements BattleRepository {
+  private battles = new Map<string, Battle>();
+
+  async create(battle: NewBattle): Promise<Battle | null> {
+    if ([...this.battles.values()].some((existing) => existing.offerId === battle.offerId)) return null;
+
+    const timestamp = now();
+    const created: Battle = { id: crypto.randomUUID(), ...battle, status: 'active', createdAt: timestamp, updatedAt: timestamp };
+    this.battles.set(created.id, created);
+    return { ...created };
+  }
+
+  async get(id: string): Promise<Battle | null> {
+    const battle = this.battles.get(id);
+    return battle ? { ...battle } : null;
+  }
+
+  async update(id: string, update: BattleUpdate, expectedStatuses?: BattleStatus[]): Promise<Battle | null> {
+    const existing = this.battles.get(id);
+    if (!existing || (expectedStatuses && !expectedStatuses.includes(existing.status))) return null;
+
+    const battle = { ...existing, ...update, updatedAt: now() };
+    this.battles.set(id, battle);
+    return { ...battle };
+  }
+}
+
+class MemorySponsorshipRepository implements SponsorshipRepository {
+  private sponsorships = new Map<string, Sponsorship[]>();
+
+  async reserve(sponsorship: NewSponsorship, since: string, limit: number): Promise<Sponsorship | null> {
+    // Older ones no longer count against any quota
+    const recent = (this.sponsorships.get(sponsorship.walletAddress) ?? []).filter((existing) => existing.createdAt >= since);
+    this.sponsorships.set(sponsorship.walletAddress, recent);
+    if (recent.length >= limit) return null;
+
+    const created: Sponsorship = { id: crypto.randomUUID(), ...sponsorship, createdAt: now() };
+    recent.push(created);
+    return { ...created };
+  }
+}
+
+class MemoryLoginNonceRepository implements LoginNonceRepository {
+  private nonces = new Map<string, string>();
+
+  async use(nonce: string, expiresAt: string): Promise<boolean> {
+    // Expired challenges are refused anyway, so their nonces can go
+    const timestamp = now();
+    for (const [used, until] of this.nonces) {
+      if (until < timestamp) this.nonces.delete(used);
+    }
+
+    if (this.nonces.has(nonce)) return false;
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+class MemorySettingsRepository implements SettingsRepository {
+  private settings = new Map<string, unknown>();
+
+  async get<T>(name: string): Promise<T | null> {
+    return this.settings.has(name) ? structuredClone(this.settings.get(name)) as T : null;
+  }
+
+  async set(name: string, value: unknown): Promise<void> {
+    this.settings.set(name, structuredClone(value));
+  }
+}
+
+/**
+ * Process-local storage for tests and local development without a database.
+ * Data lives only as long as the isolate / Node process.
+ */
+export class MemoryStorage implements Storage {
+  readonly kind = 'memory';
+  players = new MemoryPlayerRepository();
+  rewards = new MemoryRewardLedgerRepository();
+  jobs = new MemoryJobRepository();
+  events = new MemoryChainEventRepository();
+  checkpoints = new MemoryCheckpointRepository();
+  shopOffers = new MemoryShopOfferRepository();
+  battles = new MemoryBattleRepository();
+  sponsorships = new MemorySponsorshipRepository();
+  loginNonces = new MemoryLoginNonceRepository();
+  settings = new MemorySettingsRepository();
+
+  async ping(): Promise<void> {}
+}
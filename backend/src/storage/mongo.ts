@@ -0,0 +1,469 @@
+import mongoose from 'mongoose';
+import connectDB from '../db';
+import BattleModel from '../models/Battle';
+import ChainEventModel from '../models/ChainEvent';
+import Checkpoint from '../models/Checkpoint';
+import Job from '../models/Job';
+import LoginNonce from '../models/LoginNonce';
+import Player from '../models/Player';
+import RewardLedger from '../models/RewardLedger';
+import Setting from '../models/Setting';
+import ShopOfferModel from '../models/ShopOffer';
+import SponsorshipModel from '../models/Sponsorship';
+import type { PlayerProfile } from '../types';
+import type {
+  Battle,
+  BattleRepository,
+  BattleStatus,
+  BattleUpdate,
+  ChainEvent,
+  ChainEventQuery,
+  ChainEventRepository,
+  CheckpointRepository,
+  Job as JobRecord,
+  JobRepository,
+  JobStatus,
+  JobUpdate,
+  LoginNonceRepository,
+  NewBattle,
+  NewJob,
+  NewRewardLedgerEntry,
+  NewShopOffer,
+  NewSponsorship,
+  PlayerRepository,
+  PlayerUpdate,
+  RewardLedgerEntry,
+  RewardLedgerRepository,
+  RewardLedgerUpdate,
+  RewardStatus,
+  SettingsRepository,
+  ShopOffer,
+  ShopOfferPurchase,
+  ShopOfferRepository,
+  ShopOfferStatus,
+  ShopOfferUpdate,
+  Sponsorship,
+  SponsorshipRepository,
+  Storage,
+} from './types';
+
+const DUPLICATE_KEY = 11000;
+
+const toISO = (value: any) => new Date(value).toISOString();
+
+const toProfile = (doc: any): PlayerProfile => ({
+  walletAddress: doc.walletAddress,
+  xp: doc.xp,
+  level: doc.level,
+  gold: doc.gold,
+  balance: doc.balance,
+  nfts: (doc.nfts || []).map((nft: any) => ({ tokenId: nft.tokenId, metadata: nft.metadata })),
+  createdAt: doc.createdAt ? toISO(doc.createdAt) : undefined,
+  updatedAt: doc.updatedAt ? toISO(doc.updatedAt) : undefined,
+});
+
+const toLedgerEntry = (doc: any): RewardLedgerEntry => ({
+  walletAddress: doc.walletAddress,
+  rewardType: doc.rewardType,
+  amount: doc.amount,
+  status: doc.status,
+  idempotencyKey: doc.idempotencyKey ?? undefined,
+  jobId: doc.jobId ?? undefined,
+  recipient: doc.recipient ?? undefined,
+  transactionHash: doc.transactionHash || undefined,
+  error: doc.error || undefined,
+  createdAt: toISO(doc.createdAt),
+  updatedAt: toISO(doc.updatedAt),
+});
+
+const toJob = (doc: any): JobRecord => ({
+  id: doc._id,
+  type: doc.type,
+  payload: doc.payload,
+  status: doc.status,
+  attempts: doc.attempts,
+  transactionHash: doc.transactionHash ?? undefined,
+  vmStatus: doc.vmStatus ?? undefined,
+  error: doc.error || undefined,
+  createdAt: toISO(doc.createdAt),
+  updatedAt: toISO(doc.updatedAt),
+});
+
+const toChainEvent = (doc: any): ChainEvent => ({
+  transactionVersion: doc.transactionVersion,
+  eventIndex: doc.eventIndex,
+  type: doc.type,
+  walletAddress: doc.walletAddress,
+  fromAddress: doc.fromAddress ?? undefined,
+  amount: doc.amount ?? undefined,
+  tokenName: doc.tokenName ?? undefined,
+  data: doc.data,
+  timestamp: toISO(doc.timestamp),
+});
+
+const toShopOffer = (doc: any): ShopOffer => ({
+  id: doc._id,
+  walletAddress: doc.walletAddress,
+  chain: doc.chain,
+  metadataId: doc.metadataId,
+  price: doc.price,
+  status: doc.status,
+  expiresAt: toISO(doc.expiresAt),
+  paidPrice: doc.paidPrice ?? undefined,
+  battleId: doc.battleId ?? undefined,
+  paymentTransactionHash: doc.paymentTransactionHash ?? undefined,
+  burnTransactionHash: doc.burnTransactionHash ?? undefined,
+  mintedTokenId: doc.mintedTokenId ?? undefined,
+  transactionHash: doc.transactionHash ?? undefined,
+  error: doc.error || undefined,
+  createdAt: toISO(doc.createdAt),
+  updatedAt: toISO(doc.updatedAt),
+});
+
+const toBattle = (doc: any): Battle => ({
+  id: doc._id,
+  walletAddress: doc.walletAddress,
+  chain: doc.chain,
+  offerId: doc.offerId,
+  seed: doc.seed,
+  status: doc.status,
+  playerHealth: doc.playerHealth ?? undefined,
+  npcHealth: doc.npcHealth ?? undefined,
+  expiresAt: toISO(doc.expiresAt),
+  error: doc.error || undefined,
+  createdAt: toISO(doc.createdAt),
+  updatedAt: toISO(doc.updatedAt),
+});
+
+const toSponsorship = (doc: any): Sponsorship => ({
+  id: doc._id,
+  walletAddress: doc.walletAddress,
+  function: doc.function,
+  maxGasAmount: doc.maxGasAmount,
+  createdAt: toISO(doc.createdAt),
+});
+
+type Connect = () => Promise<void>;
+
+class MongoPlayerRepository implements PlayerRepository {
+  constructor(private connect: Connect) {}
+
+  async get(walletAddress: string): Promise<PlayerProfile | null> {
+    await this.connect();
+    const player = await Player.findOne({ walletAddress }).lean();
+    return player ? toProfile(player) : null;
+  }
+
+  async upsert(walletAddress: string, update: PlayerUpdate): Promise<PlayerProfile> {
+    await this.connect();
+    const player = await Player.findOneAndUpdate(
+      { walletAddress },
+      { $set: update },
+      { new: true, upsert: true, setDefaultsOnInsert: true },
+    ).lean();
+    return toProfile(player);
+  }
+}
+
+class MongoRewardLedgerRepository implements RewardLedgerRepository {
+  constructor(private connect: Connect) {}
+
+  async get(walletAddress: string, rewardType: string): Promise<RewardLedgerEntry | null> {
+    await this.connect();
+    const entry = await RewardLedger.findOne({ walletAddress, rewardType }).lean();
+    return entry ? toLedgerEntry(entry) : null;
+  }
+
+  async claim(entry: NewRewardLedgerEntry): Promise<{ entry: RewardLedgerEntry; created: boolean }> {
+    await this.connect();
+    try {
+      const created = await RewardLedger.create(entry);
+      return { entry: toLedgerEntry(created.toObject()), created: true };
+    } catch (error: any) {
+      // The unique (walletAddress, rewardType) index makes the losing side of a race land here
+      if (error?.code !== DUPLICATE_KEY) throw error;
+      const existing = await RewardLedger.findOne({
+        walletAddress: entry.walletAddress,
+        rewardType: entry.rewardType,
+      }).lean();
+      return { entry: toLedgerEntry(existing), created: false };
+    }
+  }
+
+  async update(
+    walletAddress: string,
+    rewardType: string,
+    update: RewardLedgerUpdate,
+    expectedStatuses?: RewardStatus[],
+  ): Promise<RewardLedgerEntry | null> {
+    await this.connect();
+    const entry = await RewardLedger.findOneAndUpdate(
+      { walletAddress, rewardType, ...(expectedStatuses && { status: { $in: expectedStatuses } }) },
+      { $set: update },
+      { new: true },
+    ).lean();
+    return entry ? toLedgerEntry(entry) : null;
+  }
+
+  async listByStatus(rewardType: string, statuses: RewardStatus[], limit = 100): Promise<RewardLedgerEntry[]> {
+    await this.connect();
+    const entries = await RewardLedger.find({ rewardType, status: { $in: statuses } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .lean();
+    return entries.map(toLedgerEntry);
+  }
+}
+
+class MongoJobRepository implements JobRepository {
+  constructor(private connect: Connect) {}
+
+  async create(job: NewJob): Promise<JobRecord> {
+    await this.connect();
+    const created = await Job.create({ type: job.type, payload: job.payload });
+    return toJob(created.toObject());
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    await this.connect();
+    const job = await Job.findById(id).lean();
+    return job ? toJob(job) : null;
+  }
+
+  async update(id: string, update: JobUpdate, expectedStatuses?: JobStatus[]): Promise<JobRecord | null> {
+    await this.connect();
+    const job = await Job.findOneAndUpdate(
+      { _id: id, ...(expectedStatuses && { status: { $in: expectedStatuses } }) },
+      { $set: update },
+      { new: true },
+    ).lean();
+    return job ? toJob(job) : null;
+  }
+}
+
+class MongoChainEventRepository implements ChainEventRepository {
+  constructor(private connect: Connect) {}
+
+  async insert(events: ChainEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+    await this.connect();
+    const result = await ChainEventModel.bulkWrite(events.map((event) => ({
+      updateOne: {
+        filter: { transactionVersion: event.transactionVersion, eventIndex: event.eventIndex },
+        update: { $setOnInsert: event },
+        upsert: true,
+      },
+    })), { ordered: false });
+    return result.upsertedCount;
+  }
+
+  async list({ type, address, before, limit }: ChainEventQuery): Promise<ChainEvent[]> {
+    await this.connect();
+    const events = await ChainEventModel.find({
+      ...(type && { type: { $in: [type].flat() } }),
+      ...(address && { $or: [{ walletAddress: address }, { fromAddress: address }] }),
+      ...(before && {
+        $and: [{
+          $or: [
+            { transactionVersion: { $lt: before.transactionVersion } },
+            { transactionVersion: before.transactionVersion, eventIndex: { $lt: before.eventIndex } },
+          ],
+        }],
+      }),
+    })
+      .sort({ transactionVersion: -1, eventIndex: -1 })
+      .limit(limit)
+      .lean();
+    return events.map(toChainEvent);
+  }
+}
+
+class MongoCheckpointRepository implements CheckpointRepository {
+  constructor(private connect: Connect) {}
+
+  async get(name: string): Promise<string | null> {
+    await this.connect();
+    const checkpoint = await Checkpoint.findById(name).lean<{ value: string }>();
+    return checkpoint?.value ?? null;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    await this.connect();
+    await Checkpoint.updateOne({ _id: name }, { $set: { value } }, { upsert: true });
+  }
+}
+
+class MongoShopOfferRepository implements ShopOfferRepository {
+  constructor(private connect: Connect) {}
+
+  async reserve(offer: NewShopOffer): Promise<ShopOffer | null> {
+    await this.connect();
+    const reservationKey = `${offer.chain}:${offer.metadataId}`;
+    // Release the key from an expired offer; the unique index then decides who gets it
+    await ShopOfferModel.updateMany(
+      { reservationKey, status: 'open', expiresAt: { $lte: new Date() } },
+      { $unset: { reservationKey: 1 } },
+    );
+
+    try {
+      const created = await ShopOfferModel.create({ ...offer, reservationKey });
+      return toShopOffer(created.toObject());
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY) throw error;
+      return null;
+    }
+  }
+
+  async get(id: string): Promise<ShopOffer | null> {
+    await this.connect();
+    const offer = await ShopOfferModel.findById(id).lean();
+    return offer ? toShopOffer(offer) : null;
+  }
+
+  async getByPaymentTransaction(transactionHash: string): Promise<ShopOffer | null> {
+    await this.connect();
+    const offer = await ShopOfferModel.findOne({ paymentTransactionHash: transactionHash }).lean();
+    return offer ? toShopOffer(offer) : null;
+  }
+
+  async update(id: string, update: ShopOfferUpdate, expectedStatuses?: ShopOfferStatus[]): Promise<ShopOffer | null> {
+    await this.connect();
+    const offer = await ShopOfferModel.findOneAndUpdate(
+      { _id: id, ...(expectedStatuses && { status: { $in: expectedStatuses } }) },
+      // A failed offer gives its metadata ID back
+      { $set: update, ...(update.status === 'failed' && { $unset: { reservationKey: 1 } }) },
+      { new: true },
+    ).lean();
+    return offer ? toShopOffer(offer) : null;
+  }
+
+  async claimPurchase(id: string, purchase: ShopOfferPurchase): Promise<{ offer: ShopOffer | null; paymentUsed: boolean }> {
+    try {
+      return { offer: await this.update(id, { ...purchase, status: 'purchasing' }, ['open']), paymentUsed: false };
+    } catch (error: any) {
+      // paymentTransactionHash has a unique index
+      if (error?.code !== DUPLICATE_KEY || !error.keyPattern?.paymentTransactionHash) throw error;
+      return { offer: null, paymentUsed: true };
+    }
+  }
+
+  async countPurchasedSince(chain: ShopOffer['chain'], since: string): Promise<number> {
+    await this.connect();
+    return ShopOfferModel.countDocuments({ chain, status: 'purchased', updatedAt: { $gte: new Date(since) } });
+  }
+}
+
+class MongoBattleRepository implements BattleRepository {
+  constructor(private connect: Connect) {}
+
+  async create(battle: NewBattle): Promise<Battle | null> {
+    await this.connect();
+    try {
+      const created = await BattleModel.create(battle);
+      return toBattle(created.toObject());
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY) throw error;
+      return null;
+    }
+  }
+
+  async get(id: string): Promise<Battle | null> {
+    await this.connect();
+    const battle = await BattleModel.findById(id).lean();
+    return battle ? toBattle(battle) : null;
+  }
+
+  async update(id: string, update: BattleUpdate, expectedStatuses?: BattleStatus[]): Promise<Battle | null> {
+    await this.connect();
+    const battle = await BattleModel.findOneAndUpdate(
+      { _id: id, ...(expectedStatuses && { status: { $in: expectedStatuses } }) },
+      { $set: update },
+      { new: true },
+    ).lean();
+    return battle ? toBattle(battle) : null;
+  }
+}
+
+class MongoSponsorshipRepository implements SponsorshipRepository {
+  constructor(private connect: Connect) {}
+
+  // Count and insert are separate, so concurrent requests can overrun the quota by a few
+  async reserve(sponsorship: NewSponsorship, since: string, limit: number): Promise<Sponsorship | null> {
+    await this.connect();
+    const used = await SponsorshipModel.countDocuments({
+      walletAddress: sponsorship.walletAddress,
+      createdAt: { $gte: new Date(since) },
+    });
+    if (used >= limit) return null;
+
+    const created = await SponsorshipModel.create(sponsorship);
+    return toSponsorship(created.toObject());
+  }
+}
+
+class MongoLoginNonceRepository implements LoginNonceRepository {
+  constructor(private connect: Connect) {}
+
+  // The TTL index on expiresAt removes nonces once their challenge has expired
+  async use(nonce: string, expiresAt: string): Promise<boolean> {
+    await this.connect();
+    try {
+      await LoginNonce.create({ _id: nonce, expiresAt });
+      return true;
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY) throw error;
+      return false;
+    }
+  }
+}
+
+class MongoSettingsRepository implements SettingsRepository {
+  constructor(private connect: Connect) {}
+
+  async get<T>(name: string): Promise<T | null> {
+    await this.connect();
+    const setting = await Setting.findById(name).lean<{ value: T }>();
+    return setting?.value ?? null;
+  }
+
+  async set(name: string, value: unknown): Promise<void> {
+    await this.connect();
+    await Setting.updateOne({ _id: name }, { $set: { value } }, { upsert: true });
+  }
+}
+
+/**
+ * Storage backed by MongoDB through mongoose (Node, or Workers with `nodejs_compat`)
+ */
+export class MongoStorage implements Storage {
+  readonly kind = 'mongo';
+  players: PlayerRepository;
+  rewards: RewardLedgerRepository;
+  jobs: JobRepository;
+  events: ChainEventRepository;
+  checkpoints: CheckpointRepository;
+  shopOffers: ShopOfferRepository;
+  battles: BattleRepository;
+  sponsorships: SponsorshipRepository;
+  loginNonces: LoginNonceRepository;
+  settings: SettingsRepository;
+
+  constructor(private uri: string) {
+    const connect = () => connectDB(this.uri);
+    this.players = new MongoPlayerRepository(connect);
+    this.rewards = new MongoRewardLedgerRepository(connect);
+    this.jobs = new MongoJobRepository(connect);
+    this.events = new MongoChainEventRepository(connect);
+    this.checkpoints = new MongoCheckpointRepository(connect);
+    this.shopOffers = new MongoShopOfferRepository(connect);
+    this.battles = new MongoBattleRepository(connect);
+    this.sponsorships = new MongoSponsorshipRepository(connect);
+    this.loginNonces = new MongoLoginNonceRepository(connect);
+    this.settings = new MongoSettingsRepository(connect);
+  }
+
+  async ping(): Promise<void> {
+    await connectDB(this.uri);
+    await mongoose.connection.db!.admin().ping();
+  }
+}
@@ -0,0 +1,335 @@
+import type { Chain, PlayerProfile } from '../types';
+
+export type PlayerUpdate = Partial<Omit<PlayerProfile, 'walletAddress' | 'createdAt' | 'updatedAt'>>;
+
+export interface PlayerRepository {
+  /** Get a player profile, or null if the wallet has never played */
+  get(walletAddress: string): Promise<PlayerProfile | null>;
+  /** Create the profile if needed and apply `update` to it */
+  upsert(walletAddress: string, update: PlayerUpdate): Promise<PlayerProfile>;
+}
+
+/**
+ * `rejected` means the transaction committed without paying out
+ * (e.g. `reward_new_player` found an existing CoA balance); it is final.
+ * `failed` entries may be retried.
+ */
+export type RewardStatus = 'pending' | 'submitted' | 'confirmed' | 'rejected' | 'failed';
+
+/**
+ * One reward grant. A wallet can receive each reward type at most once,
+ * so `(walletAddress, rewardType)` is unique.
+ */
+export interface RewardLedgerEntry {
+  walletAddress: string;
+  rewardType: string;
+  amount: number;
+  status: RewardStatus;
+  idempotencyKey?: string;
+  /** Job that submits the payout */
+  jobId?: string;
+  /** Address the reward is paid to, when it isn't `walletAddress` (e.g. the EVM wallet of an Aptos player) */
+  recipient?: string;
+  transactionHash?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewRewardLedgerEntry = Pick<RewardLedgerEntry, 'walletAddress' | 'rewardType' | 'amount'> &
+  Partial<Pick<RewardLedgerEntry, 'status' | 'idempotencyKey' | 'recipient'>>;
+
+export type RewardLedgerUpdate = Partial<Pick<RewardLedgerEntry, 'status' | 'idempotencyKey' | 'jobId' | 'recipient' | 'transactionHash' | 'error'>>;
+
+export interface RewardLedgerRepository {
+  get(walletAddress: string, rewardType: string): Promise<RewardLedgerEntry | null>;
+  /**
+   * Insert an entry unless one already exists for the wallet and reward type.
+   * `created` is false when an existing entry was returned instead.
+   */
+  claim(entry: NewRewardLedgerEntry): Promise<{ entry: RewardLedgerEntry; created: boolean }>;
+  /**
+   * Apply `update`, optionally only while the entry is in one of `expectedStatuses`.
+   * Returns null if there is no such entry or its status did not match.
+   */
+  update(
+    walletAddress: string,
+    rewardType: string,
+    update: RewardLedgerUpdate,
+    expectedStatuses?: RewardStatus[],
+  ): Promise<RewardLedgerEntry | null>;
+  /** Entries of one reward type, oldest first */
+  listByStatus(rewardType: string, statuses: RewardStatus[], limit?: number): Promise<RewardLedgerEntry[]>;
+}
+
+/**
+ * `submitting` while one runner submits the transaction. A runner that dies
+ * mid-submit leaves the job there, as it can't be told whether the
+ * transaction went out.
+ */
+export type JobStatus = 'queued' | 'submitting' | 'submitted' | 'committed' | 'failed';
+
+/**
+ * A background on-chain operation (e.g. a reward or mint transaction)
+ */
+export interface Job {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  transactionHash?: string;
+  vmStatus?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewJob = Pick<Job, 'type' | 'payload'>;
+
+export type JobUpdate = Partial<Pick<Job, 'status' | 'attempts' | 'transactionHash' | 'vmStatus' | 'error'>>;
+
+export interface JobRepository {
+  create(job: NewJob): Promise<Job>;
+  get(id: string): Promise<Job | null>;
+  /**
+   * Apply `update`, optionally only while the job is in one of `expectedStatuses`.
+   * Returns null if there is no such job or its status did not match.
+   */
+  update(id: string, update: JobUpdate, expectedStatuses?: JobStatus[]): Promise<Job | null>;
+}
+
+/** Contract events the indexer keeps, as `<module>.<event>` */
+export const CHAIN_EVENT_TYPES = [
+  'coa.mint',
+  'coa.burn',
+  'coa.player_login_reward',
+  'nft.mint',
+  'nft.transfer',
+  'nft.burn',
+] as const;
+export type ChainEventType = typeof CHAIN_EVENT_TYPES[number];
+
+/** Where an event sits on chain; events are ordered by it */
+export interface ChainEventPosition {
+  transactionVersion: number;
+  eventIndex: number;
+}
+
+/**
+ * A `coins_of_aura` or `velmora_nft` event read from the Aptos indexer,
+ * normalized so both modules can be queried the same way
+ */
+export interface ChainEvent extends ChainEventPosition {
+  type: ChainEventType;
+  /** The wallet the event is about: mint recipient, burned account, rewarded player, NFT owner or transfer target */
+  walletAddress: string;
+  /** Sender of an NFT transfer */
+  fromAddress?: string;
+  /** CoA moved, in whole tokens */
+  amount?: number;
+  /** Velmora NFT token name */
+  tokenName?: string;
+  /** The event's on-chain fields as emitted */
+  data: Record<string, unknown>;
+  /** On-chain event timestamp */
+  timestamp: string;
+}
+
+export interface ChainEventQuery {
+  /** One type, or any of several */
+  type?: ChainEventType | ChainEventType[];
+  /** Matches either `walletAddress` or `fromAddress` */
+  address?: string;
+  /** Only events before this position */
+  before?: ChainEventPosition;
+  limit: number;
+}
+
+export interface ChainEventRepository {
+  /** Store events, skipping ones already stored. Returns how many were new. */
+  insert(events: ChainEvent[]): Promise<number>;
+  /** Newest first */
+  list(query: ChainEventQuery): Promise<ChainEvent[]>;
+}
+
+/**
+ * Named progress markers, e.g. how far the event indexer has read
+ */
+export interface CheckpointRepository {
+  get(name: string): Promise<string | null>;
+  set(name: string, value: string): Promise<void>;
+}
+
+/**
+ * `purchasing` while the purchase transactions run; `unfulfilled` offers were
+ * paid for (or their price burned) but their mint failed, and the buyer can
+ * retry it; `failed` purchases took no recorded payment and release the NFT.
+ */
+export type ShopOfferStatus = 'open' | 'purchasing' | 'purchased' | 'unfulfilled' | 'failed';
+
+/**
+ * An NFT the shop offered to one wallet at a fixed price. The offer holds
+ * its metadata ID on its chain, so no other wallet is offered the same NFT,
+ * while it is open and unexpired, purchasing, unfulfilled or purchased.
+ * Failed and expired offers release it.
+ */
+export interface ShopOffer {
+  id: string;
+  walletAddress: string;
+  chain: Chain;
+  metadataId: number;
+  /** Price in whole CoA (Aptos) or AuraCoins (EVM) */
+  price: number;
+  status: ShopOfferStatus;
+  expiresAt: string;
+  /** What the buyer paid, once a purchase starts; below `price` with a battle voucher */
+  paidPrice?: number;
+  /** The won battle whose voucher discounted the purchase */
+  battleId?: string;
+  /** Aptos: the player's CoA transfer that paid for the offer */
+  paymentTransactionHash?: string;
+  /** EVM: the burn of the price from the player's AuraCoins */
+  burnTransactionHash?: string;
+  /** EVM: the token minted to the server signer, before it is transferred to the player */
+  mintedTokenId?: string;
+  /** The mint transaction; on EVM the transfer to the player */
+  transactionHash?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewShopOffer = Pick<ShopOffer, 'walletAddress' | 'chain' | 'metadataId' | 'price' | 'expiresAt'>;
+
+export type ShopOfferUpdate = Partial<
+  Pick<ShopOffer, 'status' | 'paidPrice' | 'battleId' | 'paymentTransactionHash' | 'burnTransactionHash' | 'mintedTokenId' | 'transactionHash' | 'error'>
+>;
+
+export type ShopOfferPurchase = Pick<ShopOfferUpdate, 'paidPrice' | 'battleId' | 'paymentTransactionHash'>;
+
+export interface ShopOfferRepository {
+  /** Create an open offer, or return null if another offer holds its metadata ID */
+  reserve(offer: NewShopOffer): Promise<ShopOffer | null>;
+  get(id: string): Promise<ShopOffer | null>;
+  /** The offer a payment transaction was used for, if any */
+  getByPaymentTransaction(transactionHash: string): Promise<ShopOffer | null>;
+  /**
+   * Apply `update`, optionally only while the offer is in one of `expectedStatuses`.
+   * Returns null if there is no such offer or its status did not match.
+   */
+  update(id: string, update: ShopOfferUpdate, expectedStatuses?: ShopOfferStatus[]): Promise<ShopOffer | null>;
+  /**
+   * Move an open offer to `purchasing` with `purchase`. Its `paymentTransactionHash`
+   * is claimed in the same write, so one payment can't start two purchases.
+   * `offer` is null if the offer isn't open or `paymentUsed` is true, when
+   * another offer already has the payment.
+   */
+  claimPurchase(id: string, purchase: ShopOfferPurchase): Promise<{ offer: ShopOffer | null; paymentUsed: boolean }>;
+  /** How many offers on a chain were purchased at or after `since` */
+  countPurchasedSince(chain: Chain, since: string): Promise<number>;
+}
+
+export type BattleStatus =
+  | 'active'
+  /** The re-simulated log ended with the NPC down; a voucher was issued */
+  | 'won'
+  | 'lost'
+  /** The log failed the server's checks */
+  | 'rejected';
+
+/**
+ * A duel against a shop NPC over one offer. The server picks the seed that
+ * every damage roll comes from and judges the player's log of the fight.
+ */
+export interface Battle {
+  id: string;
+  walletAddress: string;
+  chain: Chain;
+  offerId: string;
+  seed: number;
+  status: BattleStatus;
+  /** Health left at the end of the re-simulated fight */
+  playerHealth?: number;
+  npcHealth?: number;
+  /** The log must be submitted before this */
+  expiresAt: string;
+  /** Why the log was rejected */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewBattle = Pick<Battle, 'walletAddress' | 'chain' | 'offerId' | 'seed' | 'expiresAt'>;
+
+export type BattleUpdate = Partial<Pick<Battle, 'status' | 'playerHealth' | 'npcHealth' | 'error'>>;
+
+export interface BattleRepository {
+  /** Start a battle, or return null if its offer has already been fought over */
+  create(battle: NewBattle): Promise<Battle | null>;
+  get(id: string): Promise<Battle | null>;
+  /**
+   * Apply `update`, optionally only while the battle is in one of `expectedStatuses`.
+   * Returns null if there is no such battle or its status did not match.
+   */
+  update(id: string, update: BattleUpdate, expectedStatuses?: BattleStatus[]): Promise<Battle | null>;
+}
+
+/**
+ * A player transaction whose gas the backend agreed to pay as fee payer
+ */
+export interface Sponsorship {
+  id: string;
+  walletAddress: string;
+  /** Entry function, `<module>::<function>` */
+  function: string;
+  /** Gas units the transaction may spend at most */
+  maxGasAmount: number;
+  createdAt: string;
+}
+
+export type NewSponsorship = Pick<Sponsorship, 'walletAddress' | 'function' | 'maxGasAmount'>;
+
+export interface SponsorshipRepository {
+  /**
+   * Record a sponsorship unless the wallet already has `limit` of them
+   * created at or after `since`. Returns null when the quota is used up.
+   */
+  reserve(sponsorship: NewSponsorship, since: string, limit: number): Promise<Sponsorship | null>;
+}
+
+/**
+ * Nonces of login challenges that were already exchanged for a session
+ */
+export interface LoginNonceRepository {
+  /**
+   * Record a nonce as used. It only needs keeping until `expiresAt`, when its
+   * challenge expires. Returns false if the nonce was already used.
+   */
+  use(nonce: string, expiresAt: string): Promise<boolean>;
+}
+
+/**
+ * Named admin-tunable settings, stored as JSON
+ */
+export interface SettingsRepository {
+  get<T>(name: string): Promise<T | null>;
+  set(name: string, value: unknown): Promise<void>;
+}
+
+export interface Storage {
+  /** Backend name, reported by diagnostics */
+  readonly kind: 'memory' | 'mongo' | 'd1';
+  players: PlayerRepository;
+  rewards: RewardLedgerRepository;
+  jobs: JobRepository;
+  events: ChainEventRepository;
+  checkpoints: CheckpointRepository;
+  shopOffers: ShopOfferRepository;
+  battles: BattleRepository;
+  sponsorships: SponsorshipRepository;
+  loginNonces: LoginNonceRepository;
+  settings: SettingsRepository;
+  /** Throws if the backing store is unreachable */
+  ping(): Promise<void>;
+}
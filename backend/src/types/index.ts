@@ -0,0 +1,183 @@
+import type { AptosService } from '../services/aptosService';
+import type { EVMService } from '../services/evmService';
+import type { MetadataService } from '../services/metadataService';
+import type { Storage } from '../storage/types';
+
+/**
+ * NFT metadata as stored on IPFS (mirrors `game-client/types/nft.ts`).
+ */
+export interface NFTAttribute {
+  trait_type: string;
+  value: string;
+}
+
+export interface NFTMetadata {
+  name: string;
+  description: string;
+  external_url: string;
+  image: string;
+  attributes: NFTAttribute[];
+  properties: {
+    files: {
+      uri: string;
+      type: string;
+    }[];
+    category: string;
+    creators: any[];
+  };
+  compiler: string;
+  rarity: number;
+  skill: number;
+}
+
+export type Chain = 'evm' | 'aptos';
+
+/**
+ * Entry function payload in the format accepted by Petra's `signAndSubmitTransaction`.
+ */
+export interface AptosTransactionPayload {
+  type: 'entry_function_payload';
+  function: string;
+  arguments: string[];
+  type_arguments: string[];
+}
+
+/**
+ * A Velmora NFT minted on Aptos, as read back from `velmora_nft::MintEvent`.
+ */
+export interface MintedAptosNFT {
+  transactionHash: string;
+  owner: string;
+  tokenName: string;
+  metadataId: number | null;
+  rarity: number;
+  skill: number;
+}
+
+/**
+ * An AuraEyes or soulbound NFT held by an EVM address
+ */
+export interface OwnedEVMNFT {
+  tokenId: string;
+  /** Token URI, pointing at the metadata JSON */
+  uri: string;
+}
+
+/**
+ * A Velmora NFT held by an Aptos account
+ */
+export interface OwnedAptosNFT {
+  tokenDataId: string;
+  tokenName: string;
+  /** Token URI, pointing at the metadata JSON */
+  uri: string;
+  propertyVersion: string;
+  metadataId: number | null;
+  /** From `velmora_nft::get_nft_attributes`; rarity is a percentage (12 = 0.12) */
+  rarity: number;
+  skill: number;
+  /** Resolved metadata JSON when requested; null if it could not be fetched */
+  metadata?: NFTMetadata | null;
+}
+
+/**
+ * Worker environment bindings (wrangler vars and secrets).
+ */
+export interface Bindings {
+  /** mainnet, testnet (default), devnet or local */
+  APTOS_NETWORK?: string;
+  /** Overrides the network's public fullnode, e.g. for a localnet on another host */
+  APTOS_FULLNODE_URL?: string;
+  /** Overrides the network's public indexer GraphQL endpoint */
+  APTOS_INDEXER_URL?: string;
+  /** Comma-separated Ed25519 keys; the first owns the contracts, the rest share fee payer duty */
+  APTOS_PRIVATE_KEY?: string;
+  /** With `SIGNER_URL`: comma-separated public keys of the Aptos accounts it signs for, instead of `APTOS_PRIVATE_KEY` */
+  APTOS_SIGNER_PUBLIC_KEYS?: string;
+  /** APT balance below which `/health` reports the admin signer as down (default 0.5) */
+  APTOS_SIGNER_MIN_BALANCE?: string;
+  APTOS_CONTRACT_ADDRESS?: string;
+  /** Transactions per wallet per day `POST /aptos/sponsor` pays gas for (default 10) */
+  APTOS_SPONSOR_DAILY_LIMIT?: string;
+  EVM_RPC_URL?: string;
+  /** Comma-separated keys; the first owns the contracts */
+  EVM_PRIVATE_KEY?: string;
+  /** With `SIGNER_URL`: comma-separated EVM addresses it signs for, instead of `EVM_PRIVATE_KEY` */
+  EVM_SIGNER_ADDRESSES?: string;
+  EVM_TOKEN_CONTRACT_ADDRESS?: string;
+  EVM_NFT_CONTRACT_ADDRESS?: string;
+  EVM_SOULBOUND_CONTRACT_ADDRESS?: string;
+  /** Block the NFT contracts were deployed at; holdings are found from Transfer logs after it (default 0) */
+  EVM_NFT_START_BLOCK?: string;
+  /** Remote signing service holding the backend's keys; see `RemoteSigner` */
+  SIGNER_URL?: string;
+  /** Bearer token sent to `SIGNER_URL` */
+  SIGNER_TOKEN?: string;
+  AUTH_SECRET?: string;
+  AUTH_DOMAIN?: string;
+  ADMIN_WALLETS?: string;
+  MONGO_URI?: string;
+  /** D1 database; takes precedence over MONGO_URI when bound */
+  DB?: D1Database;
+  /** `memory` to keep data in memory, which doesn't persist, when neither DB nor MONGO_URI is set (development and tests) */
+  STORAGE?: string;
+  /** Queue for transaction jobs; jobs run in-process when unbound */
+  JOB_QUEUE?: Queue<JobMessage>;
+  /** KV namespace for cached NFT metadata; cached in memory when unbound */
+  METADATA_CACHE?: KVNamespace;
+  /** Comma-separated IPFS gateway URLs (`https://<host>/ipfs/`), tried in order */
+  IPFS_GATEWAYS?: string;
+  /** Base URI of the collection's metadata JSON, `<id>.json` is appended */
+  NFT_METADATA_BASE_URI?: string;
+}
+
+/**
+ * Message sent through `JOB_QUEUE`
+ */
+export interface JobMessage {
+  jobId: string;
+}
+
+/**
+ * A wallet that proved ownership by signing a login challenge.
+ */
+export interface AuthenticatedWallet {
+  address: string;
+  chain: Chain;
+}
+
+export interface Variables {
+  wallet: AuthenticatedWallet;
+  storage: Storage;
+  aptosService: AptosService;
+  evmService: EVMService;
+  metadataService: MetadataService;
+}
+
+export type AppEnv = {
+  Bindings: Bindings;
+  Variables: Variables;
+};
+
+/**
+ * Persisted player profile
+ */
+export interface PlayerProfile {
+  walletAddress: string;
+  xp: number;
+  level: number;
+  gold: number;
+  balance: number;
+  nfts: { tokenId: string; metadata?: unknown }[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * In-game progress reported by `GameScene`
+ */
+export interface PlayerProgress {
+  xp: number;
+  level: number;
+  gold: number;
+}
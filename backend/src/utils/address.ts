@@ -0,0 +1,19 @@
+import { AccountAddress } from '@aptos-labs/ts-sdk';
+import { getAddress } from 'ethers';
+import type { Chain } from '../types';
+
+/**
+ * Normalize an address so allowlists and comparisons are format independent
+ */
+export function normalizeAddress(chain: Chain, address: string): string {
+  return chain === 'evm'
+    ? getAddress(address).toLowerCase()
+    : AccountAddress.from(address).toStringLong();
+}
+
+/**
+ * Tell EVM (20-byte) and Aptos (32-byte) addresses apart
+ */
+export function detectAddressChain(address: string): Chain {
+  return /^0x[0-9a-fA-F]{40}$/.test(address) ? 'evm' : 'aptos';
+}
@@ -0,0 +1,60 @@
+import { AptosConfig, Network, NetworkToChainId, NetworkToIndexerAPI, NetworkToNodeAPI } from '@aptos-labs/ts-sdk';
+import type { Bindings } from '../types';
+
+/** Networks accepted in `APTOS_NETWORK` */
+export const APTOS_NETWORKS = [Network.MAINNET, Network.TESTNET, Network.DEVNET, Network.LOCAL] as const;
+export type AptosNetworkName = typeof APTOS_NETWORKS[number];
+
+const DEFAULT_NETWORK: AptosNetworkName = Network.TESTNET;
+
+/**
+ * The Aptos network the backend talks to, with the endpoints actually in use
+ */
+export interface AptosNetworkConfig {
+  network: AptosNetworkName;
+  /** Unknown for devnet, whose chain ID changes every time it is reset */
+  chainId: number | null;
+  fullnodeUrl: string;
+  indexerUrl: string;
+}
+
+function parseNetwork(value: string | undefined): AptosNetworkName {
+  if (!value) {
+    return DEFAULT_NETWORK;
+  }
+
+  const name = value.trim().toLowerCase();
+  // `aptos node run-localnet` users tend to call it "localnet"
+  const network = name === 'localnet' ? Network.LOCAL : name;
+  if (!(APTOS_NETWORKS as readonly string[]).includes(network)) {
+    throw new Error(`Unsupported APTOS_NETWORK "${value}". Expected one of: ${APTOS_NETWORKS.join(', ')}.`);
+  }
+  return network as AptosNetworkName;
+}
+
+/**
+ * Resolve the Aptos network from `APTOS_NETWORK`, `APTOS_FULLNODE_URL` and
+ * `APTOS_INDEXER_URL`. The URLs override the network's public endpoints,
+ * e.g. for a localnet on another host or a private RPC provider.
+ */
+export function resolveAptosNetwork(env?: Bindings): AptosNetworkConfig {
+  const network = parseNetwork(env?.APTOS_NETWORK);
+
+  return {
+    network,
+    chainId: NetworkToChainId[network] ?? null,
+    fullnodeUrl: env?.APTOS_FULLNODE_URL || NetworkToNodeAPI[network],
+    indexerUrl: env?.APTOS_INDEXER_URL || NetworkToIndexerAPI[network],
+  };
+}
+
+/**
+ * Build the SDK config for a resolved network
+ */
+export function createAptosConfig(config: AptosNetworkConfig): AptosConfig {
+  return new AptosConfig({
+    network: config.network,
+    fullnode: config.fullnodeUrl,
+    indexer: config.indexerUrl,
+  });
+}
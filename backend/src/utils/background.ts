@@ -0,0 +1,14 @@
+import type { Context } from 'hono';
+import type { AppEnv } from '../types';
+
+/**
+ * Keep background work alive after the response: `waitUntil` under Workers,
+ * while Node simply keeps running the promise
+ */
+export const backgroundTasks = (c: Context<AppEnv>) => (promise: Promise<unknown>) => {
+  try {
+    c.executionCtx.waitUntil(promise);
+  } catch {
+    // No ExecutionContext outside the Workers runtime
+  }
+};
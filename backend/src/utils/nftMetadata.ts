@@ -0,0 +1,147 @@
+import type { NFTMetadata } from '../types';
+
+/** Metadata IDs run from 1 to this on both the Aptos and EVM collections */
+export const MAX_METADATA_ID = 1200;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a value against the NFTMetadata shape.
+ * Returns a list of problems; an empty list means the metadata is valid.
+ */
+export function validateNFTMetadata(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['metadata must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const field of ['name', 'description', 'external_url', 'image', 'compiler'] as const) {
+    if (!isString(value[field])) {
+      errors.push(`metadata.${field} must be a string`);
+    }
+  }
+
+  if (!Array.isArray(value.attributes)) {
+    errors.push('metadata.attributes must be an array');
+  } else {
+    value.attributes.forEach((attribute, index) => {
+      if (!isObject(attribute) || !isString(attribute.trait_type) || !isString(attribute.value)) {
+        errors.push(`metadata.attributes[${index}] must have string trait_type and value`);
+      }
+    });
+  }
+
+  const properties = value.properties;
+  if (!isObject(properties)) {
+    errors.push('metadata.properties must be an object');
+  } else {
+    if (!Array.isArray(properties.files)) {
+      errors.push('metadata.properties.files must be an array');
+    } else {
+      properties.files.forEach((file, index) => {
+        if (!isObject(file) || !isString(file.uri) || !isString(file.type)) {
+          errors.push(`metadata.properties.files[${index}] must have string uri and type`);
+        }
+      });
+    }
+    if (!isString(properties.category)) {
+      errors.push('metadata.properties.category must be a string');
+    }
+    if (!Array.isArray(properties.creators)) {
+      errors.push('metadata.properties.creators must be an array');
+    }
+  }
+
+  if (!isNumber(value.rarity) || value.rarity < 0) {
+    errors.push('metadata.rarity must be a non-negative number');
+  }
+  if (!isNumber(value.skill) || value.skill < 0) {
+    errors.push('metadata.skill must be a non-negative number');
+  }
+
+  return errors;
+}
+
+/**
+ * Extract the metadata ID from a collection name such as "Aura Eye #42".
+ */
+export function parseMetadataId(metadata: Pick<NFTMetadata, 'name'>): number | null {
+  const match = metadata.name.match(/#(\d+)\s*$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Convert JSON rarity/skill to the `velmora_nft` contract format.
+ * Rarity is a percentage (0.12 -> 12), skill is used as-is.
+ */
+export function toContractAttributes(metadata: Pick<NFTMetadata, 'rarity' | 'skill'>): { rarity: number; skill: number } {
+  return {
+    rarity: Math.round(metadata.rarity * 100),
+    skill: Math.round(metadata.skill),
+  };
+}
+
+/** Public IPFS gateways tried in order when `IPFS_GATEWAYS` is not set */
+export const DEFAULT_IPFS_GATEWAYS = [
+  'https://gateway.lighthouse.storage/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://ipfs.io/ipfs/',
+];
+
+/** Where the collection's metadata is pinned; `<id>.json` is appended */
+export const DEFAULT_METADATA_BASE_URI = 'ipfs://bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/';
+
+const METADATA_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * The `<cid>/<path>` of an `ipfs://` URI or of any gateway URL
+ * (`https://<gateway>/ipfs/<cid>/<path>`), or null for other URIs
+ */
+export function toIpfsPath(uri: string): string | null {
+  if (uri.startsWith('ipfs://')) {
+    return uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  }
+
+  const match = /^https?:\/\/[^/]+\/ipfs\/(.+)$/.exec(uri);
+  return match ? match[1] : null;
+}
+
+async function fetchMetadataJson(url: string): Promise<NFTMetadata> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const metadata = await response.json();
+  const errors = validateNFTMetadata(metadata);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return metadata as NFTMetadata;
+}
+
+/**
+ * Fetch and validate the metadata JSON a token URI points at. IPFS URIs,
+ * including gateway URLs, are tried on each gateway in turn until one
+ * answers with valid metadata; other URLs are fetched as they are.
+ * Throws with every gateway's failure when none succeeds.
+ */
+export async function fetchNFTMetadata(uri: string, gateways: string[] = DEFAULT_IPFS_GATEWAYS): Promise<NFTMetadata> {
+  const ipfsPath = toIpfsPath(uri);
+  const urls = ipfsPath ? gateways.map((gateway) => `${gateway}${ipfsPath}`) : [uri];
+  const failures: string[] = [];
+
+  for (const url of urls) {
+    try {
+      return await fetchMetadataJson(url);
+    } catch (error) {
+      failures.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error(`Failed to fetch NFT metadata from ${uri} (${failures.join('; ')})`);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { decodeVmStatus } from './vmStatus';
+
+const CONTRACT = '0xe4cfa8990d773402c3a4b5f40796dcac63c5b6ef9c703c54e6bfc07484b32557';
+
+describe('decodeVmStatus', () => {
+  it('decodes an abort reported with its error name', () => {
+    const vmStatus = 'Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance';
+
+    expect(decodeVmStatus(vmStatus)).toEqual({
+      vmStatus,
+      abort: { module: '0x1::fungible_asset', name: 'EINSUFFICIENT_BALANCE', code: 0x10004 },
+      reason: 'Not enough tokens in the account',
+    });
+  });
+
+  it('shortens framework addresses written in full', () => {
+    const { abort } = decodeVmStatus(
+      'Move abort in 0x0000000000000000000000000000000000000000000000000000000000000001::fungible_asset: 0x10004',
+    );
+
+    expect(abort?.module).toBe('0x1::fungible_asset');
+    expect(abort?.name).toBe('EINSUFFICIENT_BALANCE');
+  });
+
+  it("names the game's aborts by module name alone, whatever the category", () => {
+    const { abort, reason } = decodeVmStatus(`Move abort in ${CONTRACT}::velmora_nft: 0x80006`);
+
+    expect(abort).toEqual({ module: `${CONTRACT}::velmora_nft`, name: 'E_METADATA_ID_USED', code: 0x80006 });
+    expect(reason).toBe('An NFT was already minted from this metadata ID');
+  });
+
+  it('describes unknown aborts by module and code', () => {
+    const { abort, reason } = decodeVmStatus(`Move abort in ${CONTRACT}::coins_of_aura: 0x10063`);
+
+    expect(abort?.name).toBeNull();
+    expect(reason).toBe(`${CONTRACT}::coins_of_aura aborted with 0x10063`);
+  });
+
+  it('decodes failures outside Move code', () => {
+    expect(decodeVmStatus('Out of gas: OUT_OF_GAS')).toMatchObject({ abort: null, reason: 'The transaction ran out of gas' });
+  });
+
+  it('passes unknown statuses through', () => {
+    expect(decodeVmStatus('Executed successfully')).toEqual({
+      vmStatus: 'Executed successfully',
+      abort: null,
+      reason: 'Executed successfully',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * A Move abort, decoded from a transaction's VM status
+ */
+export interface MoveAbort {
+  /** `<address>::<module>` that aborted */
+  module: string;
+  /** Error constant, e.g. `E_INSUFFICIENT_BALANCE`, when known */
+  name: string | null;
+  /** Abort code as raised, category included (e.g. `0x10005` for `error::invalid_argument(5)`) */
+  code: number;
+}
+
+export interface DecodedVmStatus {
+  vmStatus: string;
+  /** Set when the transaction aborted in Move code */
+  abort: MoveAbort | null;
+  /** What went wrong, in words a player understands */
+  reason: string;
+}
+
+interface KnownAbort {
+  name: string;
+  reason: string;
+}
+
+// By module, then by the reason part of the code (its low 16 bits). The game's
+// modules are matched by name alone, since their address depends on the deployment.
+const KNOWN_ABORTS: Record<string, Record<number, KnownAbort>> = {
+  coins_of_aura: {
+    1: { name: 'E_NOT_OWNER', reason: 'Only the CoA admin can do this' },
+    2: { name: 'E_NOT_AUTHORIZED', reason: 'This account may not manage CoA' },
+    3: { name: 'E_INSUFFICIENT_BALANCE', reason: 'Not enough CoA' },
+    4: { name: 'E_ALREADY_INITIALIZED', reason: 'CoA is already initialized' },
+  },
+  velmora_nft: {
+    1: { name: 'E_NOT_AUTHORIZED', reason: "Only the collection admin or the NFT's owner can do this" },
+    2: { name: 'E_COLLECTION_NOT_FOUND', reason: 'The collection is sold out, not initialized, or does not hold this NFT' },
+    3: { name: 'E_INVALID_RARITY', reason: 'The rarity or metadata ID is out of range' },
+    4: { name: 'E_INVALID_SKILL', reason: 'The skill is out of range' },
+    5: { name: 'E_INVALID_URI', reason: 'The metadata URI is not an IPFS URI, or the metadata ID is out of range' },
+    6: { name: 'E_METADATA_ID_USED', reason: 'An NFT was already minted from this metadata ID' },
+  },
+  '0x1::fungible_asset': {
+    3: { name: 'ESTORE_IS_FROZEN', reason: "The account's token store is frozen" },
+    4: { name: 'EINSUFFICIENT_BALANCE', reason: 'Not enough tokens in the account' },
+  },
+  '0x3::token': {
+    5: { name: 'EINSUFFICIENT_BALANCE', reason: 'The account does not own this NFT' },
+  },
+};
+
+// VM statuses of transactions that failed outside Move code
+const KNOWN_STATUSES: Record<string, string> = {
+  INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE: 'Not enough APT to pay for gas',
+  OUT_OF_GAS: 'The transaction ran out of gas',
+  MAX_GAS_UNITS_BELOW_MIN_TRANSACTION_GAS_UNITS: 'The gas limit is too low',
+  SEQUENCE_NUMBER_TOO_OLD: 'The transaction was already submitted',
+  TRANSACTION_EXPIRED: 'The transaction expired',
+  FUNCTION_RESOLUTION_FAILURE: 'The function does not exist',
+  NUMBER_OF_ARGUMENTS_MISMATCH: 'Wrong number of arguments',
+};
+
+// e.g. `Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance`,
+// or `Move abort in 0xe4cf...::velmora_nft: 0x10005` for modules published without an error map
+const MOVE_ABORT = /^Move abort in (0x[0-9a-fA-F]+)::(\w+): (?:(\w+)\()?(0x[0-9a-fA-F]+)\)?/;
+
+/**
+ * Decode a transaction's `vm_status` into the abort that caused it, if any,
+ * and a human-readable reason
+ */
+export function decodeVmStatus(vmStatus: string): DecodedVmStatus {
+  const match = MOVE_ABORT.exec(vmStatus);
+  if (!match) {
+    const status = Object.keys(KNOWN_STATUSES).find((name) => vmStatus.includes(name));
+    return { vmStatus, abort: null, reason: status ? KNOWN_STATUSES[status] : vmStatus };
+  }
+
+  const [, address, moduleName, reportedName, hexCode] = match;
+  const code = parseInt(hexCode, 16);
+  const module = `${shortAddress(address)}::${moduleName}`;
+  const known = (KNOWN_ABORTS[module] ?? KNOWN_ABORTS[moduleName])?.[code & 0xffff];
+  return {
+    vmStatus,
+    abort: { module, name: reportedName ?? known?.name ?? null, code },
+    reason: known?.reason ?? `${module} aborted with ${reportedName ?? hexCode}`,
+  };
+}
+
+/**
+ * A transaction that would fail, or did, with its decoded VM status. Thrown
+ * instead of submitting an admin transaction whose simulation failed.
+ */
+export class TransactionAbortedError extends Error {
+  constructor(readonly status: DecodedVmStatus) {
+    super(status.reason);
+    this.name = 'TransactionAbortedError';
+  }
+}
+
+// Framework addresses are written short (`0x1`); anything else as given
+const shortAddress = (address: string) => address.toLowerCase().replace(/^0x0*(?=[0-9a-f])/, '0x');
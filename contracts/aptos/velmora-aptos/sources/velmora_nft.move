@@ -17,6 +17,7 @@ module velmora::velmora_nft {
     const E_INVALID_RARITY: u64 = 3;
     const E_INVALID_SKILL: u64 = 4;
     const E_INVALID_URI: u64 = 5;
+    const E_METADATA_ID_USED: u64 = 6;
 
     /// Maximum values for NFT attributes (consistent with Velmora game logic)
     const MAX_RARITY: u64 = 100;
@@ -400,7 +401,8 @@ module velmora::velmora_nft {
         (rarity, skill, ipfs_uri)
     }
 
-    /// Mint NFT using metadata ID (same pattern as Ethereum contract)
+    /// Mint NFT using metadata ID (same pattern as Ethereum contract).
+    /// Each metadata ID mints once, named and linked like the random mints.
     public entry fun mint_from_metadata_id(
         creator: &signer,
         to: address,
@@ -408,26 +410,53 @@ module velmora::velmora_nft {
         rarity: u64,
         skill: u64,
     ) acquires VelmoraNFTData {
+        let creator_addr = signer::address_of(creator);
+
         // Validate metadata ID range
         assert!(metadata_id >= 1 && metadata_id <= MAX_METADATA_ID, error::invalid_argument(E_INVALID_URI));
-        
-        // Construct the full URI by appending metadata_id and .json
-        // This is a simplified approach - for production you'd want proper number formatting
-        let uri_with_id = if (metadata_id == 1) {
-            string::utf8(b"https://gateway.lighthouse.storage/ipfs/bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/1.json")
-        } else if (metadata_id == 2) {
-            string::utf8(b"https://gateway.lighthouse.storage/ipfs/bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/2.json")
-        } else {
-            // For other IDs, use a generic format - you'd expand this pattern
-            string::utf8(b"https://gateway.lighthouse.storage/ipfs/bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/nft.json")
-        };
-        
-        // Generate name and description
-        let name = string::utf8(b"Velmora NFT");
-        let description = string::utf8(b"A cross-chain gaming NFT from the Velmora platform");
-        
+
+        let nft_data = borrow_global_mut<VelmoraNFTData>(creator_addr);
+        assert!(creator_addr == nft_data.admin, error::permission_denied(E_NOT_AUTHORIZED));
+        assert!(!*vector::borrow(&nft_data.used_metadata_ids, metadata_id - 1), error::already_exists(E_METADATA_ID_USED));
+
+        // Take it out of the random mints' pool
+        claim_metadata_id(nft_data, metadata_id);
+
+        let description = string::utf8(b"Someone's ALWAYS watching you in Aura land - NFT #");
+        string::append(&mut description, u64_to_string(metadata_id));
+
         // Call main mint function
-        mint_nft(creator, to, name, description, uri_with_id, rarity, skill);
+        mint_nft(creator, to, metadata_id_name(metadata_id), description, metadata_id_uri(metadata_id), rarity, skill);
+    }
+
+    /// Mark a metadata ID as used and remove it from the available IDs
+    fun claim_metadata_id(nft_data: &mut VelmoraNFTData, metadata_id: u64) {
+        *vector::borrow_mut(&mut nft_data.used_metadata_ids, metadata_id - 1) = true;
+
+        let i = 0;
+        while (i < vector::length(&nft_data.available_metadata_ids)) {
+            if (*vector::borrow(&nft_data.available_metadata_ids, i) == metadata_id) {
+                vector::swap_remove(&mut nft_data.available_metadata_ids, i);
+                nft_data.available_count = nft_data.available_count - 1;
+                break
+            };
+            i = i + 1;
+        };
+    }
+
+    /// Token name of a metadata ID, unique within the collection
+    fun metadata_id_name(metadata_id: u64): String {
+        let name = string::utf8(b"Aura Eye #");
+        string::append(&mut name, u64_to_string(metadata_id));
+        name
+    }
+
+    /// IPFS URI of a metadata ID's JSON
+    fun metadata_id_uri(metadata_id: u64): String {
+        let uri = string::utf8(b"ipfs://bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/");
+        string::append(&mut uri, u64_to_string(metadata_id));
+        string::append(&mut uri, string::utf8(b".json"));
+        uri
     }
 
     /// Generate secure random number using Aptos on-chain randomness
@@ -461,18 +490,7 @@ module velmora::velmora_nft {
         assert!(metadata_id > 0, error::invalid_state(E_COLLECTION_NOT_FOUND));
         
         // Mark as used and remove from available list
-        *vector::borrow_mut(&mut nft_data.used_metadata_ids, metadata_id - 1) = true;
-        
-        // Find and remove from available_metadata_ids vector
-        let i = 0;
-        while (i < vector::length(&nft_data.available_metadata_ids)) {
-            if (*vector::borrow(&nft_data.available_metadata_ids, i) == metadata_id) {
-                vector::swap_remove(&mut nft_data.available_metadata_ids, i);
-                break
-            };
-            i = i + 1;
-        };
-        nft_data.available_count = nft_data.available_count - 1;
+        claim_metadata_id(nft_data, metadata_id);
         
         // Create the NFT with the randomly selected metadata ID
         mint_nft_with_metadata_id(creator, to, metadata_id);
@@ -548,18 +566,6 @@ module velmora::velmora_nft {
         to: address,
         metadata_id: u64,
     ) acquires VelmoraNFTData {
-        // Construct IPFS URI dynamically
-        let base_uri = string::utf8(b"ipfs://bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/");
-        let id_string = u64_to_string(metadata_id);
-        let extension = string::utf8(b".json");
-        
-        string::append(&mut base_uri, id_string);
-        string::append(&mut base_uri, extension);
-        
-        // Generate name based on metadata ID
-        let name = string::utf8(b"Aura Eye #");
-        string::append(&mut name, u64_to_string(metadata_id));
-        
         let description = string::utf8(b"Someone's ALWAYS watching you in Aura land - Random NFT #");
         string::append(&mut description, u64_to_string(metadata_id));
         
@@ -568,7 +574,7 @@ module velmora::velmora_nft {
         let skill = ((metadata_id * 7) % 100) + 1; // 1-100 with different pattern
         
         // Call main mint function
-        mint_nft(creator, to, name, description, base_uri, rarity, skill);
+        mint_nft(creator, to, metadata_id_name(metadata_id), description, metadata_id_uri(metadata_id), rarity, skill);
     }
 
     /// Bridge-compatible mint function with IPFS hash
@@ -629,4 +635,66 @@ module velmora::velmora_nft {
         let nft_data = borrow_global<VelmoraNFTData>(creator);
         *vector::borrow(&nft_data.used_metadata_ids, metadata_id - 1)
     }
+
+    // === Test Functions ===
+
+    #[test_only]
+    fun setup_for_test(aptos_framework: &signer, admin: &signer, player: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+        account::create_account_for_test(signer::address_of(admin));
+        account::create_account_for_test(signer::address_of(player));
+        // Receive minted tokens directly
+        token::opt_in_direct_transfer(player, true);
+        initialize(admin);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @velmora, player = @0x456)]
+    fun test_mint_from_metadata_id(aptos_framework: &signer, admin: &signer, player: &signer) acquires VelmoraNFTData {
+        setup_for_test(aptos_framework, admin, player);
+        let admin_addr = signer::address_of(admin);
+
+        mint_from_metadata_id(admin, signer::address_of(player), 42, 12, 7);
+
+        // Named after its metadata ID and taken out of the random mints' pool
+        assert!(owns_token(signer::address_of(player), admin_addr, get_collection_name(), string::utf8(b"Aura Eye #42"), 0), 1);
+        assert!(is_metadata_id_used(admin_addr, 42), 2);
+        assert!(get_available_count(admin_addr) == MAX_METADATA_ID - 1, 3);
+        assert!(!vector::contains(&borrow_global<VelmoraNFTData>(admin_addr).available_metadata_ids, &42), 4);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @velmora, player = @0x456)]
+    #[expected_failure(abort_code = 0x80006, location = Self)]
+    fun test_mint_from_metadata_id_twice(aptos_framework: &signer, admin: &signer, player: &signer) acquires VelmoraNFTData {
+        setup_for_test(aptos_framework, admin, player);
+
+        mint_from_metadata_id(admin, signer::address_of(player), 42, 12, 7);
+        // Aborts with E_METADATA_ID_USED
+        mint_from_metadata_id(admin, signer::address_of(player), 42, 12, 7);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @velmora, player = @0x456)]
+    #[expected_failure(abort_code = 0x80006, location = Self)]
+    fun test_mint_from_metadata_id_after_random_mint(aptos_framework: &signer, admin: &signer, player: &signer) acquires VelmoraNFTData {
+        setup_for_test(aptos_framework, admin, player);
+        let admin_addr = signer::address_of(admin);
+
+        mint_random_nft(admin, signer::address_of(player));
+
+        // Find the ID the random mint took
+        let metadata_id = 1;
+        while (!is_metadata_id_used(admin_addr, metadata_id)) {
+            metadata_id = metadata_id + 1;
+        };
+        // Aborts with E_METADATA_ID_USED
+        mint_from_metadata_id(admin, signer::address_of(player), metadata_id, 12, 7);
+    }
+
+    #[test(aptos_framework = @aptos_framework, admin = @velmora, player = @0x456)]
+    #[expected_failure(abort_code = 0x10005, location = Self)]
+    fun test_mint_from_metadata_id_out_of_range(aptos_framework: &signer, admin: &signer, player: &signer) acquires VelmoraNFTData {
+        setup_for_test(aptos_framework, admin, player);
+
+        // Aborts with E_INVALID_URI
+        mint_from_metadata_id(admin, signer::address_of(player), MAX_METADATA_ID + 1, 12, 7);
+    }
 }
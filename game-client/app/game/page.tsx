@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAptosWallet } from '@/hooks/useAptosWallet';
 import MobileError from '@/components/MobileError';
 import CharacterSelectionModal from '@/components/game/CharacterSelectionModal';
@@ -12,8 +12,12 @@ import GameWallet from '@/components/wallet/GameWallet';
 import GameInventory from '@/components/inventory/GameInventory';
 import RoomJoinModal from '@/components/game/RoomJoinModal';
 import { BlockchainProvider } from '@/lib/context/BlockchainContext';
+import { AchievementService } from '@/lib/services/achievementService';
 import { motion } from 'framer-motion';
 
+/** Gold at which the Gold Master achievement is earned */
+const GOLD_MASTER_GOLD = 250;
+
 export default function GamePage() {
   const [isMobile, setIsMobile] = useState(false);
   const [showCharacterModal, setShowCharacterModal] = useState(true);
@@ -24,7 +28,8 @@ export default function GamePage() {
   const [isBattling, setIsBattling] = useState(false);
   const [playerGold, setPlayerGold] = useState(0);
   const [showGoldAchievement, setShowGoldAchievement] = useState(false);
-  const { isConnected } = useAptosWallet();
+  const goldAchievementOffered = useRef(false);
+  const { isConnected, address } = useAptosWallet();
 
   useEffect(() => {
     const checkDevice = () => {
@@ -59,9 +64,17 @@ export default function GamePage() {
       const newGold = event.detail.gold;
       setPlayerGold(newGold);
       
-      // Check for 250 gold achievement
-      if (newGold == 250 && !showGoldAchievement) {
-        setShowGoldAchievement(true);
+      // Offer the Gold Master achievement once, unless it was already claimed
+      if (newGold >= GOLD_MASTER_GOLD && !goldAchievementOffered.current && address) {
+        goldAchievementOffered.current = true;
+        AchievementService.getProgress(address)
+          .then((progress) => {
+            const goldMaster = progress.find(({ achievement }) => achievement.id === 'gold_master');
+            if (!goldMaster?.status || goldMaster.status === 'failed') {
+              setShowGoldAchievement(true);
+            }
+          })
+          .catch((err) => console.error('Error checking achievements:', err));
       }
     };
 
@@ -69,7 +82,7 @@ export default function GamePage() {
     return () => {
       window.removeEventListener('goldUpdate' as any, handleGoldUpdate);
     };
-  }, [showGoldAchievement]);
+  }, [address]);
 
   const handleNFTClick = () => {
     setIsGamePaused(true);
@@ -136,6 +149,7 @@ export default function GamePage() {
                 alignSelf: isBattling ? 'center' : 'flex-start',
               }}>
                 <GameCanvas 
+                  walletAddress={address}
                   isPaused={isGamePaused} 
                   onPause={() => setIsGamePaused(true)}
                   onResume={() => setIsGamePaused(false)}
@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useBlockchain } from '@/lib/context/BlockchainContext';
 import Image from 'next/image';
 import { useToast } from '@/hooks/use-toast';
 import { usePrivyWallet } from '@/hooks/usePrivyWallet';
+import { useAptosWallet } from '@/hooks/useAptosWallet';
+import { AchievementService } from '@/lib/services/achievementService';
+
+const GOLD_MASTER = 'gold_master';
 
 interface AchievementDialogProps {
   isOpen: boolean;
@@ -22,9 +25,9 @@ export default function AchievementDialog({
   onGameResume,
 }: AchievementDialogProps) {
   const [isMinting, setIsMinting] = useState(false);
-  const { mintSoulboundNFT } = useBlockchain();
   const { toast } = useToast();
-  const { signer } = usePrivyWallet();
+  const { address: evmAddress } = usePrivyWallet();
+  const { address: aptosAddress } = useAptosWallet();
 
   // Pause game when dialog opens
   useEffect(() => {
@@ -39,9 +42,19 @@ export default function AchievementDialog({
   };
 
   const handleMint = async () => {
+    if (!aptosAddress || !evmAddress) {
+      toast({
+        title: "Wallets required",
+        description: "Connect both your Aptos and EVM wallets to claim this NFT.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setIsMinting(true);
-      await mintSoulboundNFT(signer);
+      // The backend checks the achievement against our synced progress and mints it
+      await AchievementService.claim(aptosAddress, GOLD_MASTER, evmAddress);
       toast({
         title: "Achievement Unlocked!",
         description: "Successfully minted your Gold Master Soulbound NFT!",
@@ -52,7 +65,7 @@ export default function AchievementDialog({
       console.error("Error minting soulbound NFT:", error);
       toast({
         title: "Error",
-        description: "Failed to mint Soulbound NFT. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to mint Soulbound NFT. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -2,12 +2,14 @@ import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
+import type { BattleLogEvent } from '@/lib/services/battleService';
 
 interface BattleSceneProps {
   isVisible: boolean;
   playerNFT: any;
   npcNFT: any;
-  onBattleEnd: (playerWon: boolean) => void;
+  /** `log` is what the server judges; `playerWon` is only what the game showed */
+  onBattleEnd: (playerWon: boolean, log: BattleLogEvent[]) => void;
 }
 
 export default function BattleScene({ isVisible, playerNFT, npcNFT, onBattleEnd }: BattleSceneProps) {
@@ -114,8 +116,9 @@ export default function BattleScene({ isVisible, playerNFT, npcNFT, onBattleEnd
   const handleContinue = () => {
     const gameScene = (window as any).gameScene;
     if (gameScene) {
+      const log = gameScene.getBattleLog();
       gameScene.endNPCBattle();
-      onBattleEnd(playerWon);
+      onBattleEnd(playerWon, log);
     }
   };
 
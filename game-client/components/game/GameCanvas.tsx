@@ -3,6 +3,10 @@
 import { useEffect, useRef } from 'react';
 import Phaser from 'phaser';
 import { GameScene } from './GameScene';
+import { PlayerService, PlayerProgress } from '@/lib/services/playerService';
+
+// Debounce progress syncs so a burst of pickups is saved in one request
+const PROGRESS_SYNC_DELAY_MS = 5000;
 
 interface GameCanvasProps {
   isPaused?: boolean;
@@ -11,6 +15,7 @@ interface GameCanvasProps {
   onOpenTrade?: (npcName: string) => void;
   onStartBattle?: () => void;
   onEndBattle?: () => void;
+  walletAddress?: string | null;
 }
 
 export default function GameCanvas({ 
@@ -19,10 +24,12 @@ export default function GameCanvas({
   onResume, 
   onOpenTrade,
   onStartBattle,
-  onEndBattle 
+  onEndBattle,
+  walletAddress
 }: GameCanvasProps) {
   const gameRef = useRef<Phaser.Game | null>(null);
   const sceneRef = useRef<GameScene | null>(null);
+  const progressRef = useRef<PlayerProgress | null>(null);
 
   useEffect(() => {
     if (typeof window !== 'undefined' && !gameRef.current) {
@@ -77,6 +84,13 @@ export default function GameCanvas({
         scene.events.on('endBattle', () => {
           onEndBattle?.();
         });
+
+        // Restore the last known progress when the scene is restarted
+        scene.events.on('create', () => {
+          if (progressRef.current) {
+            scene.applyProgress(progressRef.current);
+          }
+        });
       });
 
       // Handle resize
@@ -99,6 +113,54 @@ export default function GameCanvas({
     }
   }, []);
 
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    let pendingProgress: PlayerProgress | null = null;
+    let syncTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    // Load saved progress for this wallet
+    PlayerService.getProfile(walletAddress)
+      .then((profile) => {
+        if (!profile) return;
+        progressRef.current = { xp: profile.xp, level: profile.level, gold: profile.gold };
+        sceneRef.current?.applyProgress(progressRef.current);
+      })
+      .catch((err) => console.error('Error loading player progress:', err));
+
+    const flushProgress = (keepalive = false) => {
+      if (syncTimeout) {
+        clearTimeout(syncTimeout);
+        syncTimeout = null;
+      }
+      if (!pendingProgress) return;
+
+      const progress = pendingProgress;
+      pendingProgress = null;
+      PlayerService.syncProgress(walletAddress, progress, keepalive)
+        .catch((err) => console.error('Error syncing player progress:', err));
+    };
+
+    const handleProgressUpdate = (event: CustomEvent<PlayerProgress>) => {
+      progressRef.current = event.detail;
+      pendingProgress = event.detail;
+      if (!syncTimeout) {
+        syncTimeout = setTimeout(() => flushProgress(), PROGRESS_SYNC_DELAY_MS);
+      }
+    };
+
+    const handleBeforeUnload = () => flushProgress(true);
+
+    window.addEventListener('progressUpdate', handleProgressUpdate as EventListener);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      window.removeEventListener('progressUpdate', handleProgressUpdate as EventListener);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      flushProgress();
+    };
+  }, [walletAddress]);
+
   useEffect(() => {
     if (sceneRef.current) {
       (window as any).gameScene = sceneRef.current;
@@ -1,6 +1,22 @@
 import Phaser from 'phaser';
 import { ConstantColorFactor } from 'three';
 import multiplayerService from '@/lib/services/MultiplayerService';
+import {
+  createBattleRolls,
+  type BattleAction,
+  type BattleLogEvent,
+  type BattleSession,
+} from '@/lib/services/battleService';
+
+// A battle in progress: the server's session and what the server will replay
+interface ActiveBattle {
+  session: BattleSession;
+  roll: (action: BattleAction) => number;
+  startedAt: number;
+  log: BattleLogEvent[];
+  lastAttack: Partial<Record<BattleAction, number>>;
+  npcTimer: Phaser.Time.TimerEvent;
+}
 
 export class GameScene extends Phaser.Scene {
   private player!: Phaser.Physics.Arcade.Sprite;
@@ -37,6 +53,7 @@ export class GameScene extends Phaser.Scene {
   private healthBarPlayer!: Phaser.GameObjects.Graphics;
   private healthBars: { [key: string]: Phaser.GameObjects.Graphics } = {};
   private npcHealth: number = 100;
+  private battle: ActiveBattle | null = null;
 
   constructor() {
     super({ key: 'GameScene' });
@@ -739,6 +756,30 @@ export class GameScene extends Phaser.Scene {
     this.spellLabel.setText(this.spellCooldown > 0 ? `${this.spellCooldown}` : 'Ready');
   }
 
+  /**
+   * Restore saved progress, e.g. after a reload or `scene.restart()`
+   */
+  public applyProgress(progress: { xp: number; level: number; gold: number }) {
+    this.playerLevel = progress.level;
+    this.xp = progress.xp;
+    this.gold = progress.gold;
+    // Replay the per-level gains from levelUp()
+    this.xpToNext = 20 * Math.pow(1.5, progress.level - 1);
+    this.playerMaxHealth = 100 + 20 * (progress.level - 1);
+    this.playerHealth = this.playerMaxHealth;
+    this.playerStrength = 20 + 5 * (progress.level - 1);
+
+    window.dispatchEvent(new CustomEvent('goldUpdate', {
+      detail: { gold: this.gold }
+    }));
+  }
+
+  private emitProgress() {
+    window.dispatchEvent(new CustomEvent('progressUpdate', {
+      detail: { xp: this.xp, level: this.playerLevel, gold: this.gold }
+    }));
+  }
+
   private handleEnemyCollision(player: any, enemy: any) {
     const angle = Phaser.Math.Angle.Between(enemy.x, enemy.y, player.x, player.y);
     const speed = 400;
@@ -764,6 +805,7 @@ export class GameScene extends Phaser.Scene {
     if (this.xp >= this.xpToNext) {
       this.levelUp();
     }
+    this.emitProgress();
   }
 
   private handleAttackHit(attack: any, enemy: any) {
@@ -780,6 +822,7 @@ export class GameScene extends Phaser.Scene {
     if (this.xp >= this.xpToNext) {
       this.levelUp();
     }
+    this.emitProgress();
 
     // Spawn collectible
     if (Phaser.Math.Between(0, 100) < 30) {
@@ -805,6 +848,7 @@ export class GameScene extends Phaser.Scene {
       if (this.xp >= this.xpToNext) {
         this.levelUp();
       }
+      this.emitProgress();
     }
   }
 
@@ -974,14 +1018,14 @@ export class GameScene extends Phaser.Scene {
     this.events.emit('openTradeDialog', npc.name);
   }
 
-  private startNPCBattle(npc: Phaser.Physics.Arcade.Sprite) {
+  private startNPCBattle(npc: Phaser.Physics.Arcade.Sprite, session: BattleSession) {
     console.log('Starting NPC battle', npc);
     if (!npc) return; 
     
     this.isBattling = true;
     this.battleNPC = npc;
-    this.playerHealth = 100;
-    this.npcHealth = 100;
+    this.playerHealth = session.rules.playerHealth;
+    this.npcHealth = session.rules.npcHealth;
 
     // Notify UI about battle state
     window.dispatchEvent(new CustomEvent('battleStateChange', {
@@ -996,7 +1040,6 @@ export class GameScene extends Phaser.Scene {
     // Create health bars
     this.healthBar = this.add.graphics();
     this.npcHealthBar = this.add.graphics();
-    this.updateHealthBars();
 
     // Make NPC hold sword and use battle animation
     const animKey = 'skeleton-battle';
@@ -1015,12 +1058,57 @@ export class GameScene extends Phaser.Scene {
     this.input.keyboard.on('keydown-SHIFT', this.handlePlayerSpell, this);
 
     // Start NPC AI
-    this.time.addEvent({
-      delay: 2000,
+    const npcTimer = this.time.addEvent({
+      delay: session.rules.npc.intervalMs,
       callback: this.handleNPCAttack,
       callbackScope: this,
       loop: true
     });
+
+    // The server judges the battle from this log, so start its clock last
+    this.battle = {
+      session,
+      roll: createBattleRolls(session.seed, session.rules),
+      startedAt: Date.now(),
+      log: [],
+      lastAttack: {},
+      npcTimer,
+    };
+    this.updateHealthBars();
+  }
+
+  /**
+   * Log an attack for the server, roll its damage (0 for a miss) and take it
+   * off the target's health as the server will. Returns null while the
+   * attack is cooling down or once the battle is over.
+   */
+  private battleAttack(action: BattleAction): number | null {
+    const battle = this.battle;
+    if (!battle || this.playerHealth <= 0 || this.npcHealth <= 0) return null;
+
+    const t = Date.now() - battle.startedAt;
+    const last = battle.lastAttack[action];
+    if (action !== 'npc' && last !== undefined && t - last < battle.session.rules[action].cooldownMs) {
+      return null;
+    }
+
+    battle.lastAttack[action] = t;
+    battle.log.push({ t, action });
+    const damage = battle.roll(action);
+    if (action === 'npc') {
+      this.playerHealth = Math.max(0, this.playerHealth - damage);
+    } else {
+      // The NPC can't go down before the battle's minimum length
+      this.npcHealth = Math.max(t < battle.session.rules.minBattleMs ? 1 : 0, this.npcHealth - damage);
+    }
+    return damage;
+  }
+
+  /**
+   * The log of the current battle, to submit to the server when it ends
+   */
+  getBattleLog(): BattleLogEvent[] {
+    return this.battle ? [...this.battle.log] : [];
   }
 
   private handlePlayerAttack() {
@@ -1034,9 +1122,10 @@ export class GameScene extends Phaser.Scene {
       this.battleNPC.y
     );
 
-    if (distance < 100) { // Attack range
-      const damage = Phaser.Math.Between(10, 20);
-      this.npcHealth = Math.max(0, this.npcHealth - damage);
+    if (distance >= 100) return; // Attack range
+
+    const damage = this.battleAttack('sword');
+    if (damage) {
       this.showDamageNumber(damage, this.battleNPC.x, this.battleNPC.y);
       this.updateHealthBars();
     }
@@ -1045,8 +1134,9 @@ export class GameScene extends Phaser.Scene {
   private handlePlayerSpell() {
     if (!this.isBattling || !this.battleNPC) return;
 
-    const damage = Phaser.Math.Between(15, 25);
-    this.npcHealth = Math.max(0, this.npcHealth - damage);
+    const damage = this.battleAttack('spell');
+    if (!damage) return;
+
     this.showDamageNumber(damage, this.battleNPC.x, this.battleNPC.y, 0x00ff00);
     this.updateHealthBars();
   }
@@ -1064,17 +1154,9 @@ export class GameScene extends Phaser.Scene {
 
     this.physics.velocityFromRotation(angle, 200, this.battleNPC.body.velocity);
 
-    // Attack if close enough
-    const distance = Phaser.Math.Distance.Between(
-      this.player.x,
-      this.player.y,
-      this.battleNPC.x,
-      this.battleNPC.y
-    );
-
-    if (distance < 100) {
-      const damage = Phaser.Math.Between(8, 15);
-      this.playerHealth = Math.max(0, this.playerHealth - damage);
+    // The NPC attacks on every tick of its timer; the server rolls whether it lands
+    const damage = this.battleAttack('npc');
+    if (damage) {
       this.showDamageNumber(damage, this.player.x, this.player.y, 0xff0000);
       this.updateHealthBars();
     }
@@ -1105,25 +1187,28 @@ export class GameScene extends Phaser.Scene {
   }
 
   private updateHealthBars() {
-    if (!this.healthBar || !this.npcHealthBar || !this.player || !this.battleNPC) return;
+    if (!this.healthBar || !this.npcHealthBar || !this.player || !this.battleNPC || !this.battle) return;
+    const { rules } = this.battle.session;
 
     // Player health bar
     this.healthBar.clear();
     this.healthBar.fillStyle(0x00ff00);
-    this.healthBar.fillRect(this.player.x - 25, this.player.y - 40, 50 * (this.playerHealth / 100), 5);
+    this.healthBar.fillRect(this.player.x - 25, this.player.y - 40, 50 * (this.playerHealth / rules.playerHealth), 5);
     this.healthBar.lineStyle(1, 0xffffff);
     this.healthBar.strokeRect(this.player.x - 25, this.player.y - 40, 50, 5);
 
     // NPC health bar
     this.npcHealthBar.clear();
     this.npcHealthBar.fillStyle(0xff0000);
-    this.npcHealthBar.fillRect(this.battleNPC.x - 25, this.battleNPC.y - 40, 50 * (this.npcHealth / 100), 5);
+    this.npcHealthBar.fillRect(this.battleNPC.x - 25, this.battleNPC.y - 40, 50 * (this.npcHealth / rules.npcHealth), 5);
     this.npcHealthBar.lineStyle(1, 0xffffff);
     this.npcHealthBar.strokeRect(this.battleNPC.x - 25, this.battleNPC.y - 40, 50, 5);
   }
 
   private endNPCBattle() {
     this.isBattling = false;
+    this.battle?.npcTimer.remove();
+    this.battle = null;
     if (this.battleNPC) {
       this.battleNPC.setVelocity(0, 0);
       this.battleNPC.play('skeleton-idle');
@@ -8,13 +8,14 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useNFTInventory } from '@/hooks/useNFTInventory';
-import { useBlockchain } from '@/lib/context/BlockchainContext';
 import { useLockedNFT } from '@/lib/context/LockedNFTContext';
 import { useToast } from '@/hooks/use-toast';
 import NFTSelectionDialog from './NFTSelectionDialog';
 import BattleScene from './BattleScene';
 import { usePrivyWallet } from '@/hooks/usePrivyWallet';
+import { ShopService, type ShopQuote } from '@/lib/services/shopService';
+import { BattleService, type BattleLogEvent, type BattleResult } from '@/lib/services/battleService';
+import { WalletAuthService } from '@/lib/services/walletAuthService';
 
 interface TradeDialogProps {
   isOpen: boolean;
@@ -40,12 +41,12 @@ const npcDialogs = [
 ];
 
 export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogProps) {
-  const { mintCustomNFT } = useBlockchain();
-  const {signer} = usePrivyWallet();
+  const { signer, address } = usePrivyWallet();
   const { lockNFT } = useLockedNFT();
   const { toast } = useToast();
   const [selectedNFT, setSelectedNFT] = useState<number | null>(null);
   const [nftPrice, setNftPrice] = useState<number | null>(null);
+  const [pricing, setPricing] = useState<Pick<ShopQuote, 'pricing' | 'currency'> | null>(null);
   const [showBattleOffer, setShowBattleOffer] = useState(false);
   const [npcMessage, setNpcMessage] = useState(npcDialogs[0]);
   const [nftMetadata, setNftMetadata] = useState<NFTMetadata | null>(null);
@@ -55,39 +56,50 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
   const [battleStarted, setBattleStarted] = useState(false);
   const [battleComplete, setBattleComplete] = useState(false);
   const [battleWon, setBattleWon] = useState(false);
-  const { tokenIds } = useNFTInventory();
+  const [quote, setQuote] = useState<string | null>(null);
+  const [offerId, setOfferId] = useState<string | null>(null);
+  const [battleId, setBattleId] = useState<string | null>(null);
+  const [battleResult, setBattleResult] = useState<BattleResult | null>(null);
 
   useEffect(() => {
     if (isOpen) {
-      let availableIds = Array.from({ length: 1200 }, (_, i) => i + 1)
-        .filter(id => !tokenIds.includes(id.toString()));
-      
-      if (availableIds.length > 0) {
-        const randomIndex = Math.floor(Math.random() * availableIds.length);
-        const randomNFTId = availableIds[randomIndex];
-        setSelectedNFT(randomNFTId);
-        
-        const randomPrice = Math.floor(Math.random() * (320 - 273 + 1)) + 273;
-        setNftPrice(randomPrice);
-        
-        const randomDialog = Math.floor(Math.random() * npcDialogs.length);
-        setNpcMessage(npcDialogs[randomDialog]);
+      if (!address) return;
+      let cancelled = false;
 
-        fetch(`https://gateway.lighthouse.storage/ipfs/bafybeiem7ucsjote74moefa2kmprng6cdtcey43hakgvpww3icahqtpgee/${randomNFTId}.json`)
-          .then(response => response.json())
-          .then(data => setNftMetadata(data))
-          .catch(error => console.error('Error fetching NFT metadata:', error));
-      }
+      const randomDialog = Math.floor(Math.random() * npcDialogs.length);
+      setNpcMessage(npcDialogs[randomDialog]);
+
+      // The backend picks an NFT nobody else is being offered and prices it
+      WalletAuthService.getEvmToken(address, signer)
+        .then(token => ShopService.createOffer(token))
+        .then(offer => {
+          if (cancelled) return;
+          setSelectedNFT(offer.metadataId);
+          setNftPrice(offer.price);
+          setPricing({ pricing: offer.pricing, currency: offer.currency });
+          setNftMetadata(offer.metadata);
+          setQuote(offer.quote);
+          setOfferId(offer.offerId);
+        })
+        .catch(error => console.error('Error fetching NFT offer:', error));
+
+      return () => {
+        cancelled = true;
+      };
     } else {
       setNftMetadata(null);
       setSelectedNFT(null);
+      setQuote(null);
+      setOfferId(null);
+      setBattleId(null);
+      setBattleResult(null);
       setShowBattleOffer(false);
       setShowBattleScene(false);
       setPlayerNFT(null);
       setBattleComplete(false);
       setBattleWon(false);
     }
-  }, [isOpen, tokenIds]);
+  }, [isOpen, address, signer]);
 
   const handleBattleClick = () => {
     setNpcMessage("You think you can defeat me? Prove that and get 30% discount!");
@@ -105,28 +117,56 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
     }
   };
 
-  const handleNFTSelect = (nft: NFTMetadata) => {
+  const handleNFTSelect = async (nft: NFTMetadata) => {
     console.log('Selected NFT:', nft);
     setPlayerNFT(nft);
     setShowNFTSelection(false);
     
     // Start battle immediately after NFT selection
     const gameScene = (window as any).gameScene;
-    if (gameScene && gameScene.battleNPC) {
-      // Ensure the game is unpaused for battle
-      gameScene.resumeGame();
-      console.log("Battle NPC", gameScene.battleNPC);
-      gameScene.startNPCBattle(gameScene.battleNPC);
-      setShowBattleScene(true);
+    if (gameScene && gameScene.battleNPC && offerId && address) {
+      try {
+        // The server rolls the dice and judges the battle, so it has to start it
+        const token = await WalletAuthService.getEvmToken(address, signer);
+        const session = await BattleService.start(token, offerId);
+        setBattleId(session.battleId);
+
+        // Ensure the game is unpaused for battle
+        gameScene.resumeGame();
+        console.log("Battle NPC", gameScene.battleNPC);
+        gameScene.startNPCBattle(gameScene.battleNPC, session);
+        setShowBattleScene(true);
+      } catch (error) {
+        console.error("Error starting battle:", error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to start the battle.",
+          variant: "destructive",
+        });
+      }
     }
   };
 
-  const handleBattleEnd = (playerWon: boolean) => {
+  const handleBattleEnd = async (playerWon: boolean, log: BattleLogEvent[]) => {
     console.log('Battle ended, player won:', playerWon);
     setShowBattleScene(false);
     setBattleComplete(true);
-    setBattleWon(playerWon);
-    if (playerWon) {
+
+    // Only the server's verdict earns the discount
+    let result: BattleResult | null = null;
+    if (battleId && address) {
+      try {
+        const token = await WalletAuthService.getEvmToken(address, signer);
+        result = await BattleService.finish(token, battleId, log);
+      } catch (error) {
+        console.error("Error finishing battle:", error);
+      }
+    }
+
+    const won = result?.status === 'won';
+    setBattleResult(result);
+    setBattleWon(won);
+    if (won) {
       setNpcMessage("Impressive! You've earned the discount.");
     } else {
       setNpcMessage("Better luck next time, warrior!");
@@ -154,19 +194,18 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
 
   const handleBuyNFT = async () => {
     try {
-      if (!selectedNFT || nftPrice === null) {
-        console.error("No NFT or price selected");
+      if (!selectedNFT || !quote || !address) {
+        console.error("No NFT offer to buy");
         return;
       }
 
-      const finalPrice = battleWon ? Math.floor(nftPrice * 0.7) : nftPrice;
-      console.log("Buying NFT:", selectedNFT, "for price:", finalPrice);
-      
-      await mintCustomNFT(selectedNFT, finalPrice, signer);
+      // The backend burns the quoted price, less any battle discount, and mints the NFT
+      const token = await WalletAuthService.getEvmToken(address, signer);
+      await ShopService.purchase(token, quote, undefined, battleResult?.voucher);
       
       toast({
         title: "Success!",
-        description: `Successfully minted NFT #${selectedNFT}${battleWon ? ' with discount!' : ''}`,
+        description: `Successfully minted NFT #${selectedNFT}${battleResult?.voucher ? ' with discount!' : ''}`,
         variant: "default",
       });
 
@@ -177,13 +216,16 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
       console.error("Error buying NFT:", error);
       toast({
         title: "Error",
-        description: "Failed to mint NFT. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to mint NFT. Please try again.",
         variant: "destructive",
       });
     }
   };
 
-  const discountedPrice = nftPrice ? Math.floor(nftPrice * 0.7) : null;
+  // Matches what the backend charges with the voucher
+  const discountPercent = battleResult?.voucher ? battleResult.discountPercent ?? 0 : 0;
+  const discountedPrice = nftPrice ? Math.floor(nftPrice * (100 - discountPercent) / 100) : null;
+  const currency = pricing?.currency ?? 'CoA';
 
   return (
     <>
@@ -220,17 +262,27 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
                         </div>
                       ))}
                     </div>
-                    <p className="text-yellow-400 text-lg mb-4">
-                      {battleWon ? (
+                    <p className="text-yellow-400 text-lg mb-1">
+                      {discountPercent > 0 ? (
                         <span className="flex items-center gap-2">
-                          <span className="line-through text-gray-500">{nftPrice} CoA</span>
-                          <span>{discountedPrice} CoA</span>
-                          <span className="text-green-400 text-sm">(30% off)</span>
+                          <span className="line-through text-gray-500">{nftPrice} {currency}</span>
+                          <span>{discountedPrice} {currency}</span>
+                          <span className="text-green-400 text-sm">({discountPercent}% off)</span>
                         </span>
                       ) : (
-                        `${nftPrice} CoA`
+                        `${nftPrice} ${currency}`
                       )}
                     </p>
+                    {pricing && (
+                      <p className="text-gray-400 text-xs mb-4">
+                        Base {pricing.pricing.basePrice}
+                        {' × rarity '}{pricing.pricing.factors.rarity}
+                        {' × skill '}{pricing.pricing.factors.skill}
+                        {' × scarcity '}{pricing.pricing.factors.scarcity}
+                        {' × demand '}{pricing.pricing.factors.demand}
+                        {' · '}{pricing.pricing.availableSupply} left
+                      </p>
+                    )}
                     <div className="space-x-4">
                       {battleComplete ? (
                         <>
@@ -239,7 +291,7 @@ export default function TradeDialog({ isOpen, onClose, npcName }: TradeDialogPro
                             onClick={handleBuyNFT}
                             disabled={!selectedNFT}
                           >
-                            Buy NFT {battleWon ? 'with Discount' : ''}
+                            Buy NFT
                           </Button>
                           <Button
                             variant="outline"
@@ -23,7 +23,8 @@ const AptosWalletButton: FC<AptosWalletButtonProps> = ({
     error, 
     isPetraInstalled,
     address,
-    balance
+    balance,
+    networkMismatch
   } = useAptosWallet();
 
   const truncateAddress = (addr: string) => {
@@ -78,6 +79,11 @@ const AptosWalletButton: FC<AptosWalletButtonProps> = ({
             {balance} APT
           </span>
         )}
+        {networkMismatch && (
+          <span className="text-xs text-red-500 max-w-xs">
+            {networkMismatch}
+          </span>
+        )}
       </div>
       <Button
         onClick={disconnect}
@@ -1,9 +1,25 @@
 'use client';
 
 import { useAptosWallet } from '@/hooks/useAptosWallet';
+import { useCoAHistory } from '@/hooks/useCoAHistory';
+import type { CoAHistoryType } from '@/lib/services/coaTokenService';
+
+const ACTIVITY_LABELS: Record<CoAHistoryType, string> = {
+  reward: 'New player reward',
+  admin_mint: 'Minted',
+  purchase_burn: 'Shop purchase',
+  transfer_in: 'Received',
+  transfer_out: 'Sent',
+};
 
 export default function GameWallet() {
   const { balance, coaBalance, address, isConnected, refreshBalance } = useAptosWallet();
+  const activity = useCoAHistory(isConnected ? address : null);
+
+  const refresh = () => {
+    refreshBalance();
+    activity.refresh();
+  };
 
   const truncateAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -14,9 +30,9 @@ export default function GameWallet() {
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-bold text-white">Aptos Wallet</h2>
         <button 
-          onClick={refreshBalance}
+          onClick={refresh}
           className="text-purple-400 hover:text-purple-300 transition-colors"
-          title="Refresh balance"
+          title="Refresh balance and activity"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -61,6 +77,45 @@ export default function GameWallet() {
           )}
         </div>
       </div>
+
+      {isConnected && (
+        <div className="mt-4">
+          <div className="text-sm text-gray-400 mb-2">Activity</div>
+          {activity.error && (
+            <div className="text-xs text-red-400">{activity.error}</div>
+          )}
+          {!activity.error && activity.items.length === 0 && (
+            <div className="text-xs text-gray-500">
+              {activity.isLoading ? 'Loading...' : 'No activity yet'}
+            </div>
+          )}
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {activity.items.map((item) => (
+              <li
+                key={`${item.transactionVersion}:${item.eventIndex}`}
+                className="flex items-center justify-between text-xs"
+              >
+                <div>
+                  <div className="text-white">{ACTIVITY_LABELS[item.type]}</div>
+                  <div className="text-gray-500">{new Date(item.timestamp).toLocaleString()}</div>
+                </div>
+                <div className={item.direction === 'in' ? 'text-green-400' : 'text-red-400'}>
+                  {item.direction === 'in' ? '+' : '-'}{item.amount} CoA
+                </div>
+              </li>
+            ))}
+          </ul>
+          {activity.hasMore && (
+            <button
+              onClick={activity.loadMore}
+              disabled={activity.isLoading}
+              className="mt-2 text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 transition-colors"
+            >
+              {activity.isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
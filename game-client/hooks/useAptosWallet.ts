@@ -1,8 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Network, Aptos, AptosConfig } from '@aptos-labs/ts-sdk';
+import { AccountAuthenticator, Deserializer, type InputEntryFunctionData, type SimpleTransaction } from '@aptos-labs/ts-sdk';
+import { APTOS_FULLNODE_URL, APTOS_NETWORK, createAptosClient, toAptosNetworkName } from '@/lib/aptos-network';
 import { CoATokenService } from '@/lib/services/coaTokenService';
+import { HealthService } from '@/lib/services/healthService';
+import { SimulationService } from '@/lib/services/simulationService';
+import { MAX_SPONSORED_GAS_AMOUNT, SponsorService } from '@/lib/services/sponsorService';
 
 interface PetraWallet {
   connect(): Promise<{ address: string; network?: string }>;
@@ -10,6 +14,38 @@ interface PetraWallet {
   isConnected(): Promise<boolean>;
   account(): Promise<{ address: string }>;
   signAndSubmitTransaction(transaction: unknown): Promise<unknown>;
+  /** Sign without submitting; needed for transactions someone else pays gas for */
+  signTransaction?(transaction: SimpleTransaction): Promise<unknown>;
+  network?(): Promise<{ name: string }>;
+}
+
+// An entry function call, in SDK (`functionArguments`) or legacy wallet (`arguments`) form
+interface EntryFunctionPayload {
+  function: string;
+  typeArguments?: string[];
+  type_arguments?: string[];
+  functionArguments?: unknown[];
+  arguments?: unknown[];
+}
+
+const isEntryFunctionPayload = (transaction: unknown): transaction is EntryFunctionPayload =>
+  typeof (transaction as EntryFunctionPayload | null)?.function === 'string';
+
+const toEntryFunctionData = (payload: EntryFunctionPayload): InputEntryFunctionData => ({
+  function: payload.function as InputEntryFunctionData['function'],
+  typeArguments: payload.typeArguments ?? payload.type_arguments ?? [],
+  functionArguments: (payload.functionArguments ?? payload.arguments ?? []) as InputEntryFunctionData['functionArguments'],
+});
+
+// Wallets answer `signTransaction` with the authenticator itself, a wallet standard response, or its BCS bytes
+function toAccountAuthenticator(signed: unknown): AccountAuthenticator {
+  const result = (signed as { args?: unknown } | null)?.args ?? signed;
+  if (result instanceof AccountAuthenticator) return result;
+  if (result instanceof Uint8Array) return AccountAuthenticator.deserialize(new Deserializer(result));
+  if (typeof (result as AccountAuthenticator | null)?.bcsToBytes === 'function') {
+    return AccountAuthenticator.deserialize(new Deserializer((result as AccountAuthenticator).bcsToBytes()));
+  }
+  throw new Error('The wallet did not return a transaction signature');
 }
 
 declare global {
@@ -28,7 +64,11 @@ interface AptosWalletState {
   network: string;
 }
 
-const APTOS_MAINNET_RPC = 'https://fullnode.mainnet.aptoslabs.com/v1';
+// Network the wallet reports, falling back to ours when it does not say
+const getWalletNetwork = async (wallet: PetraWallet, reported?: string): Promise<string> => {
+  const name = reported ?? (await wallet.network?.())?.name;
+  return toAptosNetworkName(name) ?? name ?? APTOS_NETWORK;
+};
 
 export function useAptosWallet() {
   const [walletState, setWalletState] = useState<AptosWalletState>({
@@ -37,10 +77,28 @@ export function useAptosWallet() {
     isConnecting: false,
     balance: '0',
     coaBalance: 0,
-    network: 'mainnet'
+    network: APTOS_NETWORK
   });
   
   const [error, setError] = useState<string | null>(null);
+  const [backendNetwork, setBackendNetwork] = useState<string | null>(null);
+
+  // Check which network the backend is on
+  useEffect(() => {
+    HealthService.getHealth()
+      .then((health) => setBackendNetwork(health.aptos.network))
+      .catch((err) => console.error('Error fetching backend network:', err));
+  }, []);
+
+  const networkMismatch = useMemo(() => {
+    if (backendNetwork && backendNetwork !== APTOS_NETWORK) {
+      return `The game server is on ${backendNetwork}, but this app is configured for ${APTOS_NETWORK}.`;
+    }
+    if (walletState.isConnected && walletState.network !== APTOS_NETWORK) {
+      return `Petra is connected to ${walletState.network}. Switch it to ${APTOS_NETWORK} to play.`;
+    }
+    return null;
+  }, [backendNetwork, walletState.isConnected, walletState.network]);
 
   // Check if Petra wallet is installed
   const isPetraInstalled = useCallback(() => {
@@ -50,7 +108,7 @@ export function useAptosWallet() {
   // Get wallet balance using direct API call
   const getBalance = useCallback(async (address: string): Promise<string> => {
     try {
-      const response = await fetch(`${APTOS_MAINNET_RPC}/accounts/${address}/resources`);
+      const response = await fetch(`${APTOS_FULLNODE_URL}/accounts/${address}/resources`);
       if (!response.ok) {
         throw new Error('Failed to fetch balance');
       }
@@ -85,7 +143,11 @@ export function useAptosWallet() {
   // Reward new player with CoA tokens
   const rewardNewPlayer = useCallback(async (address: string): Promise<void> => {
     try {
-      await CoATokenService.rewardNewPlayer(address);
+      const reward = await CoATokenService.rewardNewPlayer(address);
+      // The payout is submitted in the background; wait for it before refreshing
+      if (reward.jobId && reward.status !== 'confirmed') {
+        await CoATokenService.waitForJob(reward.jobId);
+      }
       // Refresh CoA balance after reward
       const newCoABalance = await getCoABalance(address);
       setWalletState(prev => ({ ...prev, coaBalance: newCoABalance }));
@@ -110,6 +172,7 @@ export function useAptosWallet() {
           const account = await wallet.account();
           const balance = await getBalance(account.address);
           const coaBalance = await getCoABalance(account.address);
+          const network = await getWalletNetwork(wallet);
           
           setWalletState({
             address: account.address,
@@ -117,7 +180,7 @@ export function useAptosWallet() {
             isConnecting: false,
             balance,
             coaBalance,
-            network: 'mainnet'
+            network
           });
         }
       } catch (err) {
@@ -151,6 +214,7 @@ export function useAptosWallet() {
         const account = await wallet.account();
         const balance = await getBalance(account.address);
         const coaBalance = await getCoABalance(account.address);
+        const network = await getWalletNetwork(wallet, response.network);
         
         setWalletState({
           address: account.address,
@@ -158,7 +222,7 @@ export function useAptosWallet() {
           isConnecting: false,
           balance,
           coaBalance,
-          network: response.network || 'mainnet'
+          network
         });
 
         // Reward new player if they have 0 CoA tokens
@@ -188,7 +252,7 @@ export function useAptosWallet() {
         isConnecting: false,
         balance: '0',
         coaBalance: 0,
-        network: 'mainnet'
+        network: APTOS_NETWORK
       });
       setError(null);
     } catch (err) {
@@ -198,9 +262,49 @@ export function useAptosWallet() {
     }
   }, []);
 
-  // Sign and submit transaction
-  const signAndSubmitTransaction = useCallback(async (transaction: unknown) => {
-    if (!walletState.isConnected) {
+  // Have the backend pay the gas as fee payer, then sign and submit with both signatures
+  const submitSponsoredTransaction = useCallback(async (wallet: PetraWallet, sender: string, payload: EntryFunctionPayload) => {
+    if (!wallet.signTransaction) {
+      throw new Error('This wallet cannot sign sponsored transactions. Add APT for gas instead.');
+    }
+
+    const aptos = createAptosClient();
+    const transaction = await aptos.transaction.build.simple({
+      sender,
+      withFeePayer: true,
+      data: toEntryFunctionData(payload),
+      options: { maxGasAmount: MAX_SPONSORED_GAS_AMOUNT },
+    });
+    const feePayerAuthenticator = await SponsorService.sponsor(sender, transaction);
+    const senderAuthenticator = toAccountAuthenticator(await wallet.signTransaction(transaction));
+    return aptos.transaction.submit.simple({ transaction, senderAuthenticator, feePayerAuthenticator });
+  }, []);
+
+  // Simulate a game contract call first, so the player learns why it would fail before signing
+  const assertWouldSucceed = useCallback(async (sender: string, payload: EntryFunctionPayload, sponsored: boolean) => {
+    let simulation;
+    try {
+      simulation = await SimulationService.simulate(sender, {
+        function: payload.function,
+        typeArguments: payload.typeArguments ?? payload.type_arguments,
+        functionArguments: payload.functionArguments ?? payload.arguments,
+        sponsored,
+      });
+    } catch (err) {
+      // The wallet will still show its own simulation
+      console.warn('Transaction simulation unavailable:', err);
+      return;
+    }
+    if (simulation && !simulation.success) {
+      throw new Error(simulation.reason ?? 'Transaction would fail');
+    }
+  }, []);
+
+  // Sign and submit transaction. Entry function calls of wallets without APT
+  // are sponsored by default; pass `sponsored` to choose. Game contract calls
+  // that would fail are rejected with the reason before the wallet is asked.
+  const signAndSubmitTransaction = useCallback(async (transaction: unknown, options: { sponsored?: boolean } = {}) => {
+    if (!walletState.isConnected || !walletState.address) {
       throw new Error('Wallet not connected');
     }
 
@@ -209,6 +313,13 @@ export function useAptosWallet() {
       if (!wallet) {
         throw new Error('Wallet not found');
       }
+      const sponsored = options.sponsored ?? Number(walletState.balance) === 0;
+      if (isEntryFunctionPayload(transaction)) {
+        await assertWouldSucceed(walletState.address, transaction, sponsored);
+        if (sponsored) {
+          return await submitSponsoredTransaction(wallet, walletState.address, transaction);
+        }
+      }
       const response = await wallet.signAndSubmitTransaction(transaction);
       return response;
     } catch (err) {
@@ -216,7 +327,7 @@ export function useAptosWallet() {
       const errorMessage = err instanceof Error ? err.message : 'Failed to sign transaction';
       throw new Error(errorMessage);
     }
-  }, [walletState.isConnected]);
+  }, [walletState.isConnected, walletState.address, walletState.balance, assertWouldSucceed, submitSponsoredTransaction]);
 
   // Refresh balance
   const refreshBalance = useCallback(async () => {
@@ -230,6 +341,7 @@ export function useAptosWallet() {
   return {
     ...walletState,
     error,
+    networkMismatch,
     isPetraInstalled: isPetraInstalled(),
     connect,
     disconnect,
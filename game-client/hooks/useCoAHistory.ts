@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CoATokenService, type CoAHistoryItem } from '@/lib/services/coaTokenService';
+
+const HISTORY_PAGE_SIZE = 10;
+
+/**
+ * An Aptos account's CoA history, newest first, one page at a time
+ */
+export function useCoAHistory(address: string | null) {
+  const [items, setItems] = useState<CoAHistoryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    if (!address) return;
+
+    try {
+      setIsLoading(true);
+      const page = await CoATokenService.getHistory(address, cursor, HISTORY_PAGE_SIZE);
+      setItems((current) => (cursor ? [...current, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching CoA history:', err);
+      setError('Failed to fetch activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setItems([]);
+    setNextCursor(null);
+    fetchPage(null);
+  }, [fetchPage]);
+
+  const refresh = useCallback(() => fetchPage(null), [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !isLoading) {
+      fetchPage(nextCursor);
+    }
+  }, [fetchPage, nextCursor, isLoading]);
+
+  return { items, hasMore: nextCursor !== null, isLoading, error, refresh, loadMore };
+}
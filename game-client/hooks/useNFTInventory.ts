@@ -1,10 +1,32 @@
 import { useState, useEffect } from 'react';
 import { usePrivyWallet } from './usePrivyWallet';
-import { NFTMetadata } from '@/types/nft';
+import { useAptosWallet } from './useAptosWallet';
+import { NFTMetadata, OwnedAptosNFT } from '@/types/nft';
+import { CoATokenService } from '@/lib/services/coaTokenService';
+import { NFTMetadataService, metadataIdFromUri } from '@/lib/services/nftMetadataService';
 import { ERC721_ABI } from '@/lib/contracts/abi/erc_721';
 import { CONTRACT_ADDRESS_NFT_MINTER } from '@/lib/contracts/contract-config';
 import { useBlockchain } from '@/lib/context/BlockchainContext';
 
+const APTOS_NFT_PAGE_SIZE = 50;
+
+// Fetch every page of an Aptos account's Velmora NFTs, with metadata
+async function fetchAptosNFTs(address: string): Promise<OwnedAptosNFT[]> {
+  const nfts: OwnedAptosNFT[] = [];
+  let total = Infinity;
+  while (nfts.length < total) {
+    const page = await CoATokenService.getAccountTokens(address, {
+      offset: nfts.length,
+      limit: APTOS_NFT_PAGE_SIZE,
+      metadata: true,
+    });
+    nfts.push(...page.nfts);
+    total = page.pagination.total;
+    if (page.nfts.length === 0) break;
+  }
+  return nfts;
+}
+
 export function useNFTInventory() {
   const [tokenIds, setTokenIds] = useState<string[]>([]);
   const [metadata, setMetadata] = useState<Record<string, NFTMetadata>>({});
@@ -13,11 +35,46 @@ export function useNFTInventory() {
   
   const { address, authenticated, signer } = usePrivyWallet();
   const { tokenURI } = useBlockchain();
+  const { address: aptosAddress, isConnected: isAptosConnected } = useAptosWallet();
 
   useEffect(() => {
     let mounted = true;
 
+    // Aptos players: the backend lists the NFTs along with their on-chain attributes
+    const fetchAptosInventory = async (owner: string) => {
+      try {
+        setIsLoading(true);
+        const nfts = await fetchAptosNFTs(owner);
+        if (!mounted) return;
+
+        const metadataMap: Record<string, NFTMetadata> = {};
+        for (const nft of nfts) {
+          if (nft.metadata) {
+            // Contract rarity is a percentage; metadata JSON uses a fraction
+            metadataMap[nft.tokenDataId] = { ...nft.metadata, rarity: nft.rarity / 100, skill: nft.skill };
+          }
+        }
+
+        setTokenIds(nfts.map((nft) => nft.tokenDataId));
+        setMetadata(metadataMap);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching Aptos NFTs:', err);
+        if (mounted) {
+          setError('Failed to fetch NFTs');
+        }
+      } finally {
+        if (mounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
     const fetchNFTs = async () => {
+      if (isAptosConnected && aptosAddress) {
+        return fetchAptosInventory(aptosAddress);
+      }
+
       if (!address || !authenticated) {
         setIsLoading(false);
         return;
@@ -57,23 +114,26 @@ export function useNFTInventory() {
           setTokenIds(ownedTokenIds);
           console.log('Owned token IDs:', ownedTokenIds);
           
-          // Fetch metadata for each owned token using tokenURI from contract
-          const metadataPromises = ownedTokenIds.map(async (id) => {
+          // Map each owned token to its metadata ID using tokenURI from contract
+          const metadataIds = await Promise.all(ownedTokenIds.map(async (id) => {
             try {
-              const uri = await tokenURI(id,signer);
-              const response = await fetch(uri);
-              if (!response.ok) throw new Error(`Failed to fetch metadata for token ${id}`);
-              return { id, metadata: await response.json() };
+              const metadataId = metadataIdFromUri(await tokenURI(id, signer));
+              if (metadataId === null) throw new Error(`Unrecognized token URI for token ${id}`);
+              return metadataId;
             } catch (err) {
               console.error(`Error fetching metadata for token ${id}:`, err);
-              return { id, metadata: null };
+              return null;
             }
-          });
+          }));
 
-          const metadataResults = await Promise.all(metadataPromises);
-          const metadataMap = metadataResults.reduce((acc, { id, metadata }) => {
-            if (metadata) {
-              acc[id] = metadata;
+          // The backend resolves and caches the metadata JSON across IPFS gateways
+          const { metadata: fetched } = await NFTMetadataService.getMetadataBatch(
+            metadataIds.filter((metadataId): metadataId is number => metadataId !== null),
+          );
+          const metadataMap = ownedTokenIds.reduce((acc, id, index) => {
+            const metadataId = metadataIds[index];
+            if (metadataId !== null && fetched[metadataId]) {
+              acc[id] = fetched[metadataId];
             }
             return acc;
           }, {} as Record<string, NFTMetadata>);
@@ -98,7 +158,7 @@ export function useNFTInventory() {
     return () => {
       mounted = false;
     };
-  }, [address, authenticated, signer, tokenURI]);
+  }, [address, authenticated, signer, tokenURI, aptosAddress, isAptosConnected]);
 
   return { tokenIds, metadata, isLoading, error };
 }
@@ -0,0 +1,22 @@
+import { Aptos, AptosConfig, Network, NetworkToNodeAPI } from '@aptos-labs/ts-sdk';
+
+const APTOS_NETWORKS = [Network.MAINNET, Network.TESTNET, Network.DEVNET, Network.LOCAL] as const;
+export type AptosNetworkName = typeof APTOS_NETWORKS[number];
+
+/**
+ * Map a network name to one of ours, or null for custom networks.
+ * Accepts wallet spellings too (Petra reports e.g. "Testnet" or "Localhost").
+ */
+export function toAptosNetworkName(name: string | undefined): AptosNetworkName | null {
+  const normalized = name?.trim().toLowerCase();
+  if (normalized === 'localhost' || normalized === 'localnet') return Network.LOCAL;
+  return APTOS_NETWORKS.find((network) => network === normalized) ?? null;
+}
+
+// Must match the backend's APTOS_NETWORK; GET /health reports the backend's network
+export const APTOS_NETWORK = toAptosNetworkName(process.env.NEXT_PUBLIC_APTOS_NETWORK) ?? Network.TESTNET;
+
+export const APTOS_FULLNODE_URL = process.env.NEXT_PUBLIC_APTOS_FULLNODE_URL || NetworkToNodeAPI[APTOS_NETWORK];
+
+/** Client for building and submitting transactions ourselves rather than through the wallet */
+export const createAptosClient = () => new Aptos(new AptosConfig({ network: APTOS_NETWORK, fullnode: APTOS_FULLNODE_URL }));
@@ -4,16 +4,14 @@ import React, { createContext, useContext, useCallback } from 'react';
 import { usePrivy } from '@privy-io/react-auth';
 import Web3 from 'web3';
 import { CONTRACT_ABI_MINTER } from '../contracts/abi/token_minter';
-import { CONTRACT_ADDRESS_MINTER, CONTRACT_ADDRESS_NFT_MINTER, CONTRACT_ADDRESS_SOULBOUND_MINTER } from '../contracts/contract-config';
+import { CONTRACT_ADDRESS_MINTER, CONTRACT_ADDRESS_NFT_MINTER } from '../contracts/contract-config';
 import { CONTRACT_ABI_NFT_MINTER } from '../contracts/abi/nft_minter';
-import { CONTRACT_ABI_SOULBOUND_MINTER } from '../contracts/abi/soulbound';
 
 interface BlockchainContextType {
   mintTokens: (getSigner: () => Promise<any>) => Promise<string>;
   mintNFTs: (getSigner: () => Promise<any>) => Promise<string>;
   tokenURI: (tokenId: string, getSigner: () => Promise<any>) => Promise<string>;
   mintCustomNFT: (tokenId: number, price: number, getSigner: () => Promise<any>) => Promise<any>;
-  mintSoulboundNFT: (getSigner: () => Promise<any>) => Promise<any>;
   isLoadingTokens: boolean;
   isLoadingNFTs: boolean;
 }
@@ -168,45 +166,11 @@ export function BlockchainProvider({ children }: { children: React.ReactNode })
     }
   }, [user?.wallet?.address]);
 
-  const mintSoulboundNFT = async (signer: () => Promise<any>) => {
-    if (!user?.wallet?.address) {
-      console.error("No signer or address available");
-      return;
-    }
-
-    try {
-      // Replace with your soulbound contract address once added
-      const web3 = await signer();
-      const soulboundContract = new web3.eth.Contract(
-        CONTRACT_ABI_SOULBOUND_MINTER,
-        CONTRACT_ADDRESS_SOULBOUND_MINTER
-      );
-      const gasEstimate = await soulboundContract.methods
-      .mintNFT1(user.wallet.address)
-      .estimateGas({ from: user.wallet.address });
-
-    const gasWithBuffer = BigInt(gasEstimate) +
-      (BigInt(gasEstimate) * BigInt(20) / BigInt(100));
-
-      const tx = await soulboundContract.methods.mintNFT1(user.wallet.address).send({ 
-        from: user.wallet.address,
-        gas: gasWithBuffer.toString()
-      });
-      await tx.wait();
-
-      return tx;
-    } catch (error) {
-      console.error("Error minting soulbound NFT:", error);
-      throw error;
-    }
-  };
-
   const value = {
     mintTokens,
     mintNFTs,
     tokenURI,
     mintCustomNFT,
-    mintSoulboundNFT,
     isLoadingTokens,
     isLoadingNFTs
   };
@@ -0,0 +1,68 @@
+'use client';
+
+import { WalletAuthService } from './walletAuthService';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+export type AchievementStatus = 'pending' | 'submitted' | 'confirmed' | 'rejected' | 'failed';
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  /** Soulbound NFT variant (`mintNFT1..5`) it awards */
+  variant: number;
+  requirement: { stat: 'gold' | 'level'; min: number };
+}
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  earned: boolean;
+  /** Set once the award was claimed */
+  status?: AchievementStatus;
+  recipient?: string;
+  transactionHash?: string;
+}
+
+export interface AchievementClaim {
+  achievementId: string;
+  recipient: string;
+  status: AchievementStatus;
+  transactionHash?: string;
+}
+
+export class AchievementService {
+  /**
+   * Every achievement, with whether the player earned it and its award
+   */
+  static async getProgress(address: string): Promise<AchievementProgress[]> {
+    const response = await fetch(`${BACKEND_URL}/achievements/${address}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch achievements: ${response.statusText}`);
+    }
+    const { achievements } = await response.json();
+    return achievements;
+  }
+
+  /**
+   * Have the backend mint the soulbound NFT of an achievement the player
+   * (signed in with their Aptos wallet, whose progress is judged) earned to
+   * their EVM wallet
+   */
+  static async claim(aptosAddress: string, achievementId: string, recipient: string): Promise<AchievementClaim> {
+    const token = await WalletAuthService.getAptosToken(aptosAddress);
+    const response = await fetch(`${BACKEND_URL}/achievements/${achievementId}/claim`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ recipient }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `Failed to claim achievement: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,118 @@
+'use client';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+export type BattleAction = 'sword' | 'spell' | 'npc';
+
+/**
+ * How the server judges a battle; damage ranges are inclusive, and
+ * `hitChance` is the share of attacks that land. The NPC holds on at 1 HP
+ * at least until `minBattleMs` into the battle.
+ */
+export interface BattleRules {
+  playerHealth: number;
+  npcHealth: number;
+  sword: { damage: [number, number]; cooldownMs: number; hitChance: number };
+  spell: { damage: [number, number]; cooldownMs: number; hitChance: number };
+  npc: { damage: [number, number]; intervalMs: number; hitChance: number };
+  minBattleMs: number;
+  maxLogEvents: number;
+}
+
+export interface BattleSession {
+  battleId: string;
+  offerId: string;
+  /** Every hit and damage roll comes from `createBattleRolls(seed, rules)` */
+  seed: number;
+  rules: BattleRules;
+  discountPercent: number;
+  expiresAt: string;
+}
+
+/**
+ * When an attack was made; the server rolls whether it landed
+ */
+export interface BattleLogEvent {
+  /** Milliseconds since the battle started */
+  t: number;
+  action: BattleAction;
+}
+
+export interface BattleResult {
+  battleId: string;
+  offerId: string;
+  status: 'won' | 'lost';
+  playerHealth: number;
+  npcHealth: number;
+  /** Won battles only: pass to `ShopService.purchase` for the discount */
+  voucher?: string;
+  discountPercent?: number;
+}
+
+/**
+ * The backend's seeded PRNG (mulberry32), so hits and damage shown in game
+ * match what the server replays
+ */
+export function createBattleRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The backend's per-action streams
+const ACTION_STREAMS: Record<BattleAction, number> = { sword: 0x5f3759df, spell: 0x9e3779b9, npc: 0x85ebca6b };
+
+/**
+ * Roll an attack as the server does: whether it lands and, if it does, its
+ * damage (0 for a miss), from the action's own stream
+ */
+export function createBattleRolls(seed: number, rules: BattleRules): (action: BattleAction) => number {
+  const streams = {
+    sword: createBattleRng(seed ^ ACTION_STREAMS.sword),
+    spell: createBattleRng(seed ^ ACTION_STREAMS.spell),
+    npc: createBattleRng(seed ^ ACTION_STREAMS.npc),
+  };
+
+  return (action) => {
+    const rng = streams[action];
+    const { hitChance, damage: [min, max] } = rules[action];
+    return rng() < hitChance ? min + Math.floor(rng() * (max - min + 1)) : 0;
+  };
+}
+
+async function post<T>(path: string, token: string, body: unknown): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}/battles${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `Battle request failed: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export class BattleService {
+  /**
+   * Start the battle over a shop offer; each offer gets one
+   */
+  static async start(token: string, offerId: string): Promise<BattleSession> {
+    return post('', token, { offerId });
+  }
+
+  /**
+   * Submit the log of a battle for the server to judge
+   */
+  static async finish(token: string, battleId: string, log: BattleLogEvent[]): Promise<BattleResult> {
+    return post(`/${battleId}/finish`, token, { log });
+  }
+}
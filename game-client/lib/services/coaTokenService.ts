@@ -1,5 +1,7 @@
 'use client';
 
+import type { OwnedAptosNFT } from '@/types/nft';
+
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
 
 export interface CoABalance {
@@ -14,12 +16,78 @@ export interface CoAMetadata {
   totalSupply: number;
 }
 
+export interface AccountTokensOptions {
+  offset?: number;
+  limit?: number;
+  /** Include each NFT's metadata JSON */
+  metadata?: boolean;
+}
+
+export interface AccountTokens {
+  tokens: Array<{
+    name: string;
+    symbol: string;
+    balance: number;
+    decimals: number;
+  }>;
+  nfts: OwnedAptosNFT[];
+  pagination: { offset: number; limit: number; total: number };
+}
+
+export type CoAHistoryType = 'reward' | 'admin_mint' | 'purchase_burn' | 'transfer_in' | 'transfer_out';
+
+export interface CoAHistoryItem {
+  transactionVersion: number;
+  eventIndex: number;
+  type: CoAHistoryType;
+  direction: 'in' | 'out';
+  amount: number;
+  timestamp: string;
+}
+
+export interface CoAHistoryPage {
+  address: string;
+  items: CoAHistoryItem[];
+  /** Pass as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export type RewardStatus = 'pending' | 'submitted' | 'confirmed' | 'rejected' | 'failed';
+
 export interface TokenRewardResponse {
   message: string;
-  transactionHash: string;
+  walletAddress: string;
   amount: number;
+  status: RewardStatus;
+  jobId?: string;
+  transactionHash?: string;
 }
 
+export interface TokenMintResponse {
+  message: string;
+  jobId: string;
+  status: JobState;
+  recipient: string;
+  amount: number;
+}
+
+export type JobState = 'queued' | 'submitting' | 'submitted' | 'committed' | 'failed';
+
+export interface JobStatus {
+  id: string;
+  type: string;
+  status: JobState;
+  attempts: number;
+  transactionHash?: string;
+  vmStatus?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_TIMEOUT_MS = 60000;
+
 export class CoATokenService {
   /**
    * Get CoA token balance for an address
@@ -46,7 +114,7 @@ export class CoATokenService {
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.message || `Failed to reward player: ${response.statusText}`);
+      throw new Error(errorData.error || `Failed to reward player: ${response.statusText}`);
     }
 
     return response.json();
@@ -64,25 +132,40 @@ export class CoATokenService {
   }
 
   /**
-   * Get all tokens for an account (including CoA and APT)
+   * Get the CoA and APT balances of an account and a page of its Velmora NFTs
    */
-  static async getAccountTokens(address: string): Promise<Array<{
-    name: string;
-    symbol: string;
-    balance: number;
-    decimals: number;
-  }>> {
-    const response = await fetch(`${BACKEND_URL}/aptos/tokens/${address}`);
+  static async getAccountTokens(address: string, options: AccountTokensOptions = {}): Promise<AccountTokens> {
+    const params = new URLSearchParams();
+    if (options.offset !== undefined) params.set('offset', String(options.offset));
+    if (options.limit !== undefined) params.set('limit', String(options.limit));
+    if (options.metadata) params.set('metadata', 'true');
+
+    const response = await fetch(`${BACKEND_URL}/aptos/tokens/${address}?${params}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch account tokens: ${response.statusText}`);
     }
     return response.json();
   }
 
+  /**
+   * Get a page of an account's CoA history, newest first
+   */
+  static async getHistory(address: string, cursor?: string | null, limit?: number): Promise<CoAHistoryPage> {
+    const params = new URLSearchParams();
+    if (cursor) params.set('cursor', cursor);
+    if (limit !== undefined) params.set('limit', String(limit));
+
+    const response = await fetch(`${BACKEND_URL}/aptos/coa/history/${address}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch CoA history: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
   /**
    * Mint CoA tokens (admin function)
    */
-  static async mintTokens(toAddress: string, amount: number): Promise<TokenRewardResponse> {
+  static async mintTokens(toAddress: string, amount: number): Promise<TokenMintResponse> {
     const response = await fetch(`${BACKEND_URL}/aptos/coa/mint`, {
       method: 'POST',
       headers: {
@@ -93,9 +176,37 @@ export class CoATokenService {
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.message || `Failed to mint tokens: ${response.statusText}`);
+      throw new Error(errorData.error || `Failed to mint tokens: ${response.statusText}`);
     }
 
     return response.json();
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the status of a backend transaction job
+   */
+  static async getJob(jobId: string): Promise<JobStatus> {
+    const response = await fetch(`${BACKEND_URL}/jobs/${jobId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch job: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Poll a job until its transaction has committed or failed
+   */
+  static async waitForJob(jobId: string, timeoutMs = JOB_POLL_TIMEOUT_MS): Promise<JobStatus> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const job = await this.getJob(jobId);
+      if (job.status === 'committed' || job.status === 'failed') {
+        return job;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Job ${jobId} is still ${job.status}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  }
+}
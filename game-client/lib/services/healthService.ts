@@ -0,0 +1,28 @@
+'use client';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+export interface BackendHealth {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  aptos: {
+    network: string;
+    chainId: number | null;
+    fullnodeUrl: string;
+    indexerUrl: string;
+  };
+}
+
+export class HealthService {
+  /**
+   * Get the backend's status and the Aptos network it is configured for
+   */
+  static async getHealth(): Promise<BackendHealth> {
+    const response = await fetch(`${BACKEND_URL}/health`);
+    // 503 still carries the report; it only means a dependency is down
+    if (!response.ok && response.status !== 503) {
+      throw new Error(`Failed to fetch backend health: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
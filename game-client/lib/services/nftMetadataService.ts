@@ -0,0 +1,57 @@
+'use client';
+
+import type { NFTMetadata } from '@/types/nft';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+/** Largest number of IDs the backend resolves per batch request */
+const MAX_BATCH_SIZE = 50;
+
+export interface NFTMetadataBatch {
+  metadata: Record<string, NFTMetadata>;
+  /** IDs whose metadata could not be fetched */
+  missing: number[];
+}
+
+/**
+ * The metadata ID a token URI points at (`.../<id>.json`), or null
+ */
+export function metadataIdFromUri(uri: string): number | null {
+  const match = /\/(\d+)(?:\.json)?$/.exec(uri);
+  return match ? Number(match[1]) : null;
+}
+
+export class NFTMetadataService {
+  /**
+   * Get the metadata of one NFT through the backend's cached IPFS proxy
+   */
+  static async getMetadata(metadataId: number): Promise<NFTMetadata> {
+    const response = await fetch(`${BACKEND_URL}/nfts/${metadataId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch metadata for NFT ${metadataId}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Get the metadata of several NFTs, split into batches the backend accepts
+   */
+  static async getMetadataBatch(metadataIds: number[]): Promise<NFTMetadataBatch> {
+    const result: NFTMetadataBatch = { metadata: {}, missing: [] };
+    const ids = Array.from(new Set(metadataIds));
+
+    for (let start = 0; start < ids.length; start += MAX_BATCH_SIZE) {
+      const batch = ids.slice(start, start + MAX_BATCH_SIZE);
+      const response = await fetch(`${BACKEND_URL}/nfts?ids=${batch.join(',')}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch NFT metadata: ${response.statusText}`);
+      }
+
+      const { metadata, missing }: NFTMetadataBatch = await response.json();
+      Object.assign(result.metadata, metadata);
+      result.missing.push(...missing);
+    }
+
+    return result;
+  }
+}
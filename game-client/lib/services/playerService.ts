@@ -0,0 +1,67 @@
+'use client';
+
+import { WalletAuthService } from './walletAuthService';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+export interface PlayerProgress {
+  xp: number;
+  level: number;
+  gold: number;
+}
+
+export interface PlayerProfile extends PlayerProgress {
+  walletAddress: string;
+  balance: number;
+  nfts: { tokenId: string; metadata?: unknown }[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export class PlayerService {
+  /**
+   * Get the saved profile of a player, or null for a new player
+   */
+  static async getProfile(address: string): Promise<PlayerProfile | null> {
+    const response = await fetch(`${BACKEND_URL}/players/${address}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch player profile: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Save in-game progress. The backend keeps the highest progress it has seen,
+   * up to what could have been earned since the profile was created.
+   * `keepalive` lets the request finish while the tab is closing.
+   */
+  static async syncProgress(address: string, progress: PlayerProgress, keepalive = false): Promise<PlayerProfile> {
+    // A closing tab can't prompt the wallet, so only an existing session is used then
+    const token = keepalive
+      ? WalletAuthService.getCachedSession('aptos', address)?.token
+      : await WalletAuthService.getAptosToken(address);
+    if (!token) {
+      throw new Error('No active session to sync progress with');
+    }
+
+    const response = await fetch(`${BACKEND_URL}/players/${address}/progress`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(progress),
+      keepalive,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `Failed to sync progress: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
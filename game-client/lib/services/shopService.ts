@@ -0,0 +1,98 @@
+'use client';
+
+import type { NFTMetadata } from '@/types/nft';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+export interface ShopOffer {
+  offerId: string;
+  metadataId: number;
+  price: number;
+  /** What the buyer paid, once bought; below `price` with a battle voucher */
+  paidPrice?: number;
+  currency: 'CoA' | 'AuraCoins';
+  /** `unfulfilled`: paid for, but the mint failed; `retry` it */
+  status: 'open' | 'purchasing' | 'purchased' | 'unfulfilled' | 'failed';
+  expiresAt: string;
+  transactionHash?: string;
+}
+
+/**
+ * How the backend arrived at a price: the base price times each factor,
+ * clamped to `[floor, ceiling]`
+ */
+export interface ShopPricing {
+  price: number;
+  basePrice: number;
+  factors: { rarity: number; skill: number; scarcity: number; demand: number };
+  floor: number;
+  ceiling: number;
+  /** NFTs left to mint on the chain */
+  availableSupply: number;
+  /** Shop sales on the chain in the demand window */
+  recentSales: number;
+}
+
+export interface ShopQuote extends ShopOffer {
+  metadata: NFTMetadata;
+  pricing: ShopPricing;
+  /** Signed by the backend; send it back unchanged to buy the offer */
+  quote: string;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}/shop${path}`, init);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `Shop request failed: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+async function post<T>(path: string, token: string, body?: unknown): Promise<T> {
+  return request(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+export class ShopService {
+  /**
+   * What the shop currently charges for an NFT on a chain
+   */
+  static async getPrice(metadataId: number, chain: 'evm' | 'aptos'): Promise<ShopPricing & { currency: ShopOffer['currency'] }> {
+    return request(`/price/${metadataId}?chain=${chain}`);
+  }
+
+  /**
+   * Get an NFT offer for the signed-in wallet, reserved until `expiresAt`
+   */
+  static async createOffer(token: string): Promise<ShopQuote> {
+    return post('/offers', token);
+  }
+
+  /**
+   * Buy the NFT of a quote. Aptos wallets must first transfer the price in
+   * CoA to the shop and pass that transaction's hash. A `voucher` from a
+   * battle won over the offer takes its discount off the price.
+   */
+  static async purchase(
+    token: string,
+    quote: string,
+    paymentTransactionHash?: string,
+    voucher?: string,
+  ): Promise<ShopOffer> {
+    return post('/purchase', token, { quote, paymentTransactionHash, voucher });
+  }
+
+  /**
+   * Mint the NFT of an offer the wallet paid for but whose mint failed
+   */
+  static async retry(token: string, offerId: string): Promise<ShopOffer> {
+    return post(`/offers/${offerId}/retry`, token);
+  }
+}
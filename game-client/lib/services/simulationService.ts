@@ -0,0 +1,61 @@
+'use client';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+// `<address>::<module>::<function>` of the game's contract modules
+const VELMORA_FUNCTION = /^0x[0-9a-fA-F]+::((?:coins_of_aura|velmora_nft)::\w+)$/;
+
+export interface MoveAbort {
+  module: string;
+  /** Error constant, e.g. `E_INSUFFICIENT_BALANCE`, when known */
+  name: string | null;
+  code: number;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  abort: MoveAbort | null;
+  /** Why the transaction would fail; null when it would succeed */
+  reason: string | null;
+  gasUsed: number;
+  gasUnitPrice: number;
+  /** APT */
+  estimatedFee: number;
+}
+
+export interface SimulationRequest {
+  /** Fully qualified entry function, `<address>::<module>::<function>` */
+  function: string;
+  typeArguments?: string[];
+  functionArguments?: unknown[];
+  sponsored?: boolean;
+}
+
+export class SimulationService {
+  /**
+   * Dry-run a Velmora contract entry function call from `sender`. Returns
+   * null for functions of other contracts, which the backend doesn't simulate.
+   */
+  static async simulate(sender: string, request: SimulationRequest): Promise<SimulationResult | null> {
+    const match = VELMORA_FUNCTION.exec(request.function);
+    if (!match) return null;
+
+    const response = await fetch(`${BACKEND_URL}/aptos/simulate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sender,
+        function: match[1],
+        typeArguments: request.typeArguments ?? [],
+        functionArguments: request.functionArguments ?? [],
+        sponsored: request.sponsored ?? false,
+      }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `Failed to simulate transaction: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { AccountAddress, AccountAuthenticator, Deserializer, Hex, type SimpleTransaction } from '@aptos-labs/ts-sdk';
+import { WalletAuthService } from './walletAuthService';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+
+/** Gas units the backend sponsors per transaction at most */
+export const MAX_SPONSORED_GAS_AMOUNT = 20_000;
+
+interface SponsorResponse {
+  function: string;
+  feePayerAddress: string;
+  /** BCS of the fee payer's `AccountAuthenticator`, hex */
+  feePayerAuthenticator: string;
+}
+
+export class SponsorService {
+  /**
+   * Have the backend pay the gas of a fee payer transaction built by the
+   * player. Sets the transaction's fee payer address, which the player must
+   * sign over, and returns the fee payer's authenticator to submit with.
+   */
+  static async sponsor(address: string, transaction: SimpleTransaction): Promise<AccountAuthenticator> {
+    const token = await WalletAuthService.getAptosToken(address);
+    const response = await fetch(`${BACKEND_URL}/aptos/sponsor`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ transaction: transaction.bcsToHex().toString() }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `Failed to sponsor transaction: ${response.statusText}`);
+    }
+
+    const sponsorship: SponsorResponse = await response.json();
+    transaction.feePayerAddress = AccountAddress.from(sponsorship.feePayerAddress);
+    return AccountAuthenticator.deserialize(
+      new Deserializer(Hex.fromHexInput(sponsorship.feePayerAuthenticator).toUint8Array()),
+    );
+  }
+}
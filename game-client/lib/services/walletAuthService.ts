@@ -0,0 +1,138 @@
+'use client';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8787';
+const SESSION_STORAGE_KEY = 'velmora-session';
+
+type Chain = 'evm' | 'aptos';
+
+// One session per wallet, so signing in with the other chain's wallet doesn't log this one out.
+// Addresses are compared without case or leading zeros (Aptos addresses come long and short).
+const sessionKey = (chain: Chain, address: string) =>
+  `${SESSION_STORAGE_KEY}:${chain}:${address.toLowerCase().replace(/^0x0*/, '0x')}`;
+
+export interface WalletSession {
+  token: string;
+  expiresAt: string;
+  wallet: {
+    address: string;
+    chain: Chain;
+  };
+}
+
+interface LoginChallenge {
+  message: string;
+  nonce: string;
+}
+
+interface AptosSignMessageResponse {
+  fullMessage: string;
+  signature: string;
+}
+
+// The web3 instance returned by `usePrivyWallet().signer`
+interface EvmSigningWeb3 {
+  eth: { personal: { sign(message: string, address: string, password: string): Promise<string> } };
+}
+
+interface AptosSigningWallet {
+  account(): Promise<{ address: string; publicKey: string }>;
+  signMessage(payload: { message: string; nonce: string }): Promise<AptosSignMessageResponse>;
+}
+
+async function getChallenge(chain: Chain, address: string): Promise<LoginChallenge> {
+  const response = await fetch(`${BACKEND_URL}/auth/challenge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chain, address }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to get login challenge: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+async function verifyLogin(proof: Record<string, string>): Promise<WalletSession> {
+  const response = await fetch(`${BACKEND_URL}/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(proof),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || `Failed to sign in: ${response.statusText}`);
+  }
+
+  const session: WalletSession = await response.json();
+  window.sessionStorage.setItem(sessionKey(session.wallet.chain, session.wallet.address), JSON.stringify(session));
+  return session;
+}
+
+export class WalletAuthService {
+  /**
+   * Get the cached session of a wallet if it has not expired yet
+   */
+  static getCachedSession(chain: Chain, address: string): WalletSession | null {
+    if (typeof window === 'undefined') return null;
+
+    const raw = window.sessionStorage.getItem(sessionKey(chain, address));
+    if (!raw) return null;
+
+    const session = JSON.parse(raw) as WalletSession;
+    // Refresh a minute early so requests don't race the expiry
+    return Date.parse(session.expiresAt) - 60_000 > Date.now() ? session : null;
+  }
+
+  /**
+   * Sign in with the connected Petra wallet and cache the session token
+   */
+  static async signInWithAptos(address: string): Promise<WalletSession> {
+    const wallet = (window.petra || window.aptos) as unknown as AptosSigningWallet | undefined;
+    if (!wallet) {
+      throw new Error('Petra wallet not found');
+    }
+
+    const challenge = await getChallenge('aptos', address);
+
+    const { publicKey } = await wallet.account();
+    const { fullMessage, signature } = await wallet.signMessage({
+      message: challenge.message,
+      nonce: challenge.nonce,
+    });
+
+    return verifyLogin({
+      chain: 'aptos',
+      address,
+      message: challenge.message,
+      signature,
+      publicKey,
+      fullMessage,
+    });
+  }
+
+  /**
+   * Sign in with the Privy EVM wallet (personal_sign) and cache the session token
+   */
+  static async signInWithEvm(address: string, getSigner: () => Promise<EvmSigningWeb3>): Promise<WalletSession> {
+    const challenge = await getChallenge('evm', address);
+    const web3 = await getSigner();
+    const signature = await web3.eth.personal.sign(challenge.message, address, '');
+
+    return verifyLogin({ chain: 'evm', address, message: challenge.message, signature });
+  }
+
+  /**
+   * Get a session token for an Aptos address, signing in if needed
+   */
+  static async getAptosToken(address: string): Promise<string> {
+    const session = this.getCachedSession('aptos', address) ?? await this.signInWithAptos(address);
+    return session.token;
+  }
+
+  /**
+   * Get a session token for an EVM address, signing in if needed
+   */
+  static async getEvmToken(address: string, getSigner: () => Promise<EvmSigningWeb3>): Promise<string> {
+    const session = this.getCachedSession('evm', address) ?? await this.signInWithEvm(address, getSigner);
+    return session.token;
+  }
+}
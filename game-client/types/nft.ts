@@ -21,3 +21,17 @@ export interface NFTMetadata {
   rarity: number;
   skill: number;
 }
+
+/**
+ * A Velmora NFT held by an Aptos account, as returned by `GET /aptos/tokens/:ownerAddress`
+ */
+export interface OwnedAptosNFT {
+  tokenDataId: string;
+  tokenName: string;
+  uri: string;
+  propertyVersion: string;
+  metadataId: number | null;
+  rarity: number;
+  skill: number;
+  metadata?: NFTMetadata | null;
+}